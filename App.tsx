@@ -1,48 +1,196 @@
 
-import React, { useState, useCallback, useRef, useEffect } from 'react';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import { 
-  Zap, Activity, Settings2, ShieldCheck, ChevronRight, Scan, RefreshCcw, Trophy,
+  Zap, Activity, RadioTower, Settings2, ShieldCheck, ChevronRight, Scan, RefreshCcw, Trophy,
   AlertTriangle, CheckCircle2, Maximize2, Crop, Key, Target, MousePointer2, Timer,
-  TrendingUp, UserCheck, Sword, Crosshair, Flame, ShieldAlert, Siren, FlipVertical
+  UserCheck, Sword, Crosshair, Flame, Siren, FlipVertical, FileUp, Cpu, Monitor, Camera, Eye, GraduationCap, SlidersHorizontal, LayoutGrid, History
 } from 'lucide-react';
 import { Chess } from 'chess.js';
 import CameraFeed from './components/CameraFeed';
 import ChessBoardDisplay from './components/ChessBoardDisplay';
-import { engine, EngineResult } from './services/engineService';
-import { analyzeBoardVision } from './services/visionService';
-import { INITIAL_FEN } from './types';
+import GameRecordPanel from './components/GameRecordPanel';
+import ReviewPanel from './components/ReviewPanel';
+import ArbiterReportPanel from './components/ArbiterReportPanel';
+import ImportDialog from './components/ImportDialog';
+import MoveNavigator from './components/MoveNavigator';
+import SearchSettingsBar from './components/SearchSettingsBar';
+import EngineSettingsPanel from './components/EngineSettingsPanel';
+import { engine, EngineResult, EngineMove, BatchProgress, SearchSettings, UciOption, UciOptionValue, EngineDescription, EngineBackend, EngineState, EngineStatus, MAX_ENGINE_RESTARTS, saveEngineBackend, formatScore } from './services/engineService';
+import {
+  EngineProfile, loadProfiles, loadActiveProfile, saveProfile, deleteProfile, getActiveProfileName, setActiveProfileName
+} from './services/engineProfileService';
+import {
+  VisionResult, uncertainSquares, squaresToPlacement, placementProblem
+} from './services/visionService';
+import { VisionSettings, loadVisionSettings, saveVisionSettings, createVisionProvider } from './services/visionRegistry';
+import { learnPieceSet, hasLearnedPieceSet } from './services/localVisionService';
+import VisionSettingsPanel from './components/VisionSettingsPanel';
+import { FairPlaySettings, ClockState, loadFairPlaySettings, saveFairPlaySettings, fairPlayStatus, isLiveSign } from './services/fairPlayService';
+import FairPlayPanel, { LIVE_SIGNAL_LABELS } from './components/FairPlayPanel';
+import { RelaySettings, RelayStatus, RelayPublisher, loadRelaySettings, saveRelaySettings, releasedMoves, relayPgn } from './services/relayService';
+import RelayPanel from './components/RelayPanel';
+import { ClockSettings, ClockSide, GameClock, loadClockSettings, saveClockSettings, createClock, clockStarted, switchClock, pauseClock, resumeClock, checkFlag, remainingAt, timeControlTag, incrementFromTag } from './services/clockService';
+import ChessClockPanel from './components/ChessClockPanel';
+import { SessionSnapshot, newSessionId, saveSession, listSessions, deleteSession, endSession } from './services/sessionService';
+import SessionsDialog from './components/SessionsDialog';
+import { BoardCorners, saveCalibration } from './services/perspectiveService';
+import { GameRecord, RecordedMove, RecordTreeNode, ROOT_ID, downloadPgn } from './services/gameRecordService';
+import { reviewGame, GameReview } from './services/reviewService';
+import { ArbiterReport, ReferenceBand, runArbiterReport, loadReferenceBands, saveReferenceBands } from './services/arbiterReportService';
+import { parsePgn, isFen, completeFen, PgnParseError } from './services/pgnService';
+import { loadOpeningBook, OpeningBook } from './services/openingService';
+import OpeningPanel from './components/OpeningPanel';
+import TablebasePanel from './components/TablebasePanel';
+import { TablebaseSettings, loadTablebaseSettings, saveTablebaseSettings, createTablebaseProvider, describeTablebaseMove } from './services/tablebaseService';
+import { BoardBox, CropSource } from './services/boardLocatorService';
+import { cellsToSquares } from './services/changeDetectionService';
+import { TransitionFilter, RejectedFrame, RejectReason, LinkMove, findMovePath, DEFAULT_TRANSITION_SETTINGS } from './services/transitionService';
+import { composeFen, inferPositionState, positionProblem, setupProblems } from './services/positionStateService';
+import BoardSetupEditor from './components/BoardSetupEditor';
+import PositionStateDialog from './components/PositionStateDialog';
+import { INITIAL_FEN, CaptureMode } from './types';
+
+const REJECT_LABELS: Record<RejectReason, string> = {
+  'no-legal-path': 'no legal move',
+  'piece-lifted': 'piece in hand',
+  'awaiting-stability': 'confirming'
+};
 
 /**
  * MAGNUS ASSAULT 4.2 - CLASSIC SCALE RESTORATION
  * Reverts board to original 720px width while maintaining laptop compatibility via smart overflow.
  */
 
+// How often released moves are checked for and sent to the broadcast relay
+const RELAY_CHECK_MS = 5000;
+// Clock faces redraw this often while a clock runs; tenths show in the last ten seconds
+const CLOCK_TICK_MS = 100;
+// The session is written to IndexedDB at most this often while it changes
+const SESSION_SAVE_MS = 2000;
+
+const ENGINE_STATE_DOT: Record<EngineState, string> = {
+  loading: 'bg-slate-500 animate-pulse',
+  ready: 'bg-emerald-500',
+  searching: 'bg-rose-500 animate-pulse',
+  crashed: 'bg-amber-400'
+};
+
 export default function App() {
   const [currentFen, setCurrentFen] = useState(INITIAL_FEN);
   const [boardOrientation, setBoardOrientation] = useState<'white' | 'black'>('white');
   const [engineResult, setEngineResult] = useState<EngineResult | null>(null);
-  const [isEngineThinking, setIsEngineThinking] = useState(false);
+  const [engineStatus, setEngineStatus] = useState<EngineStatus>(() => engine.getStatus());
   const [isVisionSyncing, setIsVisionSyncing] = useState(false);
   const [isAutoSyncEnabled, setIsAutoSyncEnabled] = useState(true);
   const [lastVisionError, setLastVisionError] = useState<string | null>(null);
   const [visionSuccessCount, setVisionSuccessCount] = useState(0);
-  const [activeCrop, setActiveCrop] = useState<{ ymin: number; xmin: number; ymax: number; xmax: number } | null>(null);
+  const [captureMode, setCaptureMode] = useState<CaptureMode>(() =>
+    localStorage.getItem('chessVision.captureMode') === CaptureMode.CAMERA ? CaptureMode.CAMERA : CaptureMode.SCREEN
+  );
+  const [activeCrop, setActiveCrop] = useState<BoardBox | null>(null);
+  const [cropSource, setCropSource] = useState<CropSource>('detected');
   const [hasKey, setHasKey] = useState(true);
+  const [visionSettings, setVisionSettings] = useState<VisionSettings>(loadVisionSettings);
+  const visionProvider = useMemo(() => createVisionProvider(visionSettings), [visionSettings]);
+  const [isVisionSettingsOpen, setIsVisionSettingsOpen] = useState(false);
+  const [hasPieceSet, setHasPieceSet] = useState(hasLearnedPieceSet);
+  const [fairPlaySettings, setFairPlaySettings] = useState<FairPlaySettings>(loadFairPlaySettings);
+  const [isFairPlayOpen, setIsFairPlayOpen] = useState(false);
+  const [declaredLive, setDeclaredLive] = useState(false);
+  // Latched once the game shows a live sign; cleared only when that game ends or is left
+  const [seenLive, setSeenLive] = useState(false);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [clockState, setClockState] = useState<ClockState>('unknown');
+  const [layoutLive, setLayoutLive] = useState<boolean | null>(null);
+  const lastFrameRef = useRef<string | null>(null);
+  // A read with doubtful squares that no legal move explains, waiting for the user to fix it
+  const [pendingRead, setPendingRead] = useState<VisionResult | null>(null);
+  const [lastReadConfidence, setLastReadConfidence] = useState<number | null>(null);
+  // Board frames the change detector held back, and the squares behind the last frame it sent
+  const [skippedFrames, setSkippedFrames] = useState(0);
+  const [lastChangedSquares, setLastChangedSquares] = useState<string[]>([]);
+  const transitionFilter = useRef(new TransitionFilter());
+  const [rejectedFrames, setRejectedFrames] = useState<RejectedFrame[]>([]);
+  // Set when a game was joined mid-way and its side to move and castling rights are guesses
+  const [isStateCheckNeeded, setIsStateCheckNeeded] = useState(false);
+  const [isStateEditorOpen, setIsStateEditorOpen] = useState(false);
+  // The setup editor either builds a study position or corrects a held vision read
+  const [setupTarget, setSetupTarget] = useState<'study' | 'correction' | null>(null);
   const [lastLatency, setLastLatency] = useState<number>(0);
   
   const [lastOpponentMove, setLastOpponentMove] = useState<{ from: string; to: string } | null>(null);
   const [lastSyncTimestamp, setLastSyncTimestamp] = useState(0);
   
-  const [estimatedElo, setEstimatedElo] = useState(800);
-  const [eloStability, setEloStability] = useState(0); 
-  const opponentMoveAccuracy = useRef<number[]>([]);
-  
   const [manualOverrideActive, setManualOverrideActive] = useState(false);
   const manualPauseTimer = useRef<number | null>(null);
   const gameRef = useRef(new Chess(INITIAL_FEN));
+
+  const recordRef = useRef(new GameRecord(INITIAL_FEN));
+  const [recordedMoves, setRecordedMoves] = useState<RecordedMove[]>([]);
+  const [recordTree, setRecordTree] = useState<RecordTreeNode>(() => recordRef.current.getTree());
+  const [whiteName, setWhiteName] = useState('');
+  const [blackName, setBlackName] = useState('');
+
+  const [gameReview, setGameReview] = useState<GameReview | null>(null);
+  const [reviewProgress, setReviewProgress] = useState<BatchProgress | null>(null);
+  const [isReviewRunning, setIsReviewRunning] = useState(false);
+  const cancelReview = useRef<(() => void) | null>(null);
+
+  const [arbiterReport, setArbiterReport] = useState<ArbiterReport | null>(null);
+  const [reportProgress, setReportProgress] = useState<BatchProgress | null>(null);
+  const [isReportRunning, setIsReportRunning] = useState(false);
+  const [whiteRating, setWhiteRating] = useState('');
+  const [blackRating, setBlackRating] = useState('');
+  const [referenceBands, setReferenceBands] = useState<ReferenceBand[]>(loadReferenceBands);
+  const cancelReport = useRef<(() => void) | null>(null);
+
+  const [relaySettings, setRelaySettings] = useState<RelaySettings>(loadRelaySettings);
+  const [relayStatus, setRelayStatus] = useState<RelayStatus>({ published: 0, recorded: 0, lastPublished: null, error: null });
+  const [isRelayOpen, setIsRelayOpen] = useState(false);
+  const relayPublisher = useRef(new RelayPublisher());
+
+  const [clockSettings, setClockSettings] = useState<ClockSettings>(loadClockSettings);
+  const [gameClock, setGameClock] = useState<GameClock>(() => createClock(clockSettings.control));
+  const [clockNow, setClockNow] = useState(() => Date.now());
+  // Moves are recorded from callbacks that outlive a render, so they read the clock from here
+  const clockRef = useRef(gameClock);
+
+  const [cameraCalibration, setCameraCalibration] = useState<{ deviceId: string; corners: BoardCorners } | null>(null);
+  const sessionId = useRef(newSessionId());
+  const sessionStartedAt = useRef(Date.now());
+  // Latest snapshot not yet written; the writer picks it up on its next round
+  const pendingSession = useRef<SessionSnapshot | null>(null);
+  const [sessions, setSessions] = useState<SessionSnapshot[] | null>(null);
+  const [interruptedSession, setInterruptedSession] = useState<SessionSnapshot | null>(null);
+  const [isSessionsOpen, setIsSessionsOpen] = useState(false);
+
+  // null follows the live position; an id pins the board to that node of the move tree
+  const [viewNodeId, setViewNodeId] = useState<number | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const displayFen = viewNodeId === null ? currentFen : recordRef.current.fenOf(viewNodeId);
+
+  const [searchSettings, setSearchSettings] = useState<SearchSettings>(() => engine.getSearchSettings());
+  // Board preview of an engine line; the engine keeps analysing the real position underneath
+  const [pvPreview, setPvPreview] = useState<{ fen: string; move: { from: string; to: string } } | null>(null);
+
+  const [isEngineSettingsOpen, setIsEngineSettingsOpen] = useState(false);
+  const [engineOptions, setEngineOptions] = useState<UciOption[]>([]);
+  const [engineOptionValues, setEngineOptionValues] = useState<Record<string, UciOptionValue>>(() => engine.getOptionValues());
+  const [engineProfiles, setEngineProfiles] = useState<EngineProfile[]>(() => loadProfiles());
+  const [activeProfileName, setActiveProfile] = useState(getActiveProfileName);
+  const [engineDescription, setEngineDescription] = useState<EngineDescription>(() => engine.describe());
+  const [engineBackend, setEngineBackend] = useState<EngineBackend>(() => engine.getBackend());
+
+  const [openingBook, setOpeningBook] = useState<OpeningBook | null>(null);
+  const [tablebaseSettings, setTablebaseSettings] = useState<TablebaseSettings>(loadTablebaseSettings);
+
+  const refreshRecord = useCallback(() => {
+    setRecordedMoves(recordRef.current.getMoves());
+    setRecordTree(recordRef.current.getTree());
+  }, []);
   
   const visionInFlight = useRef(false);
-  const previousEngineBestMove = useRef<{ from: string, to: string } | null>(null);
+  const analysisLocked = useRef(false);
 
   useEffect(() => {
     const checkKey = async () => {
@@ -62,103 +210,401 @@ export default function App() {
     }
   };
 
+  // A running clock knows whose turn it is before the camera has seen the move
   const isUserTurn = useCallback(() => {
-    const turn = currentFen.split(' ')[1] || 'w'; 
+    const turn = gameClock.running ?? (currentFen.split(' ')[1] || 'w');
     return (turn === 'w' && boardOrientation === 'white') || 
            (turn === 'b' && boardOrientation === 'black');
-  }, [currentFen, boardOrientation]);
+  }, [currentFen, boardOrientation, gameClock.running]);
+
+  const updateClock = useCallback((next: GameClock) => {
+    clockRef.current = next;
+    setGameClock(next);
+  }, []);
+
+  // Switches the clock for an accepted move when auto-switch is on; returns the mover's time left
+  // in seconds for the record, or undefined while the clock is not in use
+  const clockMove = useCallback((mover: ClockSide): number | undefined => {
+    const now = Date.now();
+    const next = clockSettings.autoSwitch ? switchClock(clockRef.current, mover, now) : clockRef.current;
+    if (next !== clockRef.current) updateClock(next);
+    return clockStarted(next) ? Math.round(remainingAt(next, mover, now) / 100) / 10 : undefined;
+  }, [clockSettings.autoSwitch, updateClock]);
+
+  // Closes the session on screen; whatever happens next is saved under a new one
+  const startNewSession = useCallback(() => {
+    const pending = pendingSession.current;
+    pendingSession.current = null;
+    (pending ? saveSession({ ...pending, ended: true }) : endSession(sessionId.current))
+      .catch(e => console.error("Session storage failure:", e));
+    sessionId.current = newSessionId();
+    sessionStartedAt.current = Date.now();
+  }, []);
+
+  // The game so far is kept as its own session and recording carries on from the new position,
+  // with a note in the PGN saying where it picked up
+  const reanchorRecord = useCallback((fen: string, stateConfirmed: boolean) => {
+    startNewSession();
+    recordRef.current.reset(fen);
+    recordRef.current.setStartComment('Recording resumed here; no legal moves led from the previous position');
+    refreshRecord();
+    setViewNodeId(null);
+    setIsStateCheckNeeded(!stateConfirmed);
+    setLastVisionError("Record restarted from this position; the earlier moves are under Sessions");
+  }, [startNewSession, refreshRecord]);
+
+  // Commits a recognised position: records the moves that lead to it, or re-anchors on it.
+  // A jump no legal move explains is only taken once the user has confirmed it.
+  const applyVisionResult = useCallback((result: VisionResult, path: { moves: LinkMove[]; fen: string } | null, confirmed: boolean = false) => {
+    if (result.placement === currentFen.split(' ')[0]) return;
+    const turn = currentFen.split(' ')[1] || 'w';
+    const isFreshSync = recordRef.current.getMoves().length === 0;
+
+    // The record cannot follow such a jump, so taking it silently would stop recording for good
+    if (!path && !isFreshSync && !confirmed) {
+      setPendingRead(result);
+      setLastVisionError("No legal move leads to the new position");
+      return;
+    }
+
+    // Vision supplies the placement only. With a move path the rest of the FEN follows from the
+    // rules; otherwise it is inferred, and a game joined mid-way asks the user to confirm it.
+    let nextFen: string;
+    if (path) nextFen = path.fen;
+    else {
+      // Syncing into a game usually happens on your own move; a later jump means someone moved
+      const nextTurn = isFreshSync ? (result.bottomColor === 'white' ? 'w' : 'b') : turn === 'w' ? 'b' : 'w';
+      nextFen = composeFen(result.placement, inferPositionState(result.placement, nextTurn, isFreshSync ? null : currentFen));
+    }
+
+    if (path) {
+      let moverFen = currentFen;
+      const added = path.moves.filter(move => {
+        const mover = new Chess(moverFen).turn();
+        const recorded = recordRef.current.addMove(move, null, Date.now(), clockMove(mover));
+        if (recorded) moverFen = recorded.fenAfter;
+        return recorded;
+      });
+      if (added.length) refreshRecord();
+    } else if (isFreshSync) {
+      // No legal move links the positions: re-anchor an empty record on the synced position
+      recordRef.current.reset(nextFen);
+      if (result.placement !== INITIAL_FEN.split(' ')[0]) setIsStateCheckNeeded(true);
+    } else {
+      reanchorRecord(nextFen, false);
+    }
+
+    setCurrentFen(nextFen);
+    gameRef.current.load(nextFen);
+    setLastSyncTimestamp(Date.now());
+    
+    const newTurn = nextFen.split(' ')[1] || 'w';
+    const isNowOurTurn = (newTurn === 'w' && result.bottomColor === 'white') || 
+                         (newTurn === 'b' && result.bottomColor === 'black');
+    
+    const lastMove = path?.moves[path.moves.length - 1];
+    if (isNowOurTurn && lastMove) setLastOpponentMove(lastMove);
+  }, [currentFen, refreshRecord, clockMove, reanchorRecord]);
 
-  const handleFrameCapture = useCallback(async (base64: string) => {
-    if (visionInFlight.current || !isAutoSyncEnabled || manualOverrideActive) return;
+  const handleFrameSkipped = useCallback(() => setSkippedFrames(prev => prev + 1), []);
+
+  const handleCropChange = useCallback((crop: BoardBox | null, source: CropSource) => {
+    setActiveCrop(crop);
+    setCropSource(source);
+  }, []);
+
+  // Resolves to false when the frame was not read into the game, so the feed sends the next one
+  // even if the board looks unchanged
+  const handleFrameCapture = useCallback(async (base64: string, changedCells?: number[]): Promise<boolean> => {
+    lastFrameRef.current = base64;
+    // A held read waits for the user; new frames would only replace it under their cursor
+    if (visionInFlight.current || !isAutoSyncEnabled || manualOverrideActive || pendingRead) return false;
     
     visionInFlight.current = true;
     setIsVisionSyncing(true);
     const startTime = Date.now();
 
     try {
-      const result = await analyzeBoardVision(base64, !!activeCrop);
+      const isCamera = captureMode === CaptureMode.CAMERA;
+      const changedSquares = changedCells && cellsToSquares(changedCells, boardOrientation);
+      setLastChangedSquares(changedSquares || []);
+      const result = await visionProvider.recognize({ image: base64, mode: captureMode, orientation: boardOrientation, changedSquares });
       
       if (result.error) {
         setLastVisionError(result.error);
         if (result.error.toLowerCase().includes("api key")) setHasKey(false);
-        return;
+        return false;
       }
 
       setLastLatency(Date.now() - startTime);
       setLastVisionError(null);
       setVisionSuccessCount(prev => prev + 1);
+      setLastReadConfidence(result.confidence ?? null);
+      setLayoutLive(result.liveGame ?? null);
 
       if (result.bottomColor !== boardOrientation) setBoardOrientation(result.bottomColor);
-      if (result.boundingBox && !activeCrop) setActiveCrop(result.boundingBox);
-
-      const newPieces = result.fen.split(' ')[0];
-      const currentPieces = currentFen.split(' ')[0];
+      // Camera frames arrive already straightened to the board; a crop would cut into it
+      // The model's box is only a fallback for boards the on-device locator cannot find
+      if (result.boundingBox && !activeCrop && !isCamera) handleCropChange(result.boundingBox, 'model');
 
-      if (newPieces !== currentPieces) {
-        const oldGame = new Chess(currentFen);
-        const wasOpponentTurn = 
-           (oldGame.turn() === 'b' && boardOrientation === 'white') || 
-           (oldGame.turn() === 'w' && boardOrientation === 'black');
-
-        const moves = oldGame.moves({ verbose: true });
-        let moveForHighlight = null;
-        
-        for (const m of moves) {
-           oldGame.move(m);
-           if (oldGame.fen().split(' ')[0] === newPieces) {
-             moveForHighlight = { from: m.from, to: m.to };
-             break;
-           }
-           oldGame.undo();
-        }
-
-        if (wasOpponentTurn && moveForHighlight && previousEngineBestMove.current) {
-          const pred = previousEngineBestMove.current;
-          const isTopEngine = pred.from === moveForHighlight.from && pred.to === moveForHighlight.to;
-          opponentMoveAccuracy.current.push(isTopEngine ? 100 : 0);
-          const avgAcc = opponentMoveAccuracy.current.reduce((a,b) => a+b, 0) / opponentMoveAccuracy.current.length;
-          setEstimatedElo(Math.round(800 + (avgAcc * 22))); 
-          setEloStability(Math.min(100, opponentMoveAccuracy.current.length * 8));
-        }
-
-        setCurrentFen(result.fen);
-        gameRef.current.load(result.fen);
-        setLastSyncTimestamp(Date.now());
-        
-        const newTurn = result.fen.split(' ')[1] || 'w';
-        const isNowOurTurn = (newTurn === 'w' && result.bottomColor === 'white') || 
-                             (newTurn === 'b' && result.bottomColor === 'black');
-        
-        if (isNowOurTurn && moveForHighlight) setLastOpponentMove(moveForHighlight);
+      const verdict = transitionFilter.current.evaluate(currentFen, result.placement);
+      if (verdict.kind === 'moves') applyVisionResult(result, verdict);
+      else if (verdict.kind === 'stable') applyVisionResult(result, null);
+      else if (verdict.kind === 'rejected') {
+        setRejectedFrames(transitionFilter.current.getRejections());
+        // A doubtful read is handed to the user instead of being left to settle on a misread
+        if (verdict.reason !== 'piece-lifted' && uncertainSquares(result).length > 0) setPendingRead(result);
+        // An unexplained position needs the same read on several frames before it is trusted
+        return false;
       }
+      return true;
     } catch (e: any) {
       setLastVisionError("Sync protection");
+      return false;
     } finally {
       setIsVisionSyncing(false);
       visionInFlight.current = false;
     }
-  }, [currentFen, boardOrientation, isAutoSyncEnabled, activeCrop, manualOverrideActive]);
+  }, [currentFen, boardOrientation, isAutoSyncEnabled, activeCrop, manualOverrideActive, captureMode, visionProvider, pendingRead, applyVisionResult]);
+
+  const handleFixSquare = (square: string, piece: string | null) => {
+    if (!pendingRead?.squares) return;
+    const squares = pendingRead.squares.map(s => (s.square === square ? { square, piece, confidence: 1 } : s));
+    const placement = squaresToPlacement(squares);
+    const fixed: VisionResult = { ...pendingRead, squares, placement };
+
+    const problem = placementProblem(placement);
+    const path = findMovePath(currentFen, placement, DEFAULT_TRANSITION_SETTINGS.maxPlies);
+    setLastVisionError(problem);
+    if (problem || (uncertainSquares(fixed).length > 0 && !path)) {
+      setPendingRead(fixed);
+      return;
+    }
+    setPendingRead(null);
+    transitionFilter.current.reset();
+    applyVisionResult(fixed, path);
+  };
+
+  const handleAcceptPendingRead = () => {
+    if (!pendingRead || placementProblem(pendingRead.placement)) return;
+    setPendingRead(null);
+    transitionFilter.current.reset();
+    setLastVisionError(null);
+    applyVisionResult(pendingRead, findMovePath(currentFen, pendingRead.placement, DEFAULT_TRANSITION_SETTINGS.maxPlies), true);
+  };
+
+  // The user vouches for the whole corrected position, so it is used as is when no move leads to it
+  const handleApplyCorrectedRead = (fen: string): string | null => {
+    if (!pendingRead) return "No read to correct";
+    const problems = setupProblems(fen);
+    if (problems.length) return problems[0];
+    const placement = fen.split(' ')[0];
+    const path = findMovePath(currentFen, placement, DEFAULT_TRANSITION_SETTINGS.maxPlies);
+    setPendingRead(null);
+    transitionFilter.current.reset();
+    if (path) {
+      applyVisionResult({ ...pendingRead, placement }, path);
+      return null;
+    }
+    if (recordRef.current.getMoves().length === 0) {
+      recordRef.current.reset(fen);
+      refreshRecord();
+      setIsStateCheckNeeded(false);
+    } else {
+      reanchorRecord(fen, true);
+    }
+    setCurrentFen(fen);
+    gameRef.current.load(fen);
+    setLastSyncTimestamp(Date.now());
+    return null;
+  };
+
+  // Rebuilds the recorded game on the confirmed starting state
+  const handleApplyStartState = (fen: string): string | null => {
+    const problem = positionProblem(fen);
+    if (problem) return problem;
+    if (!recordRef.current.changeStartFen(fen)) return "Recorded moves are not legal from that state";
+    const liveFen = recordRef.current.currentFen();
+    setCurrentFen(liveFen);
+    gameRef.current.load(liveFen);
+    setViewNodeId(null);
+    refreshRecord();
+    transitionFilter.current.reset();
+    setIsStateCheckNeeded(false);
+    return null;
+  };
+
+  const handleVisionSettingsChange = (next: VisionSettings) => {
+    setVisionSettings(next);
+    saveVisionSettings(next);
+    setHasKey(true);
+    setLastVisionError(null);
+    setPendingRead(null);
+  };
+
+  // The latest frame must show the starting position, seen from the current orientation
+  const handleLearnPieceSet = async () => {
+    if (!lastFrameRef.current) {
+      setLastVisionError("No frame captured yet");
+      return;
+    }
+    const error = await learnPieceSet(lastFrameRef.current, boardOrientation);
+    setLastVisionError(error);
+    if (!error) setHasPieceSet(true);
+  };
+
+  const handleCaptureModeChange = (mode: CaptureMode) => {
+    setCaptureMode(mode);
+    setActiveCrop(null);
+    setPendingRead(null);
+    setClockState('unknown');
+    setLayoutLive(null);
+    localStorage.setItem('chessVision.captureMode', mode);
+  };
+
+  useEffect(() => engine.onStatus(setEngineStatus), []);
+
+  const gameOver = useMemo(() => new Chess(currentFen).isGameOver(), [currentFen]);
+  const fairPlay = fairPlayStatus({
+    settings: fairPlaySettings,
+    mode: captureMode,
+    isStreaming,
+    declaredLive,
+    seenLive,
+    clock: clockState,
+    layoutLive,
+    gameOver
+  });
 
   useEffect(() => {
-    setIsEngineThinking(true);
-    engine.analyze(currentFen, (res) => {
-      if (res.fen === currentFen) {
-        setEngineResult(res);
-        setIsEngineThinking(false);
-        if (res.moves.length > 0) {
-          previousEngineBestMove.current = { 
-            from: res.moves[0].from.toLowerCase(), 
-            to: res.moves[0].to.toLowerCase() 
-          };
-        }
-      }
+    if (isLiveSign(fairPlay.signal)) setSeenLive(true);
+  }, [fairPlay.signal]);
+
+  // A declaration covers one game only. The page showing a finished game (a resignation or a
+  // flag the board cannot show) ends the one seen live too.
+  useEffect(() => {
+    if (gameOver) {
+      setDeclaredLive(false);
+      setSeenLive(false);
+    }
+  }, [gameOver]);
+
+  useEffect(() => {
+    if (layoutLive === false) setSeenLive(false);
+  }, [layoutLive]);
+
+  const handleFairPlaySettingsChange = (next: FairPlaySettings) => {
+    setFairPlaySettings(next);
+    saveFairPlaySettings(next);
+  };
+
+  useEffect(() => {
+    // A live game is never searched, so nothing below can show engine output for it
+    analysisLocked.current = fairPlay.locked;
+    if (fairPlay.locked) {
+      engine.stop();
+      setEngineResult(null);
+      setPvPreview(null);
+      return;
+    }
+    engine.analyze(displayFen, (res) => {
+      if (res.fen === displayFen && !analysisLocked.current) setEngineResult(res);
     });
-  }, [currentFen]);
+  }, [displayFen, fairPlay.locked]);
+
+  useEffect(() => {
+    setPvPreview(null);
+  }, [displayFen]);
+
+  // A move's eval is the score of the position it led to, so it arrives once that is analysed
+  useEffect(() => {
+    const evaluation = engineResult?.moves[0]?.evaluation ?? null;
+    if (engineResult && evaluation !== null && recordRef.current.setEvaluation(engineResult.fen, evaluation)) refreshRecord();
+  }, [engineResult, refreshRecord]);
+
+  const applyEngineProfile = useCallback((profile: EngineProfile) => {
+    engine.applyConfiguration(profile.options, profile.search);
+    setEngineOptionValues(engine.getOptionValues());
+    setSearchSettings(engine.getSearchSettings());
+    setActiveProfile(profile.name);
+    setActiveProfileName(profile.name);
+  }, []);
+
+  useEffect(() => {
+    applyEngineProfile(loadActiveProfile());
+    engine.setTablebase(createTablebaseProvider(loadTablebaseSettings()));
+    return engine.onOptions(options => {
+      setEngineOptions(options);
+      setEngineDescription(engine.describe());
+    });
+  }, [applyEngineProfile]);
+
+  const handleEngineOptionChange = (name: string, value?: UciOptionValue) => {
+    engine.setOption(name, value);
+    setEngineOptionValues(engine.getOptionValues());
+  };
+
+  const handleSelectProfile = (name: string) => {
+    const profile = engineProfiles.find(p => p.name === name);
+    if (profile) applyEngineProfile(profile);
+  };
+
+  const handleSaveProfile = (name: string) => {
+    const profile = { name, options: engine.getOptionValues(), search: engine.getSearchSettings() };
+    setEngineProfiles(saveProfile(profile));
+    setActiveProfile(name);
+    setActiveProfileName(name);
+  };
+
+  const handleDeleteProfile = (name: string) => {
+    const remaining = deleteProfile(name);
+    setEngineProfiles(remaining);
+    applyEngineProfile(remaining.find(p => p.name === name) || loadActiveProfile());
+  };
+
+  const handleBackendChange = (backend: EngineBackend) => {
+    engine.setBackend(backend);
+    saveEngineBackend(backend);
+    setEngineBackend(engine.getBackend());
+    setEngineDescription(engine.describe());
+  };
+
+  const handleTablebaseSettingsChange = (settings: TablebaseSettings) => {
+    engine.setTablebase(createTablebaseProvider(settings));
+    saveTablebaseSettings(settings);
+    setTablebaseSettings(settings);
+  };
+
+  const handleSearchSettingsChange = (update: Partial<SearchSettings>) => {
+    engine.setSearchSettings(update);
+    setSearchSettings(engine.getSearchSettings());
+  };
+
+  const handlePreviewPv = (move: EngineMove, index: number) => {
+    if (!engineResult) return;
+    const preview = new Chess(engineResult.fen);
+    let last = { from: '', to: '' };
+    for (const uci of move.pvUci.slice(0, index + 1)) {
+      const played = preview.move({ from: uci.slice(0, 2), to: uci.slice(2, 4), promotion: uci[4] });
+      last = { from: played.from, to: played.to };
+    }
+    setPvPreview({ fen: preview.fen(), move: last });
+  };
 
   const handleManualMove = (from: string, to: string) => {
+    if (viewNodeId !== null) {
+      // Exploring an earlier position: branch off the tree and leave the game itself untouched
+      const explored = recordRef.current.addMoveAt(viewNodeId, { from, to, promotion: 'q' });
+      if (explored) {
+        refreshRecord();
+        handleNavigate(explored.id);
+      }
+      return;
+    }
     try {
       const move = gameRef.current.move({ from, to, promotion: 'q' });
       if (move) {
+        if (recordRef.current.addMove({ from: move.from, to: move.to, promotion: move.promotion }, null, Date.now(), clockMove(move.color))) refreshRecord();
         setCurrentFen(gameRef.current.fen());
         setLastOpponentMove(null);
         setManualOverrideActive(true);
@@ -168,19 +614,407 @@ export default function App() {
     } catch (e) {}
   };
 
+  const handleStartReview = () => {
+    if (fairPlay.locked) return;
+    const record = recordRef.current;
+    const job = reviewGame(record.getStartFen(), record.getMoves().map(m => m.san), 14, setReviewProgress);
+    cancelReview.current = job.cancel;
+    setIsReviewRunning(true);
+    setGameReview(null);
+    job.promise
+      .then(setGameReview)
+      .catch(() => setReviewProgress(null))
+      .finally(() => {
+        cancelReview.current = null;
+        setIsReviewRunning(false);
+      });
+  };
+
+  const handleStartReport = () => {
+    if (fairPlay.locked) return;
+    const record = recordRef.current;
+    const moves = record.getMoves();
+    const bookPlies = openingBook?.lookup(record.getStartFen(), moves).bookPlies ?? 0;
+    const rating = (value: string) => (value.trim() && Number.isFinite(Number(value)) ? Number(value) : null);
+    const job = runArbiterReport(record.getStartFen(), moves, {
+      players: {
+        white: { name: whiteName.trim(), rating: rating(whiteRating) },
+        black: { name: blackName.trim(), rating: rating(blackRating) }
+      },
+      bands: referenceBands,
+      bookPlies,
+      // Clock times are left after the increment, so the report adds it back to get the time spent
+      incrementSeconds: clockStarted(gameClock) ? gameClock.control.incrementSeconds : incrementFromTag(record.getHeaders().TimeControl),
+      event: record.getHeaders().Event
+    }, setReportProgress);
+    cancelReport.current = job.cancel;
+    setIsReportRunning(true);
+    setArbiterReport(null);
+    job.promise
+      .then(setArbiterReport)
+      .catch(() => setReportProgress(null))
+      .finally(() => {
+        cancelReport.current = null;
+        setIsReportRunning(false);
+      });
+  };
+
+  const handleReferenceBandsChange = (bands: ReferenceBand[]) => {
+    setReferenceBands(bands);
+    saveReferenceBands(bands);
+  };
+
+  const handleCancelReview = () => {
+    cancelReview.current?.();
+  };
+
   const handleReset = () => {
+    startNewSession();
+    cancelReview.current?.();
+    setGameReview(null);
+    setReviewProgress(null);
     gameRef.current = new Chess(INITIAL_FEN);
+    recordRef.current.reset(INITIAL_FEN);
+    refreshRecord();
     setCurrentFen(INITIAL_FEN);
     setEngineResult(null);
     setLastOpponentMove(null);
     setVisionSuccessCount(0);
     setActiveCrop(null);
     setManualOverrideActive(false);
-    setEstimatedElo(800);
-    setEloStability(0);
-    opponentMoveAccuracy.current = [];
+    cancelReport.current?.();
+    setArbiterReport(null);
+    setReportProgress(null);
+    setViewNodeId(null);
+    setPendingRead(null);
+    setDeclaredLive(false);
+    setSeenLive(false);
+    setLayoutLive(null);
+    setIsStateCheckNeeded(false);
+    transitionFilter.current.reset();
+    updateClock(createClock(clockSettings.control));
   };
 
+  const handleImport = (text: string): string | null => {
+    // Studying a position means the engine sees it, which the guard must not allow mid-game
+    if (fairPlay.locked) return "Not while the fair-play guard holds a live game";
+    try {
+      if (isFen(text)) {
+        const fen = completeFen(text);
+        recordRef.current.reset(fen);
+        setWhiteName('');
+        setBlackName('');
+        setWhiteRating('');
+        setBlackRating('');
+      } else {
+        const parsed = parsePgn(text);
+        recordRef.current.load(parsed.startFen, parsed.root, parsed.headers);
+        setWhiteName(parsed.headers.White && parsed.headers.White !== '?' ? parsed.headers.White : '');
+        setBlackName(parsed.headers.Black && parsed.headers.Black !== '?' ? parsed.headers.Black : '');
+        setWhiteRating(parsed.headers.WhiteElo && parsed.headers.WhiteElo !== '?' ? parsed.headers.WhiteElo : '');
+        setBlackRating(parsed.headers.BlackElo && parsed.headers.BlackElo !== '?' ? parsed.headers.BlackElo : '');
+      }
+    } catch (e: any) {
+      return e instanceof PgnParseError ? e.message : 'Unrecognised PGN or FEN';
+    }
+
+    // Imported games are studied, not synced: stop vision from overwriting the position
+    startNewSession();
+    cancelReview.current?.();
+    updateClock(createClock(clockSettings.control));
+    cancelReport.current?.();
+    setIsAutoSyncEnabled(false);
+    setGameReview(null);
+    setReviewProgress(null);
+    setArbiterReport(null);
+    setReportProgress(null);
+    const fen = recordRef.current.currentFen();
+    gameRef.current.load(fen);
+    setCurrentFen(fen);
+    refreshRecord();
+    setLastOpponentMove(null);
+    setViewNodeId(recordRef.current.getMoves().length > 0 ? ROOT_ID : null);
+    setPendingRead(null);
+    setIsStateCheckNeeded(false);
+    return null;
+  };
+
+  const handleNavigate = useCallback((id: number | null) => {
+    if (id === null || !recordRef.current.has(id)) return;
+    setViewNodeId(id === recordRef.current.tipId() ? null : id);
+  }, []);
+
+  const shownNodeId = viewNodeId ?? recordRef.current.tipId();
+  const shownPly = recordRef.current.getMove(shownNodeId)?.ply ?? 0;
+  const shownLineEnd = recordRef.current.lineEndId(shownNodeId);
+  const shownLastPly = recordRef.current.getMove(shownLineEnd)?.ply ?? 0;
+
+  useEffect(() => {
+    loadOpeningBook().then(setOpeningBook).catch(e => console.error("Opening book failure:", e));
+  }, []);
+
+  const openingLookup = useMemo(
+    () => openingBook?.lookup(recordRef.current.getStartFen(), recordRef.current.lineTo(shownNodeId)) ?? null,
+    [openingBook, shownNodeId, recordTree]
+  );
+
+  const handlePlaySan = (san: string) => {
+    try {
+      const move = new Chess(displayFen).move(san);
+      handleManualMove(move.from, move.to);
+    } catch (e) {}
+  };
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA')) return;
+      const record = recordRef.current;
+      const keyTargets: Record<string, () => number | null> = {
+        ArrowLeft: () => record.parentId(shownNodeId),
+        ArrowRight: () => record.nextId(shownNodeId),
+        Home: () => ROOT_ID,
+        End: () => record.lineEndId(shownNodeId)
+      };
+      if (!keyTargets[e.key]) return;
+      e.preventDefault();
+      handleNavigate(keyTargets[e.key]());
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [shownNodeId, recordTree, handleNavigate]);
+
+  // Tree edits that reshape the main line move the live game with it
+  const syncLiveToRecord = () => {
+    const fen = recordRef.current.currentFen();
+    if (fen !== currentFen) {
+      gameRef.current.load(fen);
+      setCurrentFen(fen);
+      setLastOpponentMove(null);
+    }
+  };
+
+  const handlePromoteVariation = (id: number) => {
+    if (!recordRef.current.promoteToMainline(id)) return;
+    refreshRecord();
+    syncLiveToRecord();
+    setViewNodeId(id === recordRef.current.tipId() ? null : id);
+  };
+
+  const handleDeleteVariation = (id: number) => {
+    const parent = recordRef.current.parentId(id);
+    if (!recordRef.current.deleteVariation(id)) return;
+    refreshRecord();
+    handleNavigate(parent);
+  };
+
+  const handleAnnotate = (id: number, comment: string, nags: number[]) => {
+    if (recordRef.current.annotate(id, comment, nags)) refreshRecord();
+  };
+
+  const handleExportPgn = () => {
+    const opening = openingBook?.lookup(recordRef.current.getStartFen(), recordRef.current.getMoves()).opening;
+    const pgn = recordRef.current.toPgn({
+      event: 'Chess Vision Recording',
+      white: whiteName.trim() || undefined,
+      black: blackName.trim() || undefined,
+      eco: opening?.eco,
+      opening: opening?.name,
+      timeControl: clockStarted(gameClock) ? timeControlTag(gameClock.control) : undefined
+    });
+    downloadPgn(pgn, `game-${new Date().toISOString().slice(0, 10)}.pgn`);
+  };
+
+  // Moves come out of the delay with time, so the relay is also checked on a timer
+  useEffect(() => {
+    if (!relaySettings.enabled) return;
+    const publish = () => {
+      const record = recordRef.current;
+      const moves = record.getMoves();
+      const released = releasedMoves(moves, relaySettings.delaySeconds);
+      const pgn = relayPgn(record.getStartFen(), released, {
+        event: relaySettings.event.trim() || undefined,
+        round: relaySettings.round.trim() || undefined,
+        white: whiteName.trim() || undefined,
+        black: blackName.trim() || undefined,
+        timeControl: clockStarted(clockRef.current) ? timeControlTag(clockRef.current.control) : undefined
+      });
+      relayPublisher.current.publish(relaySettings, pgn)
+        .then(sent => setRelayStatus(prev => ({ published: released.length, recorded: moves.length, lastPublished: sent ? Date.now() : prev.lastPublished, error: null })))
+        .catch((e: any) => setRelayStatus(prev => ({ ...prev, recorded: moves.length, error: e.message || 'Relay unreachable' })));
+    };
+    publish();
+    const timer = window.setInterval(publish, RELAY_CHECK_MS);
+    return () => window.clearInterval(timer);
+  }, [relaySettings, recordTree, whiteName, blackName]);
+
+  const handleRelaySettingsChange = (next: RelaySettings) => {
+    setRelaySettings(next);
+    saveRelaySettings(next);
+    relayPublisher.current.reset();
+    setRelayStatus({ published: 0, recorded: recordRef.current.getMoves().length, lastPublished: null, error: null });
+  };
+
+  useEffect(() => {
+    if (!gameClock.running) return;
+    const timer = window.setInterval(() => {
+      const now = Date.now();
+      setClockNow(now);
+      const checked = checkFlag(clockRef.current, now);
+      if (checked !== clockRef.current) updateClock(checked);
+    }, CLOCK_TICK_MS);
+    return () => window.clearInterval(timer);
+  }, [gameClock.running, updateClock]);
+
+  const handleClockTap = (side: ClockSide) => {
+    const now = Date.now();
+    updateClock(switchClock(clockRef.current, side, now));
+    setClockNow(now);
+  };
+
+  // A paused clock resumes for the side to move on the board
+  const handleClockResume = () => {
+    updateClock(resumeClock(clockRef.current, (currentFen.split(' ')[1] || 'w') as ClockSide));
+  };
+
+  const handleClockSettingsChange = (next: ClockSettings) => {
+    setClockSettings(next);
+    saveClockSettings(next);
+    // A new time control applies straight away unless a game is already on the clock
+    if (!clockStarted(clockRef.current)) updateClock(createClock(next.control));
+  };
+
+  const handleCalibrationChange = useCallback((deviceId: string, corners: BoardCorners | null) => {
+    setCameraCalibration(corners ? { deviceId, corners } : null);
+  }, []);
+
+  // Anything worth resuming is queued for the writer; a bare start position is not
+  useEffect(() => {
+    if (recordTree.children.length === 0 && recordRef.current.getStartFen() === INITIAL_FEN) return;
+    pendingSession.current = {
+      id: sessionId.current,
+      startedAt: sessionStartedAt.current,
+      updatedAt: Date.now(),
+      ended: false,
+      record: recordRef.current.snapshot(),
+      currentFen,
+      players: { white: whiteName, black: blackName, whiteRating, blackRating },
+      capture: { mode: captureMode, orientation: boardOrientation, crop: activeCrop, cropSource, calibration: cameraCalibration },
+      engine: { profile: activeProfileName, options: engineOptionValues, search: searchSettings },
+      vision: { reads: visionSuccessCount, skippedFrames, rejected: rejectedFrames },
+      clock: gameClock,
+      liveGame: seenLive || declaredLive
+    };
+  }, [
+    recordTree, currentFen, whiteName, blackName, whiteRating, blackRating, captureMode, boardOrientation, activeCrop, cropSource,
+    cameraCalibration, activeProfileName, engineOptionValues, searchSettings, visionSuccessCount, skippedFrames, rejectedFrames, gameClock,
+    seenLive, declaredLive
+  ]);
+
+  useEffect(() => {
+    const flush = () => {
+      const session = pendingSession.current;
+      if (!session) return;
+      pendingSession.current = null;
+      saveSession(session).catch(e => console.error("Session storage failure:", e));
+    };
+    const timer = window.setInterval(flush, SESSION_SAVE_MS);
+    // A closing tab gets its last changes queued straight away
+    window.addEventListener('pagehide', flush);
+    return () => {
+      window.clearInterval(timer);
+      window.removeEventListener('pagehide', flush);
+    };
+  }, []);
+
+  // A session left open by a crash or a closed tab is offered on start
+  useEffect(() => {
+    listSessions()
+      .then(all => {
+        setSessions(all);
+        const open = all.find(session => !session.ended && session.id !== sessionId.current);
+        if (open) {
+          setInterruptedSession(open);
+          setIsSessionsOpen(true);
+        }
+      })
+      .catch(e => console.error("Session storage failure:", e));
+  }, []);
+
+  const refreshSessions = () => {
+    listSessions().then(setSessions).catch(e => console.error("Session storage failure:", e));
+  };
+
+  const handleOpenSessions = () => {
+    refreshSessions();
+    setIsSessionsOpen(true);
+  };
+
+  const handleResumeSession = (session: SessionSnapshot) => {
+    handleReset();
+    sessionId.current = session.id;
+    sessionStartedAt.current = session.startedAt;
+
+    recordRef.current.restore(session.record);
+    refreshRecord();
+    gameRef.current = new Chess(session.currentFen);
+    setCurrentFen(session.currentFen);
+    setWhiteName(session.players.white);
+    setBlackName(session.players.black);
+    setWhiteRating(session.players.whiteRating);
+    setBlackRating(session.players.blackRating);
+
+    handleCaptureModeChange(session.capture.mode);
+    setBoardOrientation(session.capture.orientation);
+    setActiveCrop(session.capture.crop);
+    setCropSource(session.capture.cropSource);
+    // The camera picks its calibration up from storage when it starts
+    if (session.capture.calibration) saveCalibration(session.capture.calibration.deviceId, session.capture.calibration.corners);
+    setCameraCalibration(session.capture.calibration);
+
+    applyEngineProfile({ name: session.engine.profile, options: session.engine.options, search: session.engine.search });
+
+    setVisionSuccessCount(session.vision.reads);
+    setSkippedFrames(session.vision.skippedFrames);
+    transitionFilter.current.restoreRejections(session.vision.rejected);
+    setRejectedFrames(transitionFilter.current.getRejections());
+
+    // The clock stopped when the page did; it waits paused until the players are back
+    updateClock(pauseClock(session.clock, session.updatedAt));
+    // Reloading must not be a way round the fair-play guard
+    setSeenLive(!!session.liveGame);
+
+    setInterruptedSession(null);
+    setIsSessionsOpen(false);
+  };
+
+  const handleDismissInterrupted = () => {
+    if (interruptedSession) endSession(interruptedSession.id).then(refreshSessions).catch(e => console.error("Session storage failure:", e));
+    setInterruptedSession(null);
+  };
+
+  const handleDeleteSession = (id: string) => {
+    deleteSession(id).then(refreshSessions).catch(e => console.error("Session storage failure:", e));
+  };
+
+  const handleDeleteEndedSessions = () => {
+    const ended = (sessions ?? []).filter(session => session.ended && session.id !== sessionId.current);
+    Promise.all(ended.map(session => deleteSession(session.id)))
+      .then(refreshSessions)
+      .catch(e => console.error("Session storage failure:", e));
+  };
+
+  const handleUndoRecordedMove = () => {
+    if (!recordRef.current.undo()) return;
+    refreshRecord();
+    syncLiveToRecord();
+    setViewNodeId(null);
+  };
+
+  // Forced mates pin the bar to the edge instead of reading as a huge pawn score
+  const topLine = engineResult?.moves[0];
+  const evalBarScore = topLine ? (topLine.mate !== null ? Math.sign(topLine.mate) * 10 : topLine.evaluation ?? 0) : 0;
+
   const boardMoves = engineResult?.moves.map(m => ({ 
     from: m.from.toLowerCase(), 
     to: m.to.toLowerCase() 
@@ -203,12 +1037,53 @@ export default function App() {
         </div>
         
         <div className="flex items-center gap-4">
-          {!hasKey && (
+          <button
+            onClick={() => setIsVisionSettingsOpen(true)}
+            className="px-2 py-1.5 bg-slate-900/50 hover:bg-slate-800 rounded-lg border border-slate-800 text-slate-400 flex items-center gap-1 text-[9px] font-black uppercase"
+            title="Vision provider"
+          >
+            <Eye className="w-3 h-3" /> {visionProvider.label}
+          </button>
+          {visionProvider.id === 'local' && (
+            <button
+              onClick={handleLearnPieceSet}
+              className="px-2 py-1.5 bg-slate-900/50 hover:bg-slate-800 rounded-lg border border-slate-800 text-slate-400 flex items-center gap-1 text-[9px] font-black uppercase"
+              title="Show the starting position, then click to learn this board's piece set"
+            >
+              <GraduationCap className="w-3.5 h-3.5" /> {hasPieceSet ? 'Relearn pieces' : 'Learn pieces'}
+            </button>
+          )}
+          {!hasKey && visionProvider.id === 'gemini' && (
             <button onClick={handleConnectKey} className="px-4 py-1.5 bg-rose-600 text-white rounded-lg text-[10px] font-black uppercase flex items-center gap-2 hover:bg-rose-500 transition-all shadow-lg animate-bounce">
               <Key className="w-3.5 h-3.5" /> Connect Key
             </button>
           )}
+          <button
+            onClick={() => setIsFairPlayOpen(true)}
+            className={`px-2 py-1.5 rounded-lg border flex items-center gap-1 text-[9px] font-black uppercase ${fairPlay.locked ? 'bg-amber-500/10 border-amber-500/30 text-amber-300' : 'bg-slate-900/50 hover:bg-slate-800 border-slate-800 text-slate-400'}`}
+            title="Fair play guard"
+          >
+            <ShieldCheck className="w-3 h-3" /> {fairPlay.locked ? 'Review-only' : fairPlaySettings.enabled ? 'Guarded' : 'Guard off'}
+          </button>
+          <button
+            onClick={() => setIsRelayOpen(true)}
+            className={`px-2 py-1.5 rounded-lg border flex items-center gap-1 text-[9px] font-black uppercase ${relaySettings.enabled && relayStatus.error ? 'bg-amber-500/10 border-amber-500/30 text-amber-300' : 'bg-slate-900/50 hover:bg-slate-800 border-slate-800 text-slate-400'}`}
+            title="Broadcast relay"
+          >
+            <RadioTower className="w-3 h-3" /> {relaySettings.enabled ? `Board ${relaySettings.board} • ${relayStatus.published}/${relayStatus.recorded}` : 'Relay'}
+          </button>
+          <button onClick={handleOpenSessions} className="p-2 bg-slate-900/50 hover:bg-slate-800 rounded-lg border border-slate-800 text-slate-400" title="Saved sessions">
+            <History className="w-4 h-4" />
+          </button>
+          <button onClick={() => setIsEngineSettingsOpen(true)} className="p-2 bg-slate-900/50 hover:bg-slate-800 rounded-lg border border-slate-800 text-slate-400" title="Engine settings">
+            <Settings2 className="w-4 h-4" />
+          </button>
           <div className="flex items-center gap-4 text-[10px] font-mono text-slate-500">
+             <div className="hidden lg:flex items-center gap-1.5 bg-slate-900/50 px-3 py-1 rounded-full border border-slate-800" title={engineDescription.label}>
+               <Cpu className="w-3.5 h-3.5 text-rose-500/70" />
+               <span>{engineDescription.engineName || engineDescription.label}</span>
+               <div className={`w-1.5 h-1.5 rounded-full ${ENGINE_STATE_DOT[engineStatus.state]}`} title={engineStatus.state} />
+             </div>
              <div className="flex items-center gap-1.5 bg-slate-900/50 px-3 py-1 rounded-full border border-slate-800">
                <Timer className="w-3.5 h-3.5 text-rose-500/70" />
                <span>{lastLatency}ms</span>
@@ -229,16 +1104,39 @@ export default function App() {
                <CameraFeed 
                  isAnalyzing={isAutoSyncEnabled && !manualOverrideActive} 
                  onCaptureFrame={handleFrameCapture} 
-                 onStreamStatusChange={() => {}} 
+                 onFrameSkipped={handleFrameSkipped}
+                 onStreamStatusChange={setIsStreaming}
+                 onClockState={setClockState}
+                 onCalibrationChange={handleCalibrationChange}
                  crop={activeCrop}
+                 cropSource={cropSource}
+                 onCropChange={handleCropChange}
                  isSyncing={isVisionSyncing}
+                 mode={captureMode}
                />
                <div className="absolute top-3 left-3 z-20 flex items-center gap-2 px-2 py-1 bg-black/80 rounded-lg text-[9px] font-black text-slate-300 border border-white/5 uppercase">
                  <Crosshair className={`w-3.5 h-3.5 ${isVisionSyncing ? 'text-rose-400 animate-pulse' : 'text-rose-600'}`} />
                  Precision
+                 <div className="flex ml-1 rounded overflow-hidden border border-white/10">
+                   {[CaptureMode.SCREEN, CaptureMode.CAMERA].map(mode => (
+                     <button
+                       key={mode}
+                       onClick={() => handleCaptureModeChange(mode)}
+                       className={`p-1 ${captureMode === mode ? 'bg-rose-600 text-white' : 'text-slate-500 hover:text-slate-300'}`}
+                       title={mode === CaptureMode.SCREEN ? 'Screen capture' : 'Board camera'}
+                     >
+                       {mode === CaptureMode.SCREEN ? <Monitor className="w-3 h-3" /> : <Camera className="w-3 h-3" />}
+                     </button>
+                   ))}
+                 </div>
                </div>
             </div>
 
+            {!fairPlay.locked && <OpeningPanel lookup={openingLookup} onPlayMove={handlePlaySan} />}
+            {engineResult?.tablebase && engineResult.fen === displayFen && (
+              <TablebasePanel result={engineResult.tablebase} onPlayMove={handlePlaySan} />
+            )}
+
             {/* Aggression Lines Section: Always visible and scrollable */}
             <div className="flex-1 flex flex-col glass rounded-2xl overflow-hidden border border-white/5">
                <div className="p-4 border-b border-white/5 flex items-center justify-between shrink-0 bg-slate-900/40">
@@ -246,7 +1144,20 @@ export default function App() {
                    <Flame className="w-4 h-4 text-rose-500" />
                    <h2 className="text-xs font-black uppercase tracking-widest text-white">Aggression Lines</h2>
                  </div>
+                 {engineStatus.state === 'crashed' ? (
+                   <button onClick={() => engine.restart()} className="flex items-center gap-1.5 text-[9px] font-black uppercase text-amber-400 hover:text-amber-300" title={engineStatus.error || undefined}>
+                     <AlertTriangle className="w-3.5 h-3.5" />
+                     {engineStatus.restarts > MAX_ENGINE_RESTARTS ? 'Engine down • Restart' : `Engine crashed • retry ${engineStatus.restarts}`}
+                   </button>
+                 ) : engineStatus.state === 'loading' ? (
+                   <span className="text-[9px] font-mono text-slate-500 animate-pulse">loading engine...</span>
+                 ) : engineResult && (
+                   <span className="text-[9px] font-mono text-slate-500">
+                     d{engineResult.depth}/{engineResult.selDepth} • {Math.round(engineResult.nps / 1000)}kn/s{engineStatus.state === 'searching' ? '' : ' • done'}
+                   </span>
+                 )}
                </div>
+               <SearchSettingsBar settings={searchSettings} onChange={handleSearchSettingsChange} />
 
                <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-4">
                  {engineResult?.moves && engineResult.moves.length > 0 ? (
@@ -256,18 +1167,31 @@ export default function App() {
                           <div className="flex flex-col">
                             <span className="text-[9px] font-black uppercase text-slate-500 tracking-tighter mb-1.5">#{idx+1} {isUserTurn() ? 'KILL VECTOR' : 'THREAT'}</span>
                             <div className="text-xl font-black text-white tracking-tighter flex items-center gap-3">
-                              <span className="bg-slate-800 px-2 py-0.5 rounded border border-white/5">{move.from}</span>
+                              <span className="bg-slate-800 px-2 py-0.5 rounded border border-white/5">{move.san}</span>
                               <ChevronRight className="w-4 h-4 text-rose-500" />
-                              <span className="bg-slate-800 px-2 py-0.5 rounded border border-white/5">{move.to}</span>
+                              <span className="text-sm text-slate-500 font-mono">{move.from}{move.to}</span>
                             </div>
                           </div>
                           <div className="text-right">
-                             <div className="text-2xl font-black text-rose-400 leading-none">{move.confidence}%</div>
-                             <span className="text-[8px] text-slate-600 font-bold uppercase tracking-widest">Confidence</span>
+                             <div className={`text-2xl font-black leading-none ${move.mate !== null ? 'text-amber-300' : 'text-rose-400'}`}>{formatScore(move)}</div>
+                             <span className="text-[8px] text-slate-600 font-bold uppercase tracking-widest">{move.tablebase ? describeTablebaseMove(move.tablebase) : move.mate !== null ? 'Forced Mate' : `${move.confidence}% Confidence`}</span>
                           </div>
                         </div>
+                        <div className="mt-3 flex flex-wrap gap-x-1 gap-y-0.5 font-mono text-[10px] leading-5">
+                          {move.pv.map((san, pvIdx) => (
+                            <button key={pvIdx} onClick={() => handlePreviewPv(move, pvIdx)} className="px-1 rounded text-slate-400 hover:bg-slate-800 hover:text-white">
+                              {san}
+                            </button>
+                          ))}
+                        </div>
                      </div>
                    ))
+                 ) : fairPlay.locked ? (
+                   <div className="h-full flex flex-col items-center justify-center text-center py-10 text-amber-300/80">
+                      <ShieldCheck className="w-12 h-12 mb-4" />
+                      <p className="text-[10px] font-black uppercase tracking-[0.3em] max-w-[180px]">Review-only: live game</p>
+                      <p className="mt-2 text-[9px] text-slate-500 max-w-[200px]">{fairPlay.signal && LIVE_SIGNAL_LABELS[fairPlay.signal]} • moves are recorded, analysis returns when the game is over</p>
+                   </div>
                  ) : (
                    <div className="h-full flex flex-col items-center justify-center opacity-20 text-center py-10">
                       <Target className="w-12 h-12 mb-4 animate-pulse text-rose-600" />
@@ -282,8 +1206,21 @@ export default function App() {
                    {lastVisionError ? <AlertTriangle className="w-3.5 h-3.5 text-rose-500" /> : <CheckCircle2 className="w-3.5 h-3.5 text-rose-600" />}
                  </div>
                  <div className="text-rose-500/80 font-bold uppercase truncate">
-                   {lastVisionError ? `ERR: ${lastVisionError}` : `Sync Locked • ${visionSuccessCount} Snaps`}
+                   {lastVisionError ? `ERR: ${lastVisionError}` : `Sync Locked • ${visionSuccessCount} Snaps${lastReadConfidence !== null ? ` • ${Math.round(lastReadConfidence * 100)}%` : ''}`}
                  </div>
+                 {skippedFrames > 0 && (
+                   <div className="mt-1 text-slate-500 uppercase truncate">
+                     {skippedFrames} unchanged skipped{lastChangedSquares.length > 0 ? ` • last change: ${lastChangedSquares.join(' ')}` : ''}
+                   </div>
+                 )}
+                 {rejectedFrames.length > 0 && (
+                   <div
+                     className="mt-1 text-slate-500 uppercase truncate"
+                     title={rejectedFrames.slice(-8).reverse().map(r => `${new Date(r.time).toLocaleTimeString()} ${REJECT_LABELS[r.reason]}: ${r.placement}`).join('\n')}
+                   >
+                     {rejectedFrames.length} rejected • last: {REJECT_LABELS[rejectedFrames[rejectedFrames.length - 1].reason]}
+                   </div>
+                 )}
                </div>
             </div>
 
@@ -313,6 +1250,29 @@ export default function App() {
                  <button onClick={() => setBoardOrientation(p => p === 'white' ? 'black' : 'white')} className="p-3 bg-slate-900 hover:bg-slate-800 rounded-xl text-slate-400 border border-slate-800 shadow-xl flex items-center gap-2 text-[10px] font-black uppercase">
                    <FlipVertical className="w-4 h-4" /> Flip Side
                  </button>
+                 <button
+                   onClick={() => setIsImportOpen(true)}
+                   disabled={fairPlay.locked}
+                   className="p-3 bg-slate-900 hover:bg-slate-800 disabled:opacity-30 rounded-xl text-slate-400 border border-slate-800 shadow-xl flex items-center gap-2 text-[10px] font-black uppercase"
+                   title={fairPlay.locked ? 'Not while the fair-play guard holds a live game' : undefined}
+                 >
+                   <FileUp className="w-4 h-4" /> Import
+                 </button>
+                 <button
+                   onClick={() => setSetupTarget('study')}
+                   disabled={fairPlay.locked}
+                   className="p-3 bg-slate-900 hover:bg-slate-800 disabled:opacity-30 rounded-xl text-slate-400 border border-slate-800 shadow-xl flex items-center gap-2 text-[10px] font-black uppercase"
+                   title={fairPlay.locked ? 'Not while the fair-play guard holds a live game' : undefined}
+                 >
+                   <LayoutGrid className="w-4 h-4" /> Setup
+                 </button>
+                 <button
+                   onClick={() => setIsStateEditorOpen(true)}
+                   className={`p-3 rounded-xl border shadow-xl flex items-center gap-2 text-[10px] font-black uppercase ${isStateCheckNeeded ? 'bg-amber-500 text-slate-950 border-amber-400 animate-pulse' : 'bg-slate-900 hover:bg-slate-800 text-slate-400 border-slate-800'}`}
+                   title={isStateCheckNeeded ? 'Joined mid-game: confirm side to move and castling rights' : 'Side to move, castling, en passant and clocks of the starting position'}
+                 >
+                   <SlidersHorizontal className="w-4 h-4" /> {isStateCheckNeeded ? 'Confirm State' : 'Start State'}
+                 </button>
                  <button onClick={() => setActiveCrop(null)} className="p-3 bg-slate-900 hover:bg-slate-800 rounded-xl text-slate-400 border border-slate-800 shadow-xl flex items-center gap-2 text-[10px] font-black uppercase">
                    <Crop className="w-4 h-4" /> Reset View
                  </button>
@@ -322,62 +1282,204 @@ export default function App() {
             {/* Board Container: RESTORED TO ORIGINAL 720px WIDTH */}
             <div className="w-full relative shadow-[0_60px_160px_rgba(0,0,0,1)] group shrink-0">
                <div className="w-full aspect-square bg-slate-900 rounded-2xl overflow-hidden border-2 border-white/5 relative">
-                  <ChessBoardDisplay fen={currentFen} bestMoves={boardMoves} lastOpponentMove={lastOpponentMove} orientation={boardOrientation} onManualMove={handleManualMove} />
+                  {pendingRead ? (
+                    <ChessBoardDisplay
+                      fen={`${pendingRead.placement} w - - 0 1`}
+                      orientation={pendingRead.bottomColor}
+                      uncertainSquares={uncertainSquares(pendingRead).map(s => s.square)}
+                      onFixSquare={handleFixSquare}
+                    />
+                  ) : (
+                    <ChessBoardDisplay
+                      fen={pvPreview ? pvPreview.fen : displayFen}
+                      bestMoves={pvPreview ? [] : boardMoves}
+                      lastOpponentMove={pvPreview ? pvPreview.move : viewNodeId === null ? lastOpponentMove : null}
+                      orientation={boardOrientation}
+                      onManualMove={pvPreview ? undefined : handleManualMove}
+                    />
+                  )}
+                  {pendingRead && (
+                    <div className="absolute top-4 left-1/2 -translate-x-1/2 z-30 flex items-center gap-2 px-3 py-2 bg-amber-500 text-slate-950 rounded-xl text-[10px] font-black uppercase shadow-xl whitespace-nowrap">
+                      <AlertTriangle className="w-3.5 h-3.5" />
+                      {uncertainSquares(pendingRead).length > 0
+                        ? `Unsure read • fix ${uncertainSquares(pendingRead).length} outlined`
+                        : 'No legal move leads here • accept restarts the record'}
+                      <button onClick={() => setSetupTarget('correction')} className="px-2 py-0.5 bg-slate-950 text-amber-300 rounded-lg">Edit</button>
+                      <button onClick={handleAcceptPendingRead} disabled={!!placementProblem(pendingRead.placement)} className="px-2 py-0.5 bg-slate-950 text-amber-300 rounded-lg disabled:opacity-40">Accept</button>
+                      <button onClick={() => setPendingRead(null)} className="px-2 py-0.5 bg-slate-950/20 rounded-lg">Discard</button>
+                    </div>
+                  )}
+                  {pvPreview && !pendingRead && (
+                    <button onClick={() => setPvPreview(null)} className="absolute top-4 left-1/2 -translate-x-1/2 z-30 px-4 py-2 bg-amber-500 text-slate-950 rounded-xl text-[10px] font-black uppercase shadow-xl">
+                      Engine line preview • Back to position
+                    </button>
+                  )}
                   <div className={`absolute -inset-2 border-2 border-rose-500/20 rounded-2xl pointer-events-none transition-opacity duration-200 ${isVisionSyncing ? 'opacity-100' : 'opacity-0'}`} />
                </div>
                
                {/* Side Evaluation Meter - Positioned relative to board */}
-               <div className="absolute -left-12 top-0 bottom-0 w-2.5 bg-slate-900/80 rounded-full overflow-hidden flex flex-col-reverse border border-white/10 p-[1px]">
-                  <div className="bg-rose-500 transition-all duration-1000 shadow-[0_0_20px_rgba(225,29,72,0.6)] rounded-full" style={{ height: `${Math.max(5, Math.min(95, 50 + (engineResult?.moves[0]?.evaluation || 0) * 8))}%` }} />
-               </div>
+               {!fairPlay.locked && (
+                 <div className="absolute -left-12 top-0 bottom-0 w-2.5 bg-slate-900/80 rounded-full overflow-hidden flex flex-col-reverse border border-white/10 p-[1px]">
+                    <div className="bg-rose-500 transition-all duration-1000 shadow-[0_0_20px_rgba(225,29,72,0.6)] rounded-full" style={{ height: `${Math.max(5, Math.min(95, 50 + evalBarScore * 8))}%` }} />
+                 </div>
+               )}
             </div>
 
-            {/* HUD Area: Original ELO HUD restored beneath board */}
+            <div className="w-full flex justify-center shrink-0">
+              <MoveNavigator
+                ply={shownPly}
+                lastPly={shownLastPly}
+                onFirst={() => handleNavigate(ROOT_ID)}
+                onPrev={() => handleNavigate(recordRef.current.parentId(shownNodeId))}
+                onNext={() => handleNavigate(recordRef.current.nextId(shownNodeId))}
+                onLast={() => handleNavigate(shownLineEnd)}
+              />
+            </div>
+
+            <ChessClockPanel
+              clock={gameClock}
+              now={clockNow}
+              settings={clockSettings}
+              orientation={boardOrientation}
+              whiteName={whiteName}
+              blackName={blackName}
+              onTap={handleClockTap}
+              onPause={() => updateClock(pauseClock(clockRef.current))}
+              onResume={handleClockResume}
+              onReset={() => updateClock(createClock(clockSettings.control))}
+              onSettingsChange={handleClockSettingsChange}
+            />
+
+            {/* HUD Area beneath board */}
             <div className="w-full flex justify-between items-center py-6 shrink-0 gap-6">
                 <div className="bg-black/60 px-6 py-4 rounded-2xl border border-white/5 truncate flex-1 text-[10px] font-mono text-slate-500 font-bold uppercase tracking-widest flex items-center gap-4">
                   <Activity className="w-4 h-4 text-rose-500/40" />
-                  FEN_ID: {currentFen.split(' ')[0]}
+                  FEN_ID: {displayFen.split(' ')[0]}
                 </div>
                 
-                <div className="flex items-center gap-5 bg-slate-900/60 px-6 py-4 rounded-2xl border border-rose-500/20 shadow-2xl relative min-w-[220px]">
-                   <div className="p-2.5 bg-rose-600/20 rounded-xl text-rose-500 animate-pulse">
-                      <TrendingUp className="w-5 h-5" />
-                   </div>
-                   <div className="flex flex-col leading-none pr-5 border-r border-white/5">
-                      <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest mb-2">Opponent ELO</span>
-                      <div className="flex items-baseline gap-2">
-                        <span className="text-3xl font-black text-white tabular-nums tracking-tighter">{estimatedElo}</span>
-                        <span className="text-[10px] font-bold text-rose-500 uppercase">Est.</span>
-                      </div>
-                   </div>
-                   <div className="flex flex-col leading-none pl-2">
-                      <span className="text-[10px] font-black text-slate-600 uppercase mb-2 tracking-widest">Stability</span>
-                      <div className="flex items-center gap-2">
-                         <div className="w-14 h-2 bg-slate-800 rounded-full overflow-hidden">
-                            <div className="h-full bg-rose-500 transition-all duration-1000" style={{ width: `${eloStability}%` }} />
-                         </div>
-                         <span className="text-[11px] font-black text-slate-500 tabular-nums">{eloStability}%</span>
-                      </div>
-                   </div>
-
-                   {eloStability > 60 && estimatedElo > 2200 && (
-                      <div className="absolute -top-12 left-1/2 -translate-x-1/2 bg-rose-600 text-white px-5 py-2 rounded-xl text-[10px] font-black uppercase whitespace-nowrap animate-bounce border border-rose-400 shadow-[0_10px_30px_rgba(225,29,72,0.5)]">
-                        <ShieldAlert className="w-4 h-4 inline mr-2" />
-                        Neural Anomaly Detected
-                      </div>
-                   )}
-                </div>
-
                 <div className="hidden lg:flex items-center gap-3 text-rose-600/30 font-black uppercase text-[11px] font-mono tracking-widest">
                   <ShieldCheck className="w-6 h-6" /> BRIDGED_OK
                 </div>
             </div>
             
+            <GameRecordPanel
+              tree={recordTree}
+              opening={openingLookup?.opening ?? null}
+              plyCount={recordedMoves.length}
+              whiteName={whiteName}
+              blackName={blackName}
+              onWhiteNameChange={setWhiteName}
+              onBlackNameChange={setBlackName}
+              onExport={handleExportPgn}
+              onUndo={handleUndoRecordedMove}
+              currentId={shownNodeId}
+              currentIsMainline={recordRef.current.isMainline(shownNodeId)}
+              onSelect={handleNavigate}
+              onPromote={handlePromoteVariation}
+              onDelete={handleDeleteVariation}
+              onAnnotate={handleAnnotate}
+            />
+
+            <ReviewPanel
+              review={gameReview}
+              progress={reviewProgress}
+              isRunning={isReviewRunning}
+              canReview={recordedMoves.length > 0 && !fairPlay.locked}
+              onStart={handleStartReview}
+              onCancel={handleCancelReview}
+            />
+
+            <ArbiterReportPanel
+              report={arbiterReport}
+              progress={reportProgress}
+              isRunning={isReportRunning}
+              canRun={recordedMoves.length > 0 && !fairPlay.locked}
+              whiteRating={whiteRating}
+              blackRating={blackRating}
+              onWhiteRatingChange={setWhiteRating}
+              onBlackRatingChange={setBlackRating}
+              bands={referenceBands}
+              onBandsChange={handleReferenceBandsChange}
+              onStart={handleStartReport}
+              onCancel={() => cancelReport.current?.()}
+            />
+            
             {/* Added bottom padding to ensure the scroll feels nice */}
             <div className="h-20 shrink-0" />
           </div>
         </div>
       </main>
+
+      {isSessionsOpen && (
+        <SessionsDialog
+          sessions={sessions}
+          currentId={sessionId.current}
+          interrupted={interruptedSession}
+          onResume={handleResumeSession}
+          onStartNew={handleDismissInterrupted}
+          onDelete={handleDeleteSession}
+          onDeleteEnded={handleDeleteEndedSessions}
+          onClose={() => setIsSessionsOpen(false)}
+        />
+      )}
+      {isImportOpen && <ImportDialog onImport={handleImport} onClose={() => setIsImportOpen(false)} />}
+      {setupTarget === 'study' && (
+        <BoardSetupEditor
+          title="Board Setup"
+          initialFen={displayFen}
+          orientation={boardOrientation}
+          applyLabel="Study this position"
+          onApply={handleImport}
+          onClose={() => setSetupTarget(null)}
+        />
+      )}
+      {setupTarget === 'correction' && pendingRead && (
+        <BoardSetupEditor
+          title="Correct Vision Read"
+          initialFen={composeFen(pendingRead.placement, inferPositionState(pendingRead.placement, (currentFen.split(' ')[1] || 'w') === 'w' ? 'b' : 'w', currentFen))}
+          orientation={pendingRead.bottomColor}
+          applyLabel="Use this position"
+          onApply={handleApplyCorrectedRead}
+          onClose={() => setSetupTarget(null)}
+        />
+      )}
+      {isStateEditorOpen && (
+        <PositionStateDialog fen={recordRef.current.getStartFen()} onApply={handleApplyStartState} onClose={() => setIsStateEditorOpen(false)} />
+      )}
+      {isRelayOpen && (
+        <RelayPanel settings={relaySettings} status={relayStatus} onChange={handleRelaySettingsChange} onClose={() => setIsRelayOpen(false)} />
+      )}
+      {isFairPlayOpen && (
+        <FairPlayPanel
+          settings={fairPlaySettings}
+          status={fairPlay}
+          declaredLive={declaredLive}
+          onDeclaredLiveChange={setDeclaredLive}
+          onSettingsChange={handleFairPlaySettingsChange}
+          onClose={() => setIsFairPlayOpen(false)}
+        />
+      )}
+      {isVisionSettingsOpen && (
+        <VisionSettingsPanel settings={visionSettings} onChange={handleVisionSettingsChange} onClose={() => setIsVisionSettingsOpen(false)} />
+      )}
+
+      {isEngineSettingsOpen && (
+        <EngineSettingsPanel
+          options={engineOptions}
+          values={engineOptionValues}
+          profiles={engineProfiles}
+          activeProfile={activeProfileName}
+          onOptionChange={handleEngineOptionChange}
+          onSelectProfile={handleSelectProfile}
+          onSaveProfile={handleSaveProfile}
+          onDeleteProfile={handleDeleteProfile}
+          backend={engineBackend}
+          onBackendChange={handleBackendChange}
+          tablebase={tablebaseSettings}
+          onTablebaseChange={handleTablebaseSettingsChange}
+          onClose={() => setIsEngineSettingsOpen(false)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,176 @@
+import React, { useState } from 'react';
+import { Gavel, Play, Square as StopIcon, FileJson, FileText, SlidersHorizontal, RotateCcw } from 'lucide-react';
+import { BatchProgress } from '../services/engineService';
+import {
+  ArbiterReport, PlayerReport, ReferenceBand, GamePhase, METRIC_LABELS, DEFAULT_REFERENCE_BANDS, downloadReport
+} from '../services/arbiterReportService';
+
+/**
+ * ARBITER REPORT PANEL
+ * Runs the post-game fair-play report for a recorded game, shows each player's match rates and
+ * centipawn loss against the reference band for their rating, and exports the report.
+ */
+
+interface ArbiterReportPanelProps {
+  report: ArbiterReport | null;
+  progress: BatchProgress | null;
+  isRunning: boolean;
+  canRun: boolean;
+  whiteRating: string;
+  blackRating: string;
+  onWhiteRatingChange: (rating: string) => void;
+  onBlackRatingChange: (rating: string) => void;
+  bands: ReferenceBand[];
+  onBandsChange: (bands: ReferenceBand[]) => void;
+  onStart: () => void;
+  onCancel: () => void;
+}
+
+const inputClass = 'bg-slate-900/80 border border-slate-800 rounded-lg px-2 py-1 text-[11px] text-slate-200 outline-none focus:border-rose-500/40 tabular-nums';
+
+const BAND_COLUMNS: [keyof ReferenceBand, string][] = [
+  ['minRating', 'From'],
+  ['maxRating', 'To'],
+  ['maxTop1', 'Top-1 ≤'],
+  ['maxTop3', 'Top-3 ≤'],
+  ['minAcpl', 'ACPL ≥']
+];
+
+const PlayerCard: React.FC<{ player: PlayerReport }> = ({ player }) => (
+  <div className="flex-1 bg-slate-900/60 rounded-xl border border-white/5 p-3 space-y-2">
+    <div className="flex items-baseline justify-between">
+      <span className="text-[10px] font-black uppercase tracking-widest text-slate-500 truncate">
+        {player.color === 'w' ? 'White' : 'Black'}{player.name ? ` • ${player.name}` : ''}
+      </span>
+      <span className="text-[9px] font-bold uppercase text-slate-500">{player.band ? player.band.label : 'no band'}</span>
+    </div>
+    <div className="space-y-0.5 font-mono text-[11px]">
+      {player.checks.length > 0 ? player.checks.map(check => (
+        <div key={check.metric} className={`flex justify-between ${check.outside ? 'text-amber-300 font-bold' : 'text-slate-300'}`}>
+          <span>{METRIC_LABELS[check.metric]}</span>
+          <span>{check.value}{check.metric === 'acpl' ? '' : '%'} <span className="text-slate-600">/ {check.metric === 'acpl' ? '≥' : '≤'}{check.limit}</span></span>
+        </div>
+      )) : (
+        <>
+          <div className="flex justify-between text-slate-300"><span>{METRIC_LABELS.top1}</span><span>{player.top1Rate}%</span></div>
+          <div className="flex justify-between text-slate-300"><span>{METRIC_LABELS.top3}</span><span>{player.top3Rate}%</span></div>
+          <div className="flex justify-between text-slate-300"><span>{METRIC_LABELS.acpl}</span><span>{player.averageCentipawnLoss}</span></div>
+        </>
+      )}
+    </div>
+    <div className="grid grid-cols-3 gap-1 text-[9px] font-black uppercase text-center text-slate-500">
+      {(Object.keys(player.phases) as GamePhase[]).map(phase => (
+        <div key={phase}>
+          <div className="text-sm text-slate-300 tabular-nums">{player.phases[phase].moves ? player.phases[phase].averageCentipawnLoss : '–'}</div>
+          {phase.slice(0, 6)}
+        </div>
+      ))}
+    </div>
+    <div className="text-[9px] text-slate-500">
+      {player.movesCounted}/{player.movesPlayed} counted • book {player.excluded.book} • forced {player.excluded.forced} • decided {player.excluded.decided}
+      {player.smallSample && <span className="text-amber-400 font-bold"> • small sample</span>}
+    </div>
+    <div className="text-[9px] text-slate-500">
+      {player.timeUse
+        ? `${player.timeUse.source === 'clock' ? 'Clock' : 'Recorded'} timing: mean ${player.timeUse.meanSeconds}s • variation ${player.timeUse.variation} • complexity r ${player.timeUse.complexityCorrelation ?? 'n/a'}`
+        : 'No timing data'}
+    </div>
+  </div>
+);
+
+const ArbiterReportPanel: React.FC<ArbiterReportPanelProps> = ({
+  report, progress, isRunning, canRun, whiteRating, blackRating, onWhiteRatingChange, onBlackRatingChange, bands, onBandsChange, onStart, onCancel
+}) => {
+  const [isEditingBands, setIsEditingBands] = useState(false);
+  const percent = progress && progress.total > 0 ? Math.round((progress.completed / progress.total) * 100) : 0;
+
+  const updateBand = (index: number, key: keyof ReferenceBand, value: string) => {
+    onBandsChange(bands.map((band, i) => {
+      if (i !== index) return band;
+      return key === 'label' ? { ...band, label: value } : { ...band, [key]: Number(value) || 0 };
+    }));
+  };
+
+  return (
+    <div className="w-full glass rounded-2xl border border-white/5 overflow-hidden shrink-0">
+      <div className="p-4 border-b border-white/5 flex items-center justify-between bg-slate-900/40">
+        <div className="flex items-center gap-2">
+          <Gavel className="w-4 h-4 text-rose-500" />
+          <h2 className="text-xs font-black uppercase tracking-widest text-white">Fair-Play Report</h2>
+        </div>
+        <div className="flex items-center gap-2">
+          <input value={whiteRating} onChange={e => onWhiteRatingChange(e.target.value)} placeholder="White Elo" inputMode="numeric" className={`${inputClass} w-20`} />
+          <input value={blackRating} onChange={e => onBlackRatingChange(e.target.value)} placeholder="Black Elo" inputMode="numeric" className={`${inputClass} w-20`} />
+          <button onClick={() => setIsEditingBands(!isEditingBands)} className={`p-1.5 rounded-lg border ${isEditingBands ? 'bg-rose-600/15 border-rose-500/40 text-rose-300' : 'bg-slate-900 hover:bg-slate-800 border-slate-800 text-slate-400'}`} title="Reference bands">
+            <SlidersHorizontal className="w-3.5 h-3.5" />
+          </button>
+          {isRunning ? (
+            <button onClick={onCancel} className="px-3 py-1.5 bg-slate-900 hover:bg-slate-800 rounded-lg text-slate-400 border border-slate-800 flex items-center gap-1.5 text-[10px] font-black uppercase">
+              <StopIcon className="w-3.5 h-3.5" /> Cancel
+            </button>
+          ) : (
+            <button onClick={onStart} disabled={!canRun} className="px-3 py-1.5 bg-rose-600 hover:bg-rose-500 disabled:opacity-30 rounded-lg text-white flex items-center gap-1.5 text-[10px] font-black uppercase">
+              <Play className="w-3.5 h-3.5" /> Report
+            </button>
+          )}
+        </div>
+      </div>
+
+      {isEditingBands && (
+        <div className="p-4 border-b border-white/5 space-y-1.5">
+          <div className="grid grid-cols-[1fr_repeat(5,4rem)] gap-1.5 text-[9px] font-black uppercase tracking-widest text-slate-500">
+            <span>Band</span>
+            {BAND_COLUMNS.map(([key, label]) => <span key={key}>{label}</span>)}
+          </div>
+          {bands.map((band, index) => (
+            <div key={index} className="grid grid-cols-[1fr_repeat(5,4rem)] gap-1.5">
+              <input value={band.label} onChange={e => updateBand(index, 'label', e.target.value)} className={inputClass} />
+              {BAND_COLUMNS.map(([key]) => (
+                <input key={key} type="number" value={band[key]} onChange={e => updateBand(index, key, e.target.value)} className={inputClass} />
+              ))}
+            </div>
+          ))}
+          <button onClick={() => onBandsChange(DEFAULT_REFERENCE_BANDS.map(band => ({ ...band })))} className="mt-1 text-[9px] font-black uppercase text-slate-500 hover:text-slate-300 flex items-center gap-1">
+            <RotateCcw className="w-3 h-3" /> Defaults
+          </button>
+        </div>
+      )}
+
+      {isRunning && (
+        <div className="p-4 border-b border-white/5">
+          <div className="flex justify-between text-[10px] font-mono text-slate-500 mb-2">
+            <span>Analysing positions (3 lines each)</span>
+            <span>{progress?.completed ?? 0}/{progress?.total ?? 0}</span>
+          </div>
+          <div className="h-2 bg-slate-800 rounded-full overflow-hidden">
+            <div className="h-full bg-rose-500 transition-all duration-300" style={{ width: `${percent}%` }} />
+          </div>
+        </div>
+      )}
+
+      {report && (
+        <div className="p-4 space-y-3">
+          <div className="flex gap-3">
+            <PlayerCard player={report.white} />
+            <PlayerCard player={report.black} />
+          </div>
+          <div className="flex items-center justify-between gap-3">
+            <p className="text-[9px] text-slate-500">
+              Depth {report.depth}. Book, forced and decided moves are not counted. A value outside the band calls for a closer look; it is not proof.
+            </p>
+            <div className="flex gap-2 shrink-0">
+              <button onClick={() => downloadReport(report, 'json')} className="px-3 py-1.5 bg-slate-900 hover:bg-slate-800 rounded-lg text-slate-400 border border-slate-800 flex items-center gap-1.5 text-[10px] font-black uppercase">
+                <FileJson className="w-3.5 h-3.5" /> JSON
+              </button>
+              <button onClick={() => downloadReport(report, 'html')} className="px-3 py-1.5 bg-slate-900 hover:bg-slate-800 rounded-lg text-slate-400 border border-slate-800 flex items-center gap-1.5 text-[10px] font-black uppercase">
+                <FileText className="w-3.5 h-3.5" /> HTML
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ArbiterReportPanel;
@@ -0,0 +1,186 @@
+import React, { useMemo, useState } from 'react';
+import { LayoutGrid, X, Eraser, Trash2, RotateCcw, FlipVertical, AlertCircle, Check } from 'lucide-react';
+import ChessBoardDisplay, { PIECE_IMAGES, PIECE_DRAG_TYPE } from './ChessBoardDisplay';
+import PositionStateControls from './PositionStateControls';
+import { placementToSquares, squaresToPlacement } from '../services/visionService';
+import {
+  PositionState, parsePositionState, composeFen, plausibleCastling, enPassantCandidates, setupProblems
+} from '../services/positionStateService';
+import { INITIAL_FEN } from '../types';
+
+/**
+ * BOARD SETUP EDITOR
+ * Builds an arbitrary position: pick a piece from the palette and click squares, or drag pieces
+ * on, around and off the board. Side to move, castling and en passant are set alongside, and the
+ * position is checked for legality before it can be applied.
+ */
+
+interface BoardSetupEditorProps {
+  title: string;
+  initialFen: string;
+  orientation: 'white' | 'black';
+  applyLabel: string;
+  /** Returns an error message when the position cannot be applied. */
+  onApply: (fen: string) => string | null;
+  onClose: () => void;
+}
+
+// A FEN letter to place, or 'erase'
+type Tool = string;
+
+const PALETTE = ['K', 'Q', 'R', 'B', 'N', 'P', 'k', 'q', 'r', 'b', 'n', 'p'];
+const EMPTY_PLACEMENT = '8/8/8/8/8/8/8/8';
+
+const toBoard = (placement: string): Map<string, string> =>
+  new Map(placementToSquares(placement, 1).filter(s => s.piece).map(s => [s.square, s.piece!]));
+
+const BoardSetupEditor: React.FC<BoardSetupEditorProps> = ({ title, initialFen, orientation: initialOrientation, applyLabel, onApply, onClose }) => {
+  const [board, setBoard] = useState<Map<string, string>>(() => toBoard(initialFen.split(' ')[0]));
+  const [state, setState] = useState<PositionState>(() => parsePositionState(initialFen));
+  const [tool, setTool] = useState<Tool>('P');
+  const [orientation, setOrientation] = useState(initialOrientation);
+  const [applyError, setApplyError] = useState<string | null>(null);
+
+  const placement = useMemo(
+    () => squaresToPlacement([...board].map(([square, piece]) => ({ square, piece, confidence: 1 }))),
+    [board]
+  );
+
+  // Rights and en passant squares the placement no longer allows are dropped, not reported
+  const fen = useMemo(() => {
+    const allowed = plausibleCastling(placement);
+    return composeFen(placement, {
+      ...state,
+      castling: state.castling.split('').filter(r => allowed.includes(r)).join(''),
+      enPassant: state.enPassant && enPassantCandidates(placement, state.turn).includes(state.enPassant) ? state.enPassant : null
+    });
+  }, [placement, state]);
+
+  const problems = useMemo(() => setupProblems(fen), [fen]);
+
+  const edit = (update: (next: Map<string, string>) => void) => {
+    setBoard(prev => {
+      const next = new Map(prev);
+      update(next);
+      return next;
+    });
+    setApplyError(null);
+  };
+
+  const handleEditSquare = (square: string) =>
+    edit(next => {
+      // Clicking a square that already holds the chosen piece takes it off again
+      if (tool === 'erase' || next.get(square) === tool) next.delete(square);
+      else next.set(square, tool);
+    });
+
+  const handleDropPiece = (piece: string, to: string, from: string | null) =>
+    edit(next => {
+      if (from) next.delete(from);
+      next.set(to, piece);
+    });
+
+  // A board piece dropped anywhere outside the squares is removed
+  const handleDropOff = (e: React.DragEvent) => {
+    const data = e.dataTransfer.getData(PIECE_DRAG_TYPE);
+    if (!data) return;
+    e.preventDefault();
+    const { from } = JSON.parse(data);
+    if (from) edit(next => next.delete(from));
+  };
+
+  const loadPlacement = (fenOrPlacement: string) => {
+    setBoard(toBoard(fenOrPlacement.split(' ')[0]));
+    setState(parsePositionState(fenOrPlacement.includes(' ') ? fenOrPlacement : `${fenOrPlacement} w - - 0 1`));
+    setApplyError(null);
+  };
+
+  const apply = () => {
+    if (problems.length) return;
+    const failure = onApply(fen);
+    if (failure) setApplyError(failure);
+    else onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/70 flex items-center justify-center p-6" onClick={onClose}>
+      <div
+        className="w-full max-w-4xl glass rounded-2xl border border-white/10 shadow-2xl"
+        onClick={e => e.stopPropagation()}
+        onDragOver={e => e.preventDefault()}
+        onDrop={handleDropOff}
+      >
+        <div className="p-4 border-b border-white/5 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <LayoutGrid className="w-4 h-4 text-rose-500" />
+            <h2 className="text-xs font-black uppercase tracking-widest text-white">{title}</h2>
+          </div>
+          <button onClick={onClose} className="text-slate-500 hover:text-white">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="p-4 flex gap-5">
+          <div className="w-[420px] aspect-square shrink-0">
+            <ChessBoardDisplay fen={fen} orientation={orientation} onEditSquare={handleEditSquare} onDropPiece={handleDropPiece} />
+          </div>
+
+          <div className="flex-1 min-w-0 flex flex-col gap-4">
+            <div>
+              <div className="grid grid-cols-6 gap-1">
+                {PALETTE.map(letter => (
+                  <button
+                    key={letter}
+                    onClick={() => setTool(letter)}
+                    draggable
+                    onDragStart={e => e.dataTransfer.setData(PIECE_DRAG_TYPE, JSON.stringify({ piece: letter, from: null }))}
+                    className={`aspect-square rounded-lg border flex items-center justify-center ${tool === letter ? 'bg-rose-600/30 border-rose-500' : 'bg-slate-900 border-slate-800 hover:bg-slate-800'}`}
+                  >
+                    <img src={PIECE_IMAGES[letter]} alt={letter} className="w-4/5 h-4/5 pointer-events-none" />
+                  </button>
+                ))}
+              </div>
+              <div className="mt-1.5 grid grid-cols-4 gap-1 text-[9px] font-black uppercase">
+                <button
+                  onClick={() => setTool('erase')}
+                  className={`py-1.5 rounded-lg border flex items-center justify-center gap-1 ${tool === 'erase' ? 'bg-rose-600/30 border-rose-500 text-white' : 'bg-slate-900 border-slate-800 text-slate-400 hover:bg-slate-800'}`}
+                >
+                  <Eraser className="w-3 h-3" /> Erase
+                </button>
+                <button onClick={() => loadPlacement(EMPTY_PLACEMENT)} className="py-1.5 rounded-lg border bg-slate-900 border-slate-800 text-slate-400 hover:bg-slate-800 flex items-center justify-center gap-1">
+                  <Trash2 className="w-3 h-3" /> Clear
+                </button>
+                <button onClick={() => loadPlacement(INITIAL_FEN)} className="py-1.5 rounded-lg border bg-slate-900 border-slate-800 text-slate-400 hover:bg-slate-800 flex items-center justify-center gap-1">
+                  <RotateCcw className="w-3 h-3" /> Start
+                </button>
+                <button onClick={() => setOrientation(o => (o === 'white' ? 'black' : 'white'))} className="py-1.5 rounded-lg border bg-slate-900 border-slate-800 text-slate-400 hover:bg-slate-800 flex items-center justify-center gap-1">
+                  <FlipVertical className="w-3 h-3" /> Flip
+                </button>
+              </div>
+            </div>
+
+            <PositionStateControls placement={placement} state={state} onChange={next => { setState(next); setApplyError(null); }} />
+
+            <div className="mt-auto space-y-2">
+              <div className="px-3 py-2 bg-slate-950/80 border border-slate-800 rounded-lg font-mono text-[10px] text-slate-400 break-all select-all">{fen}</div>
+              {[...problems, ...(applyError ? [applyError] : [])].map(problem => (
+                <div key={problem} className="px-3 py-2 bg-rose-500/10 border border-rose-500/20 rounded-lg flex items-center gap-2 text-rose-400 text-[10px] font-bold uppercase">
+                  <AlertCircle className="w-3.5 h-3.5 shrink-0" /> {problem}
+                </div>
+              ))}
+              <button
+                onClick={apply}
+                disabled={problems.length > 0}
+                className="w-full py-3 bg-rose-600 hover:bg-rose-500 disabled:opacity-30 rounded-xl text-[10px] font-black uppercase text-white flex items-center justify-center gap-2"
+              >
+                <Check className="w-3.5 h-3.5" /> {applyLabel}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BoardSetupEditor;
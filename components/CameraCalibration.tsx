@@ -0,0 +1,121 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { Crosshair, X, RotateCcw, Check } from 'lucide-react';
+import { BoardCorners, CORNER_LABELS, Point } from '../services/perspectiveService';
+
+/**
+ * CAMERA CALIBRATION DIALOG
+ * Large live view of the camera; the user clicks the four outer corners of the board.
+ * Rendered into document.body because the sidebar's backdrop blur would clip a fixed overlay.
+ */
+
+interface CameraCalibrationProps {
+  stream: MediaStream;
+  initialCorners: BoardCorners | null;
+  onSave: (corners: BoardCorners) => void;
+  onClose: () => void;
+}
+
+const CameraCalibration: React.FC<CameraCalibrationProps> = ({ stream, initialCorners, onSave, onClose }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [points, setPoints] = useState<Point[]>(initialCorners || []);
+  const [videoSize, setVideoSize] = useState<{ width: number; height: number } | null>(null);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.srcObject = stream;
+    video.onloadedmetadata = () => {
+      setVideoSize({ width: video.videoWidth, height: video.videoHeight });
+      video.play().catch(console.error);
+    };
+  }, [stream]);
+
+  // object-contain letterboxes the frame, so clicks are mapped through the visible picture only
+  const toFramePoint = (e: React.MouseEvent<HTMLDivElement>): Point | null => {
+    if (!videoSize) return null;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const scale = Math.min(rect.width / videoSize.width, rect.height / videoSize.height);
+    const shownWidth = videoSize.width * scale;
+    const shownHeight = videoSize.height * scale;
+    const x = (e.clientX - rect.left - (rect.width - shownWidth) / 2) / shownWidth;
+    const y = (e.clientY - rect.top - (rect.height - shownHeight) / 2) / shownHeight;
+    return x >= 0 && x <= 1 && y >= 0 && y <= 1 ? { x, y } : null;
+  };
+
+  const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (points.length >= 4) return;
+    const point = toFramePoint(e);
+    if (point) setPoints(prev => [...prev, point]);
+  };
+
+  const ratio = videoSize ? videoSize.width / videoSize.height : 16 / 9;
+
+  return createPortal(
+    <div className="fixed inset-0 z-[100] bg-black/70 flex items-center justify-center p-6" onClick={onClose}>
+      <div className="w-full max-w-5xl flex flex-col glass rounded-2xl border border-white/10 shadow-2xl" onClick={e => e.stopPropagation()}>
+        <div className="p-4 border-b border-white/5 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Crosshair className="w-4 h-4 text-rose-500" />
+            <h2 className="text-xs font-black uppercase tracking-widest text-white">Board Calibration</h2>
+            <span className="text-[10px] font-bold text-slate-500 uppercase tracking-widest ml-2">
+              {points.length < 4 ? `Click: ${CORNER_LABELS[points.length]} corner` : 'All corners set'}
+            </span>
+          </div>
+          <button onClick={onClose} className="text-slate-500 hover:text-white">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="p-4">
+          <div
+            className="relative mx-auto bg-slate-950 rounded-lg overflow-hidden cursor-crosshair"
+            style={{ aspectRatio: `${ratio}`, width: `min(100%, calc(70vh * ${ratio}))` }}
+            onClick={handleClick}
+          >
+            <video ref={videoRef} className="absolute inset-0 w-full h-full object-contain pointer-events-none" muted playsInline />
+            <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox="0 0 1 1" preserveAspectRatio="none">
+              {points.length > 1 && (
+                <polygon
+                  points={points.map(p => `${p.x},${p.y}`).join(' ')}
+                  fill={points.length === 4 ? 'rgba(225,29,72,0.12)' : 'none'}
+                  stroke="rgb(244,63,94)"
+                  strokeWidth={2}
+                  vectorEffect="non-scaling-stroke"
+                />
+              )}
+            </svg>
+            {points.map((p, i) => (
+              <div
+                key={i}
+                className="absolute w-5 h-5 -ml-2.5 -mt-2.5 rounded-full bg-rose-600 border-2 border-white text-[9px] font-black text-white flex items-center justify-center pointer-events-none"
+                style={{ left: `${p.x * 100}%`, top: `${p.y * 100}%` }}
+              >
+                {i + 1}
+              </div>
+            ))}
+          </div>
+          <p className="mt-3 text-[10px] text-slate-500">
+            Click the outer corners of the playing area (not the frame) clockwise, starting top left. The side nearest the bottom of the picture becomes the bottom of the board.
+          </p>
+        </div>
+
+        <div className="p-4 border-t border-white/5 flex justify-end gap-2">
+          <button onClick={() => setPoints([])} className="px-4 py-2 bg-slate-900 hover:bg-slate-800 rounded-lg text-slate-400 border border-slate-800 flex items-center gap-1.5 text-[10px] font-black uppercase">
+            <RotateCcw className="w-3.5 h-3.5" /> Reset
+          </button>
+          <button
+            onClick={() => onSave(points as BoardCorners)}
+            disabled={points.length !== 4}
+            className="px-4 py-2 bg-rose-600 hover:bg-rose-500 disabled:opacity-30 rounded-lg text-white flex items-center gap-1.5 text-[10px] font-black uppercase"
+          >
+            <Check className="w-3.5 h-3.5" /> Save
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default CameraCalibration;
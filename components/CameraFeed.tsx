@@ -1,55 +1,159 @@
 
 import React, { useRef, useEffect, useState, useCallback } from 'react';
-import { Monitor, AlertCircle, Maximize, Target, Activity } from 'lucide-react';
+import { Monitor, Camera, AlertCircle, Maximize, Target, Activity, Crosshair, Crop, ScanSearch } from 'lucide-react';
+import { CaptureMode } from '../types';
+import { BoardCorners, warpToSquare, loadCalibration, saveCalibration } from '../services/perspectiveService';
+import { BoardBox, CropSource, LOCATOR_WIDTH, MIN_BOARD_SCORE, locateBoard, scoreCrop, boxOverlap } from '../services/boardLocatorService';
+import { ChangeDetector, SIGNATURE_SIZE, frameSignature } from '../services/changeDetectionService';
+import { ClockState, ClockWatcher } from '../services/fairPlayService';
+import CameraCalibration from './CameraCalibration';
+import CropEditor from './CropEditor';
 
 /**
  * SCREEN CAPTURE COMPONENT (PRECISION SYNC 4.0)
+ * SCREEN mode grabs a window via getDisplayMedia; CAMERA mode films a physical board via
+ * getUserMedia and straightens it with the per-camera corner calibration before recognition.
+ * In SCREEN mode each frame is also checked against the crop: the board is located on the
+ * device, the crop re-validated, and a board that left the crop is searched for again. The page
+ * around the crop is also watched for a running game clock.
  */
 
 interface CameraFeedProps {
-  onCaptureFrame: (blob: string) => void;
+  /**
+   * Receives a frame with the picture cells (0 = top left) that changed since the last one sent;
+   * resolving to false means the frame could not be used and the next one should be sent anyway.
+   */
+  onCaptureFrame: (blob: string, changedCells?: number[]) => Promise<boolean> | void;
+  /** Called for each board frame held back because nothing on the board changed. */
+  onFrameSkipped?: () => void;
   isAnalyzing: boolean;
   onStreamStatusChange: (isStreaming: boolean) => void;
-  crop?: { ymin: number; xmin: number; ymax: number; xmax: number } | null;
+  crop?: BoardBox | null;
+  cropSource?: CropSource;
+  onCropChange?: (crop: BoardBox | null, source: CropSource) => void;
+  /** Whether a clock next to the board is running, from SCREEN frames with a crop. */
+  onClockState?: (state: ClockState) => void;
+  /** The corner calibration in use for the active camera, whenever it is loaded or saved. */
+  onCalibrationChange?: (deviceId: string, corners: BoardCorners | null) => void;
   isSyncing?: boolean;
+  mode?: CaptureMode;
 }
 
-const CameraFeed: React.FC<CameraFeedProps> = ({ onCaptureFrame, isAnalyzing, onStreamStatusChange, crop, isSyncing }) => {
+type CropStatus = 'searching' | 'locked' | 'unverified' | 'lost';
+
+const DEVICE_KEY = 'chessVision.cameraDevice';
+// Camera frames are scaled down before warping; the board only needs ~1024px once straightened
+const CAMERA_SAMPLE_WIDTH = 1280;
+const WARP_SIZE = 1024;
+// A detected crop is re-located this often, catching a window that was resized or scrolled
+const REVALIDATE_MS = 15000;
+// Frames in a row the board may be missing from its crop before it counts as gone
+const LOST_FRAMES = 3;
+// A re-located board closer than this to the crop is the same board; the crop stays put
+const SAME_BOARD_OVERLAP = 0.9;
+
+const CameraFeed: React.FC<CameraFeedProps> = ({ onCaptureFrame, onFrameSkipped, isAnalyzing, onStreamStatusChange, crop, cropSource, onCropChange, onClockState, onCalibrationChange, isSyncing, mode = CaptureMode.SCREEN }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const sampleCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const locatorCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const signatureCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const changeDetector = useRef(new ChangeDetector());
+  const clockWatcher = useRef(new ClockWatcher());
   const [stream, setStream] = useState<MediaStream | null>(null);
   const [error, setError] = useState<string | null>(null);
   const intervalRef = useRef<number | null>(null);
 
-  const startCapture = async () => {
-    setError(null);
-    try {
-      if (!navigator.mediaDevices || !navigator.mediaDevices.getDisplayMedia) {
-        throw new Error("Screen capture not supported.");
-      }
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const [deviceId, setDeviceId] = useState<string>(() => localStorage.getItem(DEVICE_KEY) || '');
+  const [corners, setCorners] = useState<BoardCorners | null>(null);
+  const [isCalibrating, setIsCalibrating] = useState(false);
+  const [isEditingCrop, setIsEditingCrop] = useState(false);
+  const [cropStatus, setCropStatus] = useState<CropStatus>('searching');
+  // Whether the current crop held a board when first checked; only then can the board leave it
+  const cropVerified = useRef<boolean | null>(null);
+  const missedFrames = useRef(0);
+  const lastLocate = useRef(0);
 
-      const mediaStream = await navigator.mediaDevices.getDisplayMedia({
-        video: { 
-          displaySurface: 'window',
-          width: { ideal: 1920 },
-          height: { ideal: 1080 },
-          frameRate: { ideal: 30 }
-        } as any,
-        audio: false,
-      });
+  const isCamera = mode === CaptureMode.CAMERA;
+  // In camera mode the calibrated warp takes the place of the crop
+  const showsBoard = isCamera ? !!corners : !!crop;
+  const boardLost = !isCamera && cropStatus === 'lost';
 
-      setStream(mediaStream);
-      onStreamStatusChange(true);
+  const attachStream = (mediaStream: MediaStream) => {
+    clockWatcher.current.reset();
+    onClockState?.('unknown');
+    setStream(mediaStream);
+    onStreamStatusChange(true);
 
-      if (videoRef.current) {
-        videoRef.current.srcObject = mediaStream;
-        videoRef.current.onloadedmetadata = () => {
-          videoRef.current?.play().catch(console.error);
-        };
-      }
+    if (videoRef.current) {
+      videoRef.current.srcObject = mediaStream;
+      videoRef.current.onloadedmetadata = () => {
+        videoRef.current?.play().catch(console.error);
+      };
+    }
 
-      mediaStream.getVideoTracks()[0].onended = () => stopCapture();
+    mediaStream.getVideoTracks()[0].onended = () => {
+      setStream(null);
+      onStreamStatusChange(false);
+    };
+  };
+
+  const startScreenCapture = async () => {
+    if (!navigator.mediaDevices || !navigator.mediaDevices.getDisplayMedia) {
+      throw new Error("Screen capture not supported.");
+    }
+
+    const mediaStream = await navigator.mediaDevices.getDisplayMedia({
+      video: {
+        displaySurface: 'window',
+        width: { ideal: 1920 },
+        height: { ideal: 1080 },
+        frameRate: { ideal: 30 }
+      } as any,
+      audio: false,
+    });
+    attachStream(mediaStream);
+  };
+
+  const startCameraCapture = async (requestedId: string) => {
+    if (!navigator.mediaDevices || !navigator.mediaDevices.getUserMedia) {
+      throw new Error("Camera not supported.");
+    }
+
+    const mediaStream = await navigator.mediaDevices.getUserMedia({
+      video: {
+        ...(requestedId ? { deviceId: { exact: requestedId } } : { facingMode: 'environment' }),
+        width: { ideal: 1920 },
+        height: { ideal: 1080 }
+      },
+      audio: false
+    });
+
+    // Labels and ids are only exposed once permission has been granted
+    const all = await navigator.mediaDevices.enumerateDevices();
+    setDevices(all.filter(d => d.kind === 'videoinput'));
+
+    const activeId = mediaStream.getVideoTracks()[0].getSettings().deviceId || requestedId;
+    setDeviceId(activeId);
+    localStorage.setItem(DEVICE_KEY, activeId);
+    const calibration = loadCalibration(activeId);
+    setCorners(calibration);
+    onCalibrationChange?.(activeId, calibration);
+    attachStream(mediaStream);
+  };
+
+  const startCapture = async () => {
+    setError(null);
+    try {
+      if (isCamera) await startCameraCapture(deviceId);
+      else await startScreenCapture();
     } catch (err: any) {
+      // A remembered camera may have been unplugged; fall back to the default one
+      if (isCamera && deviceId && err?.name === 'OverconstrainedError') {
+        setDeviceId('');
+        localStorage.removeItem(DEVICE_KEY);
+      }
       setError(err.message || "Capture permission denied.");
       onStreamStatusChange(false);
     }
@@ -61,20 +165,150 @@ const CameraFeed: React.FC<CameraFeedProps> = ({ onCaptureFrame, isAnalyzing, on
     onStreamStatusChange(false);
   }, [stream, onStreamStatusChange]);
 
+  // Every new crop is judged afresh on the next frame
+  useEffect(() => {
+    changeDetector.current.reset();
+    cropVerified.current = null;
+    missedFrames.current = 0;
+    lastLocate.current = Date.now();
+    setCropStatus(crop ? 'unverified' : 'searching');
+  }, [crop]);
+
+  // Switching between screen and camera drops the running stream
+  useEffect(() => {
+    stopCapture();
+    setError(null);
+    setIsCalibrating(false);
+    changeDetector.current.reset();
+  }, [mode]);
+
+  const switchCamera = async (nextId: string) => {
+    stream?.getTracks().forEach(t => t.stop());
+    setError(null);
+    try {
+      await startCameraCapture(nextId);
+    } catch (err: any) {
+      setStream(null);
+      onStreamStatusChange(false);
+      setError(err.message || "Camera unavailable.");
+    }
+  };
+
+  const handleSaveCalibration = (next: BoardCorners) => {
+    changeDetector.current.reset();
+    saveCalibration(deviceId, next);
+    setCorners(next);
+    onCalibrationChange?.(deviceId, next);
+    setIsCalibrating(false);
+  };
+
+  const drawWarpedFrame = (v: HTMLVideoElement, c: HTMLCanvasElement, ctx: CanvasRenderingContext2D): boolean => {
+    if (!corners) return false;
+    const sample = sampleCanvasRef.current || (sampleCanvasRef.current = document.createElement('canvas'));
+    const scale = Math.min(1, CAMERA_SAMPLE_WIDTH / v.videoWidth);
+    sample.width = Math.round(v.videoWidth * scale);
+    sample.height = Math.round(v.videoHeight * scale);
+    const sampleCtx = sample.getContext('2d', { willReadFrequently: true });
+    if (!sampleCtx) return false;
+    sampleCtx.drawImage(v, 0, 0, sample.width, sample.height);
+
+    const warped = warpToSquare(sampleCtx.getImageData(0, 0, sample.width, sample.height), corners, WARP_SIZE);
+    if (!warped) return false;
+    c.width = WARP_SIZE;
+    c.height = WARP_SIZE;
+    ctx.putImageData(warped, 0, 0);
+    return true;
+  };
+
+  const boardSignature = (board: HTMLCanvasElement): Float32Array | null => {
+    const canvas = signatureCanvasRef.current || (signatureCanvasRef.current = document.createElement('canvas'));
+    canvas.width = SIGNATURE_SIZE;
+    canvas.height = SIGNATURE_SIZE;
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) return null;
+    ctx.drawImage(board, 0, 0, SIGNATURE_SIZE, SIGNATURE_SIZE);
+    return frameSignature(ctx.getImageData(0, 0, SIGNATURE_SIZE, SIGNATURE_SIZE));
+  };
+
+  const sampleForLocator = (v: HTMLVideoElement): ImageData | null => {
+    const canvas = locatorCanvasRef.current || (locatorCanvasRef.current = document.createElement('canvas'));
+    canvas.width = LOCATOR_WIDTH;
+    canvas.height = Math.round((LOCATOR_WIDTH * v.videoHeight) / v.videoWidth);
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx || !canvas.height) return null;
+    ctx.drawImage(v, 0, 0, canvas.width, canvas.height);
+    return ctx.getImageData(0, 0, canvas.width, canvas.height);
+  };
+
+  /**
+   * Checks the crop against the frame and returns the crop this frame should use. Changes are
+   * reported to the parent and take effect from the next frame on.
+   */
+  const trackBoard = (v: HTMLVideoElement): BoardBox | null => {
+    const frame = sampleForLocator(v);
+    if (!frame || !onCropChange) return crop || null;
+    if (crop) onClockState?.(clockWatcher.current.observe(frame, crop));
+
+    if (!crop) {
+      const found = locateBoard(frame);
+      if (found) onCropChange(found.box, 'detected');
+      return null;
+    }
+
+    const holdsBoard = scoreCrop(frame, crop) >= MIN_BOARD_SCORE;
+    if (cropVerified.current === null) cropVerified.current = holdsBoard;
+    // A crop that never showed a recognisable board (an unusual theme) is left to the user
+    if (!cropVerified.current) {
+      setCropStatus('unverified');
+      return crop;
+    }
+
+    if (holdsBoard) {
+      missedFrames.current = 0;
+      setCropStatus('locked');
+      // Hand-set crops are never moved while the board is still inside them
+      if (cropSource !== 'manual' && Date.now() - lastLocate.current > REVALIDATE_MS) {
+        lastLocate.current = Date.now();
+        const found = locateBoard(frame);
+        if (found && boxOverlap(found.box, crop) < SAME_BOARD_OVERLAP) onCropChange(found.box, 'detected');
+      }
+      return crop;
+    }
+
+    missedFrames.current++;
+    if (missedFrames.current < LOST_FRAMES) return crop;
+
+    const found = locateBoard(frame);
+    if (found) {
+      onCropChange(found.box, 'detected');
+      return null;
+    }
+    setCropStatus('lost');
+    // Without a board in view the whole window goes out, so the model can find it; a hand-set crop is kept
+    if (cropSource === 'manual') return null;
+    onCropChange(null, 'detected');
+    return null;
+  };
+
   const captureFrame = useCallback(() => {
     if (!videoRef.current || !canvasRef.current || !stream || isSyncing) return;
     const ctx = canvasRef.current.getContext('2d', { willReadFrequently: true });
-    
+
     if (ctx && videoRef.current.readyState >= 2) {
       const v = videoRef.current;
       const c = canvasRef.current;
 
-      // Higher internal resolution for AI precision (1024px)
-      if (crop) {
-        const sx = (crop.xmin / 1000) * v.videoWidth;
-        const sy = (crop.ymin / 1000) * v.videoHeight;
-        const sw = ((crop.xmax - crop.xmin) / 1000) * v.videoWidth;
-        const sh = ((crop.ymax - crop.ymin) / 1000) * v.videoHeight;
+      const frameCrop = isCamera ? null : trackBoard(v);
+
+      if (isCamera) {
+        // Uncalibrated camera frames are never sent: recognition needs the straightened board
+        if (!drawWarpedFrame(v, c, ctx)) return;
+      } else if (frameCrop) {
+        // Higher internal resolution for AI precision (1024px)
+        const sx = (frameCrop.xmin / 1000) * v.videoWidth;
+        const sy = (frameCrop.ymin / 1000) * v.videoHeight;
+        const sw = ((frameCrop.xmax - frameCrop.xmin) / 1000) * v.videoWidth;
+        const sh = ((frameCrop.ymax - frameCrop.ymin) / 1000) * v.videoHeight;
 
         c.width = 1024;
         c.height = 1024;
@@ -85,12 +319,27 @@ const CameraFeed: React.FC<CameraFeedProps> = ({ onCaptureFrame, isAnalyzing, on
         c.height = v.videoHeight * scale;
         ctx.drawImage(v, 0, 0, c.width, c.height);
       }
-      
+
+      // Only board frames can be compared square by square; the whole window always goes out
+      let changed: number[] | undefined;
+      const signature = isCamera || frameCrop ? boardSignature(c) : null;
+      if (signature) {
+        const decision = changeDetector.current.observe(signature);
+        if (!decision.send) {
+          onFrameSkipped?.();
+          return;
+        }
+        changed = decision.changedCells;
+      }
+
       const dataUrl = c.toDataURL('image/jpeg', 0.9);
       const base64 = dataUrl.split(',')[1];
-      if (base64) onCaptureFrame(base64);
+      if (!base64) return;
+      Promise.resolve(onCaptureFrame(base64, changed)).then(used => {
+        if (used === false) changeDetector.current.reset();
+      });
     }
-  }, [onCaptureFrame, stream, crop, isSyncing]);
+  }, [onCaptureFrame, onFrameSkipped, onCropChange, onClockState, stream, crop, cropSource, isSyncing, isCamera, corners]);
 
   useEffect(() => {
     if (isAnalyzing && stream) {
@@ -103,29 +352,69 @@ const CameraFeed: React.FC<CameraFeedProps> = ({ onCaptureFrame, isAnalyzing, on
 
   return (
     <div className="relative w-full h-full bg-slate-950 rounded-lg overflow-hidden flex items-center justify-center">
-      <video 
-        ref={videoRef} 
-        className={`absolute inset-0 w-full h-full object-contain pointer-events-none transition-opacity duration-700 ${stream && !crop ? 'opacity-40' : 'opacity-0'}`} 
-        muted 
-        playsInline 
+      <video
+        ref={videoRef}
+        className={`absolute inset-0 w-full h-full object-contain pointer-events-none transition-opacity duration-700 ${stream && !showsBoard ? 'opacity-40' : 'opacity-0'}`}
+        muted
+        playsInline
       />
-      
-      {stream && crop && (
+
+      {stream && showsBoard && (
          <div className="relative w-full h-full flex items-center justify-center p-4">
             <canvas ref={canvasRef} className="w-full h-full max-w-full max-h-full object-contain rounded-lg border border-rose-500/30 shadow-[0_0_30px_rgba(225,29,72,0.15)]" />
-            <div className={`absolute top-6 right-6 px-3 py-1 rounded text-[8px] font-black text-white uppercase flex items-center gap-1.5 shadow-lg transition-colors ${isSyncing ? 'bg-rose-500 animate-pulse' : 'bg-slate-800'}`}>
-               {isSyncing ? <Activity className="w-3 h-3" /> : <Target className="w-3 h-3" />}
-               {isSyncing ? 'Neural Pulse' : 'Locked On'}
+            <div className={`absolute top-6 right-6 px-3 py-1 rounded text-[8px] font-black text-white uppercase flex items-center gap-1.5 shadow-lg transition-colors ${isSyncing ? 'bg-rose-500 animate-pulse' : boardLost ? 'bg-amber-600' : 'bg-slate-800'}`}>
+               {isSyncing ? <Activity className="w-3 h-3" /> : boardLost ? <AlertCircle className="w-3 h-3" /> : <Target className="w-3 h-3" />}
+               {isSyncing ? 'Neural Pulse' : boardLost ? 'Board Lost' : !isCamera && cropStatus === 'unverified' ? 'Crop Set' : 'Locked On'}
             </div>
          </div>
       )}
-      
-      {!crop && <canvas ref={canvasRef} className="hidden" />}
-      
+
+      {!showsBoard && <canvas ref={canvasRef} className="hidden" />}
+
+      {stream && !isCamera && !showsBoard && cropStatus === 'searching' && (
+        <div className="absolute top-3 right-3 z-20 px-2 py-1 bg-black/80 rounded-lg text-[8px] font-black text-slate-400 uppercase flex items-center gap-1.5 border border-white/5">
+          <ScanSearch className="w-3 h-3 animate-pulse" /> Searching board
+        </div>
+      )}
+
+      {stream && !isCamera && onCropChange && (
+        <div className="absolute bottom-2 right-2 z-20">
+          <button
+            onClick={() => setIsEditingCrop(true)}
+            className="px-2 py-1 rounded-lg text-[9px] font-black uppercase flex items-center gap-1 border bg-black/80 border-white/10 text-slate-300"
+            title="Drag the board crop by hand"
+          >
+            <Crop className="w-3 h-3" /> {crop ? 'Adjust crop' : 'Set crop'}
+          </button>
+        </div>
+      )}
+
+      {stream && isCamera && (
+        <div className="absolute bottom-2 left-2 right-2 z-20 flex items-center gap-1.5">
+          {devices.length > 1 && (
+            <select
+              value={deviceId}
+              onChange={e => switchCamera(e.target.value)}
+              className="flex-1 min-w-0 bg-black/80 border border-white/10 rounded-lg px-2 py-1 text-[9px] font-bold text-slate-300 outline-none"
+            >
+              {devices.map((d, i) => <option key={d.deviceId} value={d.deviceId}>{d.label || `Camera ${i + 1}`}</option>)}
+            </select>
+          )}
+          <button
+            onClick={() => setIsCalibrating(true)}
+            className={`ml-auto px-2 py-1 rounded-lg text-[9px] font-black uppercase flex items-center gap-1 border ${corners ? 'bg-black/80 border-white/10 text-slate-300' : 'bg-rose-600 border-rose-400/20 text-white animate-pulse'}`}
+          >
+            <Crosshair className="w-3 h-3" /> {corners ? 'Recalibrate' : 'Calibrate'}
+          </button>
+        </div>
+      )}
+
       {!stream && (
         <div className="text-center p-8 z-10">
-           <Monitor className={`w-14 h-14 mb-8 mx-auto transition-all ${error ? 'text-rose-500 animate-pulse' : 'text-rose-600 opacity-40'}`} />
-           
+           {isCamera
+             ? <Camera className={`w-14 h-14 mb-8 mx-auto transition-all ${error ? 'text-rose-500 animate-pulse' : 'text-rose-600 opacity-40'}`} />
+             : <Monitor className={`w-14 h-14 mb-8 mx-auto transition-all ${error ? 'text-rose-500 animate-pulse' : 'text-rose-600 opacity-40'}`} />}
+
            {error && (
              <div className="mb-6 px-4 py-2 bg-rose-500/10 border border-rose-500/20 rounded-lg flex items-center gap-2 text-rose-400 text-[10px] font-bold uppercase">
                <AlertCircle className="w-3.5 h-3.5" />
@@ -133,14 +422,27 @@ const CameraFeed: React.FC<CameraFeedProps> = ({ onCaptureFrame, isAnalyzing, on
              </div>
            )}
 
-           <button 
-             onClick={startCapture} 
+           <button
+             onClick={startCapture}
              className="px-10 py-5 bg-rose-600 text-white text-[11px] font-black uppercase tracking-[0.2em] rounded-xl hover:bg-rose-500 active:scale-95 transition-all shadow-2xl shadow-rose-900/40 border border-rose-400/20"
            >
-             Initialize Assault Stream
+             {isCamera ? 'Connect Board Camera' : 'Initialize Assault Stream'}
            </button>
         </div>
       )}
+
+      {isEditingCrop && stream && onCropChange && (
+        <CropEditor
+          stream={stream}
+          initialCrop={crop || null}
+          onSave={box => { onCropChange(box, 'manual'); setIsEditingCrop(false); }}
+          onClose={() => setIsEditingCrop(false)}
+        />
+      )}
+
+      {isCalibrating && stream && (
+        <CameraCalibration stream={stream} initialCorners={corners} onSave={handleSaveCalibration} onClose={() => setIsCalibrating(false)} />
+      )}
     </div>
   );
 };
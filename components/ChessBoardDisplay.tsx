@@ -12,36 +12,49 @@ interface ChessBoardDisplayProps {
   lastOpponentMove?: { from: string; to: string } | null;
   orientation?: 'white' | 'black';
   onManualMove?: (from: string, to: string) => void;
+  /** Squares the recognizer was unsure about; outlined and fixable with onFixSquare. */
+  uncertainSquares?: string[];
+  onFixSquare?: (square: string, piece: string | null) => void;
+  /** Setup mode: clicks edit squares instead of playing moves, and pieces can be dragged. */
+  onEditSquare?: (square: string) => void;
+  /** Setup mode drop; from is null for a piece dragged in from a palette. */
+  onDropPiece?: (piece: string, to: string, from: string | null) => void;
 }
 
-const PIECE_IMAGES: Record<string, string> = {
-  'p': 'https://upload.wikimedia.org/wikipedia/commons/c/c7/Chess_pdt45.svg',
-  'r': 'https://upload.wikimedia.org/wikipedia/commons/f/ff/Chess_rdt45.svg',
-  'n': 'https://upload.wikimedia.org/wikipedia/commons/e/ef/Chess_ndt45.svg',
-  'b': 'https://upload.wikimedia.org/wikipedia/commons/9/98/Chess_bdt45.svg',
-  'q': 'https://upload.wikimedia.org/wikipedia/commons/4/47/Chess_qdt45.svg',
-  'k': 'https://upload.wikimedia.org/wikipedia/commons/f/f0/Chess_kdt45.svg',
-  'P': 'https://upload.wikimedia.org/wikipedia/commons/4/45/Chess_plt45.svg',
-  'R': 'https://upload.wikimedia.org/wikipedia/commons/7/72/Chess_rlt45.svg',
-  'N': 'https://upload.wikimedia.org/wikipedia/commons/7/70/Chess_nlt45.svg',
-  'B': 'https://upload.wikimedia.org/wikipedia/commons/b/b1/Chess_blt45.svg',
-  'Q': 'https://upload.wikimedia.org/wikipedia/commons/1/15/Chess_qlt45.svg',
-  'K': 'https://upload.wikimedia.org/wikipedia/commons/4/42/Chess_klt45.svg',
-};
+/** Drag payload for setup mode: JSON { piece, from }. */
+export const PIECE_DRAG_TYPE = 'application/x-chess-piece';
+
+// Bundled cburnett set under public/pieces so the board renders offline
+const PIECE_BASE = `${import.meta.env.BASE_URL}pieces/cburnett/`;
+
+export const PIECE_IMAGES: Record<string, string> = Object.fromEntries(
+  ['p', 'r', 'n', 'b', 'q', 'k'].flatMap(type => [
+    [type, `${PIECE_BASE}b${type.toUpperCase()}.svg`],
+    [type.toUpperCase(), `${PIECE_BASE}w${type.toUpperCase()}.svg`]
+  ])
+);
+
+const FIX_CHOICES = ['K', 'Q', 'R', 'B', 'N', 'P', 'k', 'q', 'r', 'b', 'n', 'p'];
 
 const ChessBoardDisplay: React.FC<ChessBoardDisplayProps> = ({ 
   fen, 
   bestMoves = [], 
   lastOpponentMove,
   orientation = 'white', 
-  onManualMove 
+  onManualMove,
+  uncertainSquares = [],
+  onFixSquare,
+  onEditSquare,
+  onDropPiece
 }) => {
   const [selectedSquare, setSelectedSquare] = useState<string | null>(null);
   const [possibleMoves, setPossibleMoves] = useState<string[]>([]);
+  const [fixingSquare, setFixingSquare] = useState<string | null>(null);
 
+  // Validation is skipped so an unconfirmed vision read can be shown exactly as it was seen
   const game = useMemo(() => {
     try {
-      return new Chess(fen);
+      return new Chess(fen, { skipValidation: true });
     } catch (e) {
       return new Chess();
     }
@@ -53,6 +66,14 @@ const ChessBoardDisplay: React.FC<ChessBoardDisplayProps> = ({
   }, [game, orientation]);
 
   const handleSquareClick = (squareId: string) => {
+    if (onEditSquare) {
+      onEditSquare(squareId);
+      return;
+    }
+    if (onFixSquare && uncertainSquares.includes(squareId)) {
+      setFixingSquare(squareId);
+      return;
+    }
     if (!onManualMove) return;
     if (selectedSquare && possibleMoves.includes(squareId)) {
       onManualMove(selectedSquare, squareId);
@@ -93,12 +114,23 @@ const ChessBoardDisplay: React.FC<ChessBoardDisplayProps> = ({
             const isEnemyTo = lastOpponentMove?.to === squareId;
             const isSelected = selectedSquare === squareId;
             const isPossibleMove = possibleMoves.includes(squareId);
+            const isUncertain = uncertainSquares.includes(squareId);
 
             return (
               <div 
                 key={squareId} 
                 className={`${isLight ? 'bg-[#334155]' : 'bg-[#1e293b]'} relative flex items-center justify-center cursor-pointer transition-all duration-300`}
                 onClick={() => handleSquareClick(squareId)}
+                onDragOver={onDropPiece ? e => e.preventDefault() : undefined}
+                onDrop={onDropPiece ? e => {
+                  const data = e.dataTransfer.getData(PIECE_DRAG_TYPE);
+                  if (!data) return;
+                  e.preventDefault();
+                  // Handled here, so the editor around the board does not treat it as dragged off
+                  e.stopPropagation();
+                  const { piece: dropped, from } = JSON.parse(data);
+                  onDropPiece(dropped, squareId, from);
+                } : undefined}
               >
                 {/* Visual Highlights */}
                 {isBestMove1From && <div className="absolute inset-0 bg-rose-500/20" />}
@@ -109,6 +141,7 @@ const ChessBoardDisplay: React.FC<ChessBoardDisplayProps> = ({
                 {isEnemyTo && <div className="absolute inset-0 bg-indigo-500/30 shadow-[inset_0_0_15px_rgba(99,102,241,0.4)] z-10" />}
                 {isSelected && <div className="absolute inset-0 bg-amber-500/20 border border-amber-400/30" />}
                 {isPossibleMove && <div className="absolute w-1.5 h-1.5 bg-white/30 rounded-full" />}
+                {isUncertain && <div className={`absolute inset-0.5 border-2 border-dashed rounded z-30 ${fixingSquare === squareId ? 'border-amber-300 bg-amber-400/20' : 'border-amber-400/80 animate-pulse'}`} />}
 
                 {/* Rank/File Labels */}
                 {fileIndex === 0 && <span className="absolute top-0.5 left-0.5 text-[6px] font-black text-white/10">{rank}</span>}
@@ -119,13 +152,43 @@ const ChessBoardDisplay: React.FC<ChessBoardDisplayProps> = ({
                   <img 
                     src={PIECE_IMAGES[piece.color === 'w' ? piece.type.toUpperCase() : piece.type]} 
                     alt={piece.type} 
-                    className="w-[85%] h-[85%] object-contain z-20 pointer-events-none drop-shadow-xl"
+                    draggable={!!onDropPiece}
+                    onDragStart={onDropPiece ? e => {
+                      const letter = piece.color === 'w' ? piece.type.toUpperCase() : piece.type;
+                      e.dataTransfer.setData(PIECE_DRAG_TYPE, JSON.stringify({ piece: letter, from: squareId }));
+                    } : undefined}
+                    className={`w-[85%] h-[85%] object-contain z-20 drop-shadow-xl ${onDropPiece ? 'cursor-grab' : 'pointer-events-none'}`}
                   />
                 )}
               </div>
             );
           })
         ))}
+
+        {fixingSquare && onFixSquare && (
+          <div className="absolute inset-0 z-40 flex items-center justify-center bg-black/40" onClick={() => setFixingSquare(null)}>
+            <div className="glass rounded-xl border border-amber-400/30 p-3 shadow-2xl" onClick={e => e.stopPropagation()}>
+              <div className="text-[9px] font-black uppercase tracking-widest text-amber-300 mb-2">What is on {fixingSquare}?</div>
+              <div className="grid grid-cols-6 gap-1">
+                {FIX_CHOICES.map(letter => (
+                  <button
+                    key={letter}
+                    onClick={() => { onFixSquare(fixingSquare, letter); setFixingSquare(null); }}
+                    className="w-9 h-9 rounded-lg bg-slate-800 hover:bg-slate-700 border border-white/5 flex items-center justify-center"
+                  >
+                    <img src={PIECE_IMAGES[letter]} alt={letter} className="w-7 h-7" />
+                  </button>
+                ))}
+              </div>
+              <button
+                onClick={() => { onFixSquare(fixingSquare, null); setFixingSquare(null); }}
+                className="mt-1 w-full py-1.5 rounded-lg bg-slate-800 hover:bg-slate-700 border border-white/5 text-[9px] font-black uppercase text-slate-300"
+              >
+                Empty square
+              </button>
+            </div>
+          </div>
+        )}
       </div>
     </div>
   );
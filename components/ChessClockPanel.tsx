@@ -0,0 +1,165 @@
+import React, { useState } from 'react';
+import { Timer, Pause, Play, RotateCcw, Settings2 } from 'lucide-react';
+import { ClockSettings, ClockSide, GameClock, TIME_CONTROL_PRESETS, TimeControl, clockStarted, formatClock, remainingAt } from '../services/clockService';
+
+/**
+ * CHESS CLOCK PANEL
+ * Two clock faces for the players at the board. Tapping your face ends your turn; with
+ * auto-switch on, the clock also turns when a move is accepted from the camera or the board.
+ */
+
+interface ChessClockPanelProps {
+  clock: GameClock;
+  now: number;
+  settings: ClockSettings;
+  orientation: 'white' | 'black';
+  whiteName: string;
+  blackName: string;
+  onTap: (side: ClockSide) => void;
+  onPause: () => void;
+  onResume: () => void;
+  onReset: () => void;
+  onSettingsChange: (settings: ClockSettings) => void;
+}
+
+const inputClass = 'bg-slate-900/80 border border-slate-800 rounded-lg px-2 py-1 text-[11px] text-slate-200 outline-none focus:border-rose-500/40 w-14 tabular-nums';
+
+const sameControl = (a: TimeControl, b: TimeControl) =>
+  a.baseSeconds === b.baseSeconds && a.incrementSeconds === b.incrementSeconds && a.delaySeconds === b.delaySeconds;
+
+const ChessClockPanel: React.FC<ChessClockPanelProps> = ({
+  clock, now, settings, orientation, whiteName, blackName, onTap, onPause, onResume, onReset, onSettingsChange
+}) => {
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [draft, setDraft] = useState<ClockSettings>(settings);
+  const setControl = (patch: Partial<TimeControl>) => setDraft(d => ({ ...d, control: { ...d.control, ...patch } }));
+  const unchanged = JSON.stringify(draft) === JSON.stringify(settings);
+  const started = clockStarted(clock);
+
+  // The player sitting at the bottom of the board gets the right-hand face
+  const sides: ClockSide[] = orientation === 'white' ? ['b', 'w'] : ['w', 'b'];
+
+  const face = (side: ClockSide) => {
+    const running = clock.running === side;
+    const flagged = clock.flagged === side;
+    const name = (side === 'w' ? whiteName : blackName).trim() || (side === 'w' ? 'White' : 'Black');
+    return (
+      <button
+        key={side}
+        onClick={() => onTap(side)}
+        disabled={!!clock.flagged || (started && !running)}
+        className={`flex-1 rounded-xl border px-4 py-3 text-left transition-colors ${
+          flagged
+            ? 'bg-rose-600/20 border-rose-500/50'
+            : running
+              ? 'bg-rose-600/10 border-rose-500/40'
+              : 'bg-slate-900/60 border-white/5'
+        }`}
+        title={running ? 'Tap when your move is made' : undefined}
+      >
+        <div className="text-[10px] font-black uppercase tracking-widest text-slate-500 truncate">{name}</div>
+        <div className={`text-3xl font-black tabular-nums ${flagged ? 'text-rose-400' : running ? 'text-white' : 'text-slate-400'}`}>
+          {flagged ? 'FLAG' : formatClock(remainingAt(clock, side, now))}
+        </div>
+      </button>
+    );
+  };
+
+  return (
+    <div className="w-full glass rounded-2xl border border-white/5 overflow-hidden shrink-0">
+      <div className="p-4 border-b border-white/5 flex items-center justify-between bg-slate-900/40">
+        <div className="flex items-center gap-2">
+          <Timer className="w-4 h-4 text-rose-500" />
+          <h2 className="text-xs font-black uppercase tracking-widest text-white">Clock</h2>
+          <span className="text-[10px] font-mono text-slate-500">
+            {TIME_CONTROL_PRESETS.find(p => sameControl(p.control, clock.control))?.label ?? 'Custom'}
+            {settings.autoSwitch ? ' • auto' : ''}
+          </span>
+        </div>
+        <div className="flex items-center gap-1.5">
+          {clock.running ? (
+            <button onClick={onPause} className="p-1.5 bg-slate-900 hover:bg-slate-800 rounded-lg text-slate-400 border border-slate-800" title="Pause">
+              <Pause className="w-3.5 h-3.5" />
+            </button>
+          ) : (
+            <button onClick={onResume} disabled={!started || !!clock.flagged} className="p-1.5 bg-slate-900 hover:bg-slate-800 disabled:opacity-30 rounded-lg text-slate-400 border border-slate-800" title="Resume">
+              <Play className="w-3.5 h-3.5" />
+            </button>
+          )}
+          <button onClick={onReset} className="p-1.5 bg-slate-900 hover:bg-slate-800 rounded-lg text-slate-400 border border-slate-800" title="Reset clock">
+            <RotateCcw className="w-3.5 h-3.5" />
+          </button>
+          <button
+            onClick={() => { setDraft(settings); setIsSettingsOpen(open => !open); }}
+            className={`p-1.5 rounded-lg border ${isSettingsOpen ? 'bg-rose-600/20 border-rose-500/40 text-rose-300' : 'bg-slate-900 hover:bg-slate-800 border-slate-800 text-slate-400'}`}
+            title="Time control"
+          >
+            <Settings2 className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      </div>
+
+      <div className="p-4 space-y-3">
+        <div className="flex gap-3">{sides.map(face)}</div>
+        {!started && <p className="text-[10px] text-slate-500">Tap your face after the first move, or let the first recorded move start the clock.</p>}
+
+        {isSettingsOpen && (
+          <div className="space-y-3 pt-3 border-t border-white/5">
+            <div className="flex flex-wrap gap-1.5">
+              {TIME_CONTROL_PRESETS.map(preset => (
+                <button
+                  key={preset.label}
+                  onClick={() => setDraft(d => ({ ...d, control: { ...preset.control } }))}
+                  className={`px-2.5 py-1 rounded-lg border text-[10px] font-black ${sameControl(preset.control, draft.control) ? 'bg-rose-600/20 border-rose-500/40 text-rose-300' : 'bg-slate-900 border-slate-800 text-slate-400 hover:bg-slate-800'}`}
+                >
+                  {preset.label}
+                </button>
+              ))}
+            </div>
+            <div className="flex flex-wrap items-center gap-2 text-[10px] font-black uppercase tracking-widest text-slate-500">
+              <span>Base</span>
+              <input
+                type="number"
+                min={1}
+                value={Math.round(draft.control.baseSeconds / 60)}
+                onChange={e => setControl({ baseSeconds: Math.max(1, parseInt(e.target.value) || 1) * 60 })}
+                className={inputClass}
+              />
+              <span className="normal-case tracking-normal font-normal">min</span>
+              <span className="ml-2">Increment</span>
+              <input
+                type="number"
+                min={0}
+                value={draft.control.incrementSeconds}
+                onChange={e => setControl({ incrementSeconds: Math.max(0, parseInt(e.target.value) || 0) })}
+                className={inputClass}
+              />
+              <span className="ml-2">Delay</span>
+              <input
+                type="number"
+                min={0}
+                value={draft.control.delaySeconds}
+                onChange={e => setControl({ delaySeconds: Math.max(0, parseInt(e.target.value) || 0) })}
+                className={inputClass}
+              />
+              <span className="normal-case tracking-normal font-normal">s</span>
+            </div>
+            <label className="flex items-center gap-2 text-[11px] font-bold text-slate-200 cursor-pointer">
+              <input type="checkbox" checked={draft.autoSwitch} onChange={e => setDraft(d => ({ ...d, autoSwitch: e.target.checked }))} className="accent-rose-600" />
+              Switch the clock when a move is recorded
+            </label>
+            <button
+              onClick={() => { onSettingsChange(draft); setIsSettingsOpen(false); }}
+              disabled={unchanged}
+              className="w-full py-2.5 bg-rose-600 hover:bg-rose-500 disabled:opacity-30 rounded-xl text-[10px] font-black uppercase text-white"
+            >
+              Apply{started && !sameControl(draft.control, settings.control) ? ' (takes effect on reset)' : ''}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ChessClockPanel;
@@ -0,0 +1,160 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { Crop, X, ScanSearch, Check } from 'lucide-react';
+import { BoardBox, LOCATOR_WIDTH, locateBoard } from '../services/boardLocatorService';
+
+/**
+ * CROP EDITOR DIALOG
+ * Large live view of the shared window with the board crop drawn on top. Drag the rectangle to
+ * move it, drag a corner to resize it, or let the locator find the board again.
+ * Rendered into document.body because the sidebar's backdrop blur would clip a fixed overlay.
+ */
+
+interface CropEditorProps {
+  stream: MediaStream;
+  initialCrop: BoardBox | null;
+  onSave: (crop: BoardBox) => void;
+  onClose: () => void;
+}
+
+type Handle = 'move' | 'nw' | 'ne' | 'se' | 'sw';
+
+// Smallest crop, in the 0-1000 frame units; below this nothing readable is left
+const MIN_SPAN = 40;
+const DEFAULT_CROP: BoardBox = { xmin: 250, ymin: 100, xmax: 750, ymax: 900 };
+
+const clamp = (value: number, lo: number, hi: number) => Math.min(hi, Math.max(lo, value));
+
+const dragBox = (start: BoardBox, handle: Handle, dx: number, dy: number): BoardBox => {
+  if (handle === 'move') {
+    const mx = clamp(dx, -start.xmin, 1000 - start.xmax);
+    const my = clamp(dy, -start.ymin, 1000 - start.ymax);
+    return { xmin: start.xmin + mx, xmax: start.xmax + mx, ymin: start.ymin + my, ymax: start.ymax + my };
+  }
+  const next = { ...start };
+  if (handle === 'nw' || handle === 'sw') next.xmin = clamp(start.xmin + dx, 0, start.xmax - MIN_SPAN);
+  if (handle === 'ne' || handle === 'se') next.xmax = clamp(start.xmax + dx, start.xmin + MIN_SPAN, 1000);
+  if (handle === 'nw' || handle === 'ne') next.ymin = clamp(start.ymin + dy, 0, start.ymax - MIN_SPAN);
+  if (handle === 'sw' || handle === 'se') next.ymax = clamp(start.ymax + dy, start.ymin + MIN_SPAN, 1000);
+  return next;
+};
+
+const HANDLE_POSITIONS: [Handle, string][] = [['nw', 'left-0 top-0 cursor-nwse-resize'], ['ne', 'right-0 top-0 cursor-nesw-resize'], ['se', 'right-0 bottom-0 cursor-nwse-resize'], ['sw', 'left-0 bottom-0 cursor-nesw-resize']];
+
+const CropEditor: React.FC<CropEditorProps> = ({ stream, initialCrop, onSave, onClose }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [box, setBox] = useState<BoardBox>(initialCrop || DEFAULT_CROP);
+  const [videoSize, setVideoSize] = useState<{ width: number; height: number } | null>(null);
+  const [detectError, setDetectError] = useState<string | null>(null);
+  const drag = useRef<{ handle: Handle; x: number; y: number; start: BoardBox } | null>(null);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.srcObject = stream;
+    video.onloadedmetadata = () => {
+      setVideoSize({ width: video.videoWidth, height: video.videoHeight });
+      video.play().catch(console.error);
+    };
+  }, [stream]);
+
+  // The view keeps the frame's aspect ratio, so its box maps straight onto 0-1000
+  const toFrameUnits = (e: React.PointerEvent, element: HTMLElement) => {
+    const rect = element.getBoundingClientRect();
+    return { x: ((e.clientX - rect.left) / rect.width) * 1000, y: ((e.clientY - rect.top) / rect.height) * 1000 };
+  };
+
+  const startDrag = (handle: Handle) => (e: React.PointerEvent<HTMLDivElement>) => {
+    e.stopPropagation();
+    const view = e.currentTarget.closest('[data-crop-view]') as HTMLElement;
+    view.setPointerCapture(e.pointerId);
+    drag.current = { handle, ...toFrameUnits(e, view), start: box };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!drag.current) return;
+    const { x, y } = toFrameUnits(e, e.currentTarget);
+    setBox(dragBox(drag.current.start, drag.current.handle, x - drag.current.x, y - drag.current.y));
+  };
+
+  const detect = () => {
+    const video = videoRef.current;
+    if (!video || !videoSize) return;
+    const canvas = document.createElement('canvas');
+    canvas.width = LOCATOR_WIDTH;
+    canvas.height = Math.round((LOCATOR_WIDTH * videoSize.height) / videoSize.width);
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) return;
+    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+    const found = locateBoard(ctx.getImageData(0, 0, canvas.width, canvas.height));
+    if (found) setBox(found.box);
+    setDetectError(found ? null : 'No board found in this frame');
+  };
+
+  const ratio = videoSize ? videoSize.width / videoSize.height : 16 / 9;
+
+  return createPortal(
+    <div className="fixed inset-0 z-[100] bg-black/70 flex items-center justify-center p-6" onClick={onClose}>
+      <div className="w-full max-w-5xl flex flex-col glass rounded-2xl border border-white/10 shadow-2xl" onClick={e => e.stopPropagation()}>
+        <div className="p-4 border-b border-white/5 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Crop className="w-4 h-4 text-rose-500" />
+            <h2 className="text-xs font-black uppercase tracking-widest text-white">Board Crop</h2>
+            {detectError && <span className="text-[10px] font-bold text-amber-400 uppercase tracking-widest ml-2">{detectError}</span>}
+          </div>
+          <button onClick={onClose} className="text-slate-500 hover:text-white">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="p-4">
+          <div
+            data-crop-view
+            className="relative mx-auto bg-slate-950 rounded-lg overflow-hidden select-none touch-none"
+            style={{ aspectRatio: `${ratio}`, width: `min(100%, calc(70vh * ${ratio}))` }}
+            onPointerMove={handlePointerMove}
+            onPointerUp={() => { drag.current = null; }}
+          >
+            <video ref={videoRef} className="absolute inset-0 w-full h-full object-contain pointer-events-none" muted playsInline />
+            <div
+              className="absolute border-2 border-rose-500 bg-rose-600/10 cursor-move shadow-[0_0_0_9999px_rgba(0,0,0,0.45)]"
+              style={{
+                left: `${box.xmin / 10}%`,
+                top: `${box.ymin / 10}%`,
+                width: `${(box.xmax - box.xmin) / 10}%`,
+                height: `${(box.ymax - box.ymin) / 10}%`
+              }}
+              onPointerDown={startDrag('move')}
+            >
+              {HANDLE_POSITIONS.map(([handle, position]) => (
+                <div
+                  key={handle}
+                  className={`absolute w-4 h-4 -m-2 rounded-full bg-rose-600 border-2 border-white ${position}`}
+                  onPointerDown={startDrag(handle)}
+                />
+              ))}
+            </div>
+          </div>
+          <p className="mt-3 text-[10px] text-slate-500">
+            Fit the rectangle to the outer edge of the 64 squares, leaving out coordinates and clocks. A crop set here is kept until you reset the view, unless the board leaves it.
+          </p>
+        </div>
+
+        <div className="p-4 border-t border-white/5 flex justify-end gap-2">
+          <button onClick={detect} className="px-4 py-2 bg-slate-900 hover:bg-slate-800 rounded-lg text-slate-400 border border-slate-800 flex items-center gap-1.5 text-[10px] font-black uppercase">
+            <ScanSearch className="w-3.5 h-3.5" /> Detect
+          </button>
+          <button
+            onClick={() => onSave(box)}
+            className="px-4 py-2 bg-rose-600 hover:bg-rose-500 rounded-lg text-white flex items-center gap-1.5 text-[10px] font-black uppercase"
+          >
+            <Check className="w-3.5 h-3.5" /> Save
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default CropEditor;
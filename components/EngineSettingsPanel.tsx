@@ -0,0 +1,249 @@
+import React, { useState } from 'react';
+import { Settings2, X, Save, Trash2, Plug } from 'lucide-react';
+import { UciOption, UciOptionValue, RESERVED_OPTIONS, EngineBackend, DEFAULT_BRIDGE_URL, listBridgeEngines } from '../services/engineService';
+import { EngineProfile, isBuiltInProfile } from '../services/engineProfileService';
+import { TablebaseSettings, TABLEBASE_MAX_PIECES } from '../services/tablebaseService';
+
+/**
+ * ENGINE SETTINGS PANEL
+ * Backend choice (browser worker or local UCI bridge), tablebase source, controls generated from
+ * the engine's own "option" lines, plus named profile management.
+ */
+
+interface EngineSettingsPanelProps {
+  options: UciOption[];
+  values: Record<string, UciOptionValue>;
+  profiles: EngineProfile[];
+  activeProfile: string;
+  onOptionChange: (name: string, value?: UciOptionValue) => void;
+  onSelectProfile: (name: string) => void;
+  onSaveProfile: (name: string) => void;
+  onDeleteProfile: (name: string) => void;
+  backend: EngineBackend;
+  onBackendChange: (backend: EngineBackend) => void;
+  tablebase: TablebaseSettings;
+  onTablebaseChange: (settings: TablebaseSettings) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'bg-slate-900/80 border border-slate-800 rounded-lg px-2 py-1 text-[11px] text-slate-200 outline-none focus:border-rose-500/40';
+
+const OptionControl: React.FC<{ option: UciOption; value: UciOptionValue | undefined; onChange: (value?: UciOptionValue) => void }> = ({ option, value, onChange }) => {
+  const current = value ?? option.default ?? '';
+
+  switch (option.type) {
+    case 'spin':
+      return (
+        <input
+          type="number"
+          min={option.min}
+          max={option.max}
+          value={Number(current)}
+          onChange={e => {
+            const parsed = parseInt(e.target.value);
+            if (isNaN(parsed)) return;
+            onChange(Math.max(option.min ?? parsed, Math.min(option.max ?? parsed, parsed)));
+          }}
+          className={`${inputClass} w-24 text-right`}
+        />
+      );
+    case 'check':
+      return (
+        <input
+          type="checkbox"
+          checked={current === true || current === 'true'}
+          onChange={e => onChange(e.target.checked)}
+          className="w-4 h-4 accent-rose-600"
+        />
+      );
+    case 'combo':
+      return (
+        <select value={String(current)} onChange={e => onChange(e.target.value)} className={inputClass}>
+          {option.vars?.map(v => <option key={v} value={v}>{v}</option>)}
+        </select>
+      );
+    case 'button':
+      return (
+        <button onClick={() => onChange()} className="px-3 py-1 bg-slate-800 hover:bg-slate-700 rounded-lg text-[10px] font-black uppercase text-slate-300">
+          Run
+        </button>
+      );
+    default:
+      return <input value={String(current)} onChange={e => onChange(e.target.value)} className={`${inputClass} w-40`} />;
+  }
+};
+
+const BackendSection: React.FC<{ backend: EngineBackend; onChange: (backend: EngineBackend) => void }> = ({ backend, onChange }) => {
+  const [kind, setKind] = useState<EngineBackend['kind']>(backend.kind);
+  const [url, setUrl] = useState(backend.kind === 'bridge' ? backend.url : DEFAULT_BRIDGE_URL);
+  const [engineName, setEngineName] = useState(backend.kind === 'bridge' ? backend.engine : '');
+  const [available, setAvailable] = useState<string[]>([]);
+  const [bridgeError, setBridgeError] = useState<string | null>(null);
+
+  const discover = async () => {
+    setBridgeError(null);
+    try {
+      const names = await listBridgeEngines(url);
+      setAvailable(names);
+      if (names.length > 0 && !names.includes(engineName)) setEngineName(names[0]);
+      if (names.length === 0) setBridgeError('Bridge has no engines configured');
+    } catch (e) {
+      setAvailable([]);
+      setBridgeError('Bridge not reachable');
+    }
+  };
+
+  const draft: EngineBackend = kind === 'bridge' ? { kind, url: url.trim(), engine: engineName.trim() } : { kind };
+  const unchanged = JSON.stringify(draft) === JSON.stringify(backend);
+
+  return (
+    <div className="p-4 border-b border-white/5 space-y-3 shrink-0">
+      <div className="flex items-center gap-2">
+        <span className="text-[10px] font-black uppercase tracking-widest text-slate-500 w-16">Backend</span>
+        <select value={kind} onChange={e => setKind(e.target.value as EngineBackend['kind'])} className={`${inputClass} flex-1`}>
+          <option value="worker">Browser (bundled Stockfish)</option>
+          <option value="bridge">Local UCI bridge</option>
+        </select>
+        <button
+          onClick={() => onChange(draft)}
+          disabled={unchanged || (kind === 'bridge' && (!url.trim() || !engineName.trim()))}
+          className="px-3 py-1 bg-rose-600 hover:bg-rose-500 disabled:opacity-30 rounded-lg text-[10px] font-black uppercase text-white"
+        >
+          Apply
+        </button>
+      </div>
+      {kind === 'bridge' && (
+        <>
+          <div className="flex items-center gap-2">
+            <span className="text-[10px] font-black uppercase tracking-widest text-slate-500 w-16">Bridge</span>
+            <input value={url} onChange={e => setUrl(e.target.value)} className={`${inputClass} flex-1 font-mono`} />
+            <button onClick={discover} className="p-1.5 bg-slate-900 hover:bg-slate-800 rounded-lg text-slate-400 border border-slate-800" title="List engines on the bridge">
+              <Plug className="w-3.5 h-3.5" />
+            </button>
+          </div>
+          <div className="flex items-center gap-2">
+            <span className="text-[10px] font-black uppercase tracking-widest text-slate-500 w-16">Engine</span>
+            {available.length > 0 ? (
+              <select value={engineName} onChange={e => setEngineName(e.target.value)} className={`${inputClass} flex-1`}>
+                {available.map(name => <option key={name} value={name}>{name}</option>)}
+              </select>
+            ) : (
+              <input value={engineName} onChange={e => setEngineName(e.target.value)} placeholder="stockfish" className={`${inputClass} flex-1`} />
+            )}
+          </div>
+          {bridgeError && <p className="text-[10px] text-amber-400">{bridgeError}: run <span className="font-mono">npm run bridge -- --engine name=/path/to/engine</span></p>}
+        </>
+      )}
+    </div>
+  );
+};
+
+const TablebaseSection: React.FC<{ settings: TablebaseSettings; onChange: (settings: TablebaseSettings) => void }> = ({ settings, onChange }) => {
+  const [url, setUrl] = useState(settings.url);
+
+  return (
+    <div className="p-4 border-b border-white/5 flex items-center gap-2 shrink-0">
+      <span className="text-[10px] font-black uppercase tracking-widest text-slate-500 w-16" title={`Positions with ${TABLEBASE_MAX_PIECES} pieces or fewer`}>Tablebase</span>
+      <input
+        type="checkbox"
+        checked={settings.enabled}
+        onChange={e => onChange({ ...settings, url: url.trim(), enabled: e.target.checked })}
+        className="w-4 h-4 accent-rose-600"
+      />
+      <input value={url} onChange={e => setUrl(e.target.value)} disabled={!settings.enabled} className={`${inputClass} flex-1 font-mono disabled:opacity-40`} />
+      <button
+        onClick={() => onChange({ ...settings, url: url.trim() })}
+        disabled={!settings.enabled || url.trim() === settings.url || !url.trim()}
+        className="px-3 py-1 bg-rose-600 hover:bg-rose-500 disabled:opacity-30 rounded-lg text-[10px] font-black uppercase text-white"
+      >
+        Apply
+      </button>
+    </div>
+  );
+};
+
+const EngineSettingsPanel: React.FC<EngineSettingsPanelProps> = ({
+  options,
+  values,
+  profiles,
+  activeProfile,
+  onOptionChange,
+  onSelectProfile,
+  onSaveProfile,
+  onDeleteProfile,
+  backend,
+  onBackendChange,
+  tablebase,
+  onTablebaseChange,
+  onClose
+}) => {
+  const [profileName, setProfileName] = useState(activeProfile);
+  const visible = options.filter(o => !RESERVED_OPTIONS.includes(o.name));
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/70 flex items-center justify-center p-6" onClick={onClose}>
+      <div className="w-full max-w-xl max-h-[85vh] flex flex-col glass rounded-2xl border border-white/10 shadow-2xl" onClick={e => e.stopPropagation()}>
+        <div className="p-4 border-b border-white/5 flex items-center justify-between shrink-0">
+          <div className="flex items-center gap-2">
+            <Settings2 className="w-4 h-4 text-rose-500" />
+            <h2 className="text-xs font-black uppercase tracking-widest text-white">Engine Settings</h2>
+          </div>
+          <button onClick={onClose} className="text-slate-500 hover:text-white">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <BackendSection backend={backend} onChange={onBackendChange} />
+        <TablebaseSection settings={tablebase} onChange={onTablebaseChange} />
+
+        <div className="p-4 border-b border-white/5 space-y-3 shrink-0">
+          <div className="flex items-center gap-2">
+            <span className="text-[10px] font-black uppercase tracking-widest text-slate-500 w-16">Profile</span>
+            <select value={activeProfile} onChange={e => { onSelectProfile(e.target.value); setProfileName(e.target.value); }} className={`${inputClass} flex-1`}>
+              {profiles.map(p => <option key={p.name} value={p.name}>{p.name}</option>)}
+            </select>
+            <button
+              onClick={() => onDeleteProfile(activeProfile)}
+              className="p-1.5 bg-slate-900 hover:bg-slate-800 rounded-lg text-slate-400 border border-slate-800"
+              title={isBuiltInProfile(activeProfile) ? 'Restore built-in profile' : 'Delete profile'}
+            >
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          </div>
+          <div className="flex items-center gap-2">
+            <span className="text-[10px] font-black uppercase tracking-widest text-slate-500 w-16">Save as</span>
+            <input value={profileName} onChange={e => setProfileName(e.target.value)} className={`${inputClass} flex-1`} />
+            <button
+              onClick={() => onSaveProfile(profileName.trim())}
+              disabled={profileName.trim().length === 0}
+              className="p-1.5 bg-rose-600 hover:bg-rose-500 disabled:opacity-30 rounded-lg text-white"
+              title="Save current settings"
+            >
+              <Save className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-2">
+          {visible.length === 0 ? (
+            <p className="text-slate-600 uppercase font-black tracking-widest text-[10px] text-center py-6">Waiting for engine handshake...</p>
+          ) : (
+            visible.map(option => (
+              <div key={option.name} className="flex items-center justify-between gap-4 py-1">
+                <div className="flex flex-col">
+                  <span className="text-[11px] font-bold text-slate-200">{option.name}</span>
+                  <span className="text-[9px] font-mono text-slate-600">
+                    {option.type}{option.min !== undefined ? ` ${option.min}-${option.max}` : ''}{option.default ? ` • default ${option.default}` : ''}
+                  </span>
+                </div>
+                <OptionControl option={option} value={values[option.name]} onChange={value => onOptionChange(option.name, value)} />
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EngineSettingsPanel;
@@ -0,0 +1,77 @@
+import React from 'react';
+import { ShieldCheck, X } from 'lucide-react';
+import { FairPlaySettings, FairPlayStatus, LiveSignal, FAIR_PLAY_ENFORCED } from '../services/fairPlayService';
+
+/**
+ * FAIR PLAY PANEL
+ * Shows whether the guard currently withholds engine output and why, lets the user declare the
+ * game on screen live, and switches the guard itself unless the build enforces it.
+ */
+
+interface FairPlayPanelProps {
+  settings: FairPlaySettings;
+  status: FairPlayStatus;
+  declaredLive: boolean;
+  onDeclaredLiveChange: (live: boolean) => void;
+  onSettingsChange: (settings: FairPlaySettings) => void;
+  onClose: () => void;
+}
+
+export const LIVE_SIGNAL_LABELS: Record<LiveSignal, string> = {
+  declared: 'declared live',
+  clock: 'clock running',
+  layout: 'game in progress',
+  checking: 'checking for a live game',
+  seen: 'seen live in this game'
+};
+
+const Toggle: React.FC<{ label: string; hint: string; checked: boolean; disabled?: boolean; onChange: (checked: boolean) => void }> = ({ label, hint, checked, disabled, onChange }) => (
+  <label className={`flex items-start gap-2 px-3 py-2 rounded-lg border bg-slate-900 border-slate-800 ${disabled ? 'opacity-50' : 'cursor-pointer hover:bg-slate-800'}`}>
+    <input type="checkbox" checked={checked} disabled={disabled} onChange={e => onChange(e.target.checked)} className="mt-0.5 accent-rose-600" />
+    <span className="flex flex-col">
+      <span className="text-[11px] font-bold text-slate-200">{label}</span>
+      <span className="text-[9px] text-slate-500">{hint}</span>
+    </span>
+  </label>
+);
+
+const FairPlayPanel: React.FC<FairPlayPanelProps> = ({ settings, status, declaredLive, onDeclaredLiveChange, onSettingsChange, onClose }) => (
+  <div className="fixed inset-0 z-[100] bg-black/70 flex items-center justify-center p-6" onClick={onClose}>
+    <div className="w-full max-w-md glass rounded-2xl border border-white/10 shadow-2xl" onClick={e => e.stopPropagation()}>
+      <div className="p-4 border-b border-white/5 flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <ShieldCheck className="w-4 h-4 text-rose-500" />
+          <h2 className="text-xs font-black uppercase tracking-widest text-white">Fair Play</h2>
+        </div>
+        <button onClick={onClose} className="text-slate-500 hover:text-white">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="p-4 space-y-3">
+        <div className={`px-3 py-2 rounded-lg border text-[10px] font-black uppercase tracking-widest ${status.locked ? 'bg-amber-500/10 border-amber-500/30 text-amber-300' : 'bg-slate-900 border-slate-800 text-slate-400'}`}>
+          {status.locked && status.signal ? `Review-only • ${LIVE_SIGNAL_LABELS[status.signal]}` : 'Analysis available'}
+        </div>
+
+        <Toggle
+          label="This game is live"
+          hint="Records moves only until the game ends. Use it for games the guard cannot see, like a board camera at a club night."
+          checked={declaredLive}
+          disabled={!settings.enabled}
+          onChange={onDeclaredLiveChange}
+        />
+        <Toggle
+          label="Guard live games"
+          hint={FAIR_PLAY_ENFORCED
+            ? 'This build always guards live games.'
+            : 'Withholds engine lines, arrows, book and tablebase moves while a running clock or an in-progress game page is captured.'}
+          checked={settings.enabled}
+          disabled={FAIR_PLAY_ENFORCED}
+          onChange={enabled => onSettingsChange({ enabled })}
+        />
+      </div>
+    </div>
+  </div>
+);
+
+export default FairPlayPanel;
@@ -0,0 +1,196 @@
+import React, { useEffect, useState } from 'react';
+import { ScrollText, Download, Undo2, ArrowUpToLine, Trash2, MessageSquare } from 'lucide-react';
+import { RecordedMove, RecordTreeNode, ROOT_ID } from '../services/gameRecordService';
+import { NAG_SYMBOLS } from '../services/pgnService';
+import { Opening } from '../services/openingService';
+
+/**
+ * GAME RECORD PANEL
+ * Move tree of the captured game with side lines, annotations, player names and PGN export.
+ */
+
+interface GameRecordPanelProps {
+  tree: RecordTreeNode;
+  opening: Opening | null;
+  plyCount: number;
+  whiteName: string;
+  blackName: string;
+  onWhiteNameChange: (name: string) => void;
+  onBlackNameChange: (name: string) => void;
+  onExport: () => void;
+  onUndo: () => void;
+  currentId: number;
+  currentIsMainline: boolean;
+  onSelect: (id: number) => void;
+  onPromote: (id: number) => void;
+  onDelete: (id: number) => void;
+  onAnnotate: (id: number, comment: string, nags: number[]) => void;
+}
+
+const ANNOTATION_NAGS = [1, 2, 3, 4, 5, 6];
+
+const formatEval = (evaluation: number | null) => {
+  if (evaluation === null) return '';
+  return `${evaluation > 0 ? '+' : ''}${evaluation.toFixed(1)}`;
+};
+
+const findMove = (node: RecordTreeNode, id: number): RecordedMove | null => {
+  if (node.move?.id === id) return node.move;
+  for (const child of node.children) {
+    const found = findMove(child, id);
+    if (found) return found;
+  }
+  return null;
+};
+
+const MoveToken: React.FC<{ move: RecordedMove; forceNumber: boolean; isMain: boolean; isCurrent: boolean; onSelect: (id: number) => void }> = ({
+  move, forceNumber, isMain, isCurrent, onSelect
+}) => (
+  <>
+    {(move.color === 'w' || forceNumber) && (
+      <span className="text-slate-600 ml-1">{move.moveNumber}{move.color === 'w' ? '.' : '...'}</span>
+    )}
+    <button
+      onClick={() => onSelect(move.id)}
+      className={`px-1 rounded ${isMain ? 'font-bold' : ''} ${isCurrent ? 'bg-rose-600/30 text-white' : isMain ? 'text-slate-200 hover:bg-slate-800/60' : 'text-slate-400 hover:bg-slate-800/60'}`}
+    >
+      {move.san}{move.nags?.map(n => NAG_SYMBOLS[n] || '').join('')}
+    </button>
+    {isMain && move.evaluation !== null && <span className="text-slate-600 text-[9px]">{formatEval(move.evaluation)}</span>}
+    {move.comment && <span className="text-emerald-400/70 italic mx-1">{move.comment}</span>}
+  </>
+);
+
+const GameRecordPanel: React.FC<GameRecordPanelProps> = ({
+  tree,
+  opening,
+  plyCount,
+  whiteName,
+  blackName,
+  onWhiteNameChange,
+  onBlackNameChange,
+  onExport,
+  onUndo,
+  currentId,
+  currentIsMainline,
+  onSelect,
+  onPromote,
+  onDelete,
+  onAnnotate
+}) => {
+  const current = currentId === ROOT_ID ? null : findMove(tree, currentId);
+  const [comment, setComment] = useState('');
+
+  useEffect(() => {
+    setComment(current?.comment || '');
+  }, [currentId, current?.comment]);
+
+  // Mirrors PGN layout: side lines follow the main move they replace, in parentheses
+  const renderLine = (from: RecordTreeNode, forceNumber: boolean, isMain: boolean): React.ReactNode[] => {
+    const out: React.ReactNode[] = [];
+    let node = from;
+    let force = forceNumber;
+    while (node.children.length > 0) {
+      const [main, ...variations] = node.children;
+      const move = main.move!;
+      out.push(<MoveToken key={move.id} move={move} forceNumber={force} isMain={isMain} isCurrent={move.id === currentId} onSelect={onSelect} />);
+      force = false;
+      for (const variation of variations) {
+        const start = variation.move!;
+        out.push(
+          <span key={`v${start.id}`} className={`text-slate-400 ${isMain ? 'block pl-3 my-1 border-l border-slate-800' : ''}`}>
+            (<MoveToken move={start} forceNumber isMain={false} isCurrent={start.id === currentId} onSelect={onSelect} />
+            {renderLine(variation, false, false)})
+          </span>
+        );
+        force = true;
+      }
+      node = main;
+    }
+    return out;
+  };
+
+  const toggleNag = (nag: number) => {
+    if (!current) return;
+    const nags = current.nags || [];
+    // Move-quality NAGs are mutually exclusive; positional NAGs from imports are kept
+    onAnnotate(current.id, comment, nags.includes(nag) ? nags.filter(n => n !== nag) : [...nags.filter(n => n > 6), nag]);
+  };
+
+  return (
+    <div className="w-full glass rounded-2xl border border-white/5 overflow-hidden shrink-0">
+      <div className="p-4 border-b border-white/5 flex items-center justify-between bg-slate-900/40">
+        <div className="flex items-center gap-2">
+          <ScrollText className="w-4 h-4 text-rose-500" />
+          <h2 className="text-xs font-black uppercase tracking-widest text-white">Game Record</h2>
+          <span className="text-[10px] font-mono text-slate-500">{plyCount} plies</span>
+        </div>
+        <div className="flex gap-2">
+          <button onClick={onUndo} disabled={plyCount === 0} className="px-3 py-1.5 bg-slate-900 hover:bg-slate-800 disabled:opacity-30 rounded-lg text-slate-400 border border-slate-800 flex items-center gap-1.5 text-[10px] font-black uppercase">
+            <Undo2 className="w-3.5 h-3.5" /> Undo
+          </button>
+          <button onClick={onExport} className="px-3 py-1.5 bg-rose-600 hover:bg-rose-500 rounded-lg text-white flex items-center gap-1.5 text-[10px] font-black uppercase">
+            <Download className="w-3.5 h-3.5" /> PGN
+          </button>
+        </div>
+      </div>
+
+      {opening && (
+        <div className="px-4 py-2 border-b border-white/5 flex items-center gap-2 text-[10px]">
+          <span className="font-black font-mono text-rose-400">{opening.eco}</span>
+          <span className="font-bold text-slate-400 truncate">{opening.name}</span>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-3 p-4 border-b border-white/5">
+        <input value={whiteName} onChange={e => onWhiteNameChange(e.target.value)} placeholder="White" className="bg-slate-900/60 border border-slate-800 rounded-lg px-3 py-2 text-[11px] font-bold text-slate-200 outline-none focus:border-rose-500/40" />
+        <input value={blackName} onChange={e => onBlackNameChange(e.target.value)} placeholder="Black" className="bg-slate-900/60 border border-slate-800 rounded-lg px-3 py-2 text-[11px] font-bold text-slate-200 outline-none focus:border-rose-500/40" />
+      </div>
+
+      <div className="max-h-56 overflow-y-auto custom-scrollbar p-4 font-mono text-[11px] leading-6">
+        {tree.children.length === 0 ? (
+          <p className="text-slate-600 uppercase font-black tracking-widest text-[10px] text-center py-4">No moves recorded</p>
+        ) : (
+          renderLine(tree, true, true)
+        )}
+      </div>
+
+      {current && (
+        <div className="p-4 border-t border-white/5 space-y-3">
+          <div className="flex items-center gap-2">
+            <span className="text-[10px] font-mono text-slate-400 font-bold mr-auto">{current.moveNumber}{current.color === 'w' ? '.' : '...'} {current.san}</span>
+            {ANNOTATION_NAGS.map(nag => (
+              <button
+                key={nag}
+                onClick={() => toggleNag(nag)}
+                className={`w-7 py-1 rounded text-[10px] font-black border ${current.nags?.includes(nag) ? 'bg-rose-600/30 border-rose-500/40 text-white' : 'bg-slate-900 border-slate-800 text-slate-500'}`}
+              >
+                {NAG_SYMBOLS[nag]}
+              </button>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <input
+              value={comment}
+              onChange={e => setComment(e.target.value)}
+              onKeyDown={e => { if (e.key === 'Enter') onAnnotate(current.id, comment, current.nags || []); }}
+              placeholder="Comment"
+              className="flex-1 bg-slate-900/60 border border-slate-800 rounded-lg px-3 py-1.5 text-[11px] text-slate-200 outline-none focus:border-rose-500/40"
+            />
+            <button onClick={() => onAnnotate(current.id, comment, current.nags || [])} className="px-3 bg-slate-900 hover:bg-slate-800 rounded-lg text-slate-400 border border-slate-800" title="Save comment">
+              <MessageSquare className="w-3.5 h-3.5" />
+            </button>
+            <button onClick={() => onPromote(current.id)} disabled={currentIsMainline} className="px-3 bg-slate-900 hover:bg-slate-800 disabled:opacity-30 rounded-lg text-slate-400 border border-slate-800" title="Promote to main line">
+              <ArrowUpToLine className="w-3.5 h-3.5" />
+            </button>
+            <button onClick={() => onDelete(current.id)} disabled={currentIsMainline} className="px-3 bg-slate-900 hover:bg-slate-800 disabled:opacity-30 rounded-lg text-slate-400 border border-slate-800" title="Delete side line">
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GameRecordPanel;
@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import { FileUp, X, AlertCircle } from 'lucide-react';
+
+/**
+ * IMPORT DIALOG
+ * Accepts pasted or dropped PGN / FEN text and hands it to the caller for parsing.
+ */
+
+interface ImportDialogProps {
+  onImport: (text: string) => string | null;
+  onClose: () => void;
+}
+
+const ImportDialog: React.FC<ImportDialogProps> = ({ onImport, onClose }) => {
+  const [text, setText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+
+  const submit = (value: string) => {
+    const failure = onImport(value);
+    if (failure) setError(failure);
+    else onClose();
+  };
+
+  const handleDrop = async (e: React.DragEvent<HTMLTextAreaElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const file = e.dataTransfer.files[0];
+    if (!file) return;
+    const content = await file.text();
+    setText(content);
+    submit(content);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/70 flex items-center justify-center p-6" onClick={onClose}>
+      <div className="w-full max-w-xl glass rounded-2xl border border-white/10 shadow-2xl" onClick={e => e.stopPropagation()}>
+        <div className="p-4 border-b border-white/5 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <FileUp className="w-4 h-4 text-rose-500" />
+            <h2 className="text-xs font-black uppercase tracking-widest text-white">Import PGN / FEN</h2>
+          </div>
+          <button onClick={onClose} className="text-slate-500 hover:text-white">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+        <div className="p-4 space-y-3">
+          <textarea
+            value={text}
+            onChange={e => { setText(e.target.value); setError(null); }}
+            onDragOver={e => { e.preventDefault(); setIsDragging(true); }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={handleDrop}
+            placeholder="Paste a PGN or FEN, or drop a .pgn file here"
+            className={`w-full h-56 bg-slate-950/80 border rounded-xl p-3 font-mono text-[11px] text-slate-200 outline-none resize-none custom-scrollbar ${isDragging ? 'border-rose-500' : 'border-slate-800'}`}
+          />
+          {error && (
+            <div className="px-3 py-2 bg-rose-500/10 border border-rose-500/20 rounded-lg flex items-center gap-2 text-rose-400 text-[10px] font-bold uppercase">
+              <AlertCircle className="w-3.5 h-3.5" /> {error}
+            </div>
+          )}
+          <button
+            onClick={() => submit(text)}
+            disabled={text.trim().length === 0}
+            className="w-full py-3 bg-rose-600 hover:bg-rose-500 disabled:opacity-30 rounded-xl text-[10px] font-black uppercase text-white"
+          >
+            Load
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportDialog;
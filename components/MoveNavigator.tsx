@@ -0,0 +1,39 @@
+import React from 'react';
+import { ChevronsLeft, ChevronLeft, ChevronRight, ChevronsRight } from 'lucide-react';
+
+/**
+ * MOVE NAVIGATOR
+ * First / previous / next / last controls for stepping through the current line of the record.
+ */
+
+interface MoveNavigatorProps {
+  ply: number;
+  lastPly: number;
+  onFirst: () => void;
+  onPrev: () => void;
+  onNext: () => void;
+  onLast: () => void;
+}
+
+const MoveNavigator: React.FC<MoveNavigatorProps> = ({ ply, lastPly, onFirst, onPrev, onNext, onLast }) => {
+  const buttonClass = 'p-2.5 bg-slate-900 hover:bg-slate-800 disabled:opacity-30 rounded-xl text-slate-400 border border-slate-800';
+  return (
+    <div className="flex items-center gap-2">
+      <button onClick={onFirst} disabled={ply === 0} className={buttonClass} title="First (Home)">
+        <ChevronsLeft className="w-4 h-4" />
+      </button>
+      <button onClick={onPrev} disabled={ply === 0} className={buttonClass} title="Previous (←)">
+        <ChevronLeft className="w-4 h-4" />
+      </button>
+      <span className="text-[10px] font-mono text-slate-500 tabular-nums w-14 text-center">{ply}/{lastPly}</span>
+      <button onClick={onNext} disabled={ply >= lastPly} className={buttonClass} title="Next (→)">
+        <ChevronRight className="w-4 h-4" />
+      </button>
+      <button onClick={onLast} disabled={ply >= lastPly} className={buttonClass} title="Last (End)">
+        <ChevronsRight className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
+
+export default MoveNavigator;
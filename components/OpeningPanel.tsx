@@ -0,0 +1,58 @@
+import React from 'react';
+import { BookOpen } from 'lucide-react';
+import { OpeningLookup } from '../services/openingService';
+
+/**
+ * OPENING PANEL
+ * ECO code and name of the shown position, with book continuations ranked by popularity.
+ */
+
+interface OpeningPanelProps {
+  lookup: OpeningLookup | null;
+  onPlayMove: (san: string) => void;
+}
+
+const MAX_BOOK_MOVES = 5;
+
+const OpeningPanel: React.FC<OpeningPanelProps> = ({ lookup, onPlayMove }) => {
+  const bookMoves = lookup?.bookMoves.slice(0, MAX_BOOK_MOVES) || [];
+
+  return (
+    <div className="glass rounded-2xl border border-white/5 overflow-hidden shrink-0">
+      <div className="px-4 py-3 flex items-center gap-2 bg-slate-900/40">
+        <BookOpen className="w-4 h-4 text-rose-500 shrink-0" />
+        {lookup?.opening ? (
+          <div className="flex items-center gap-2 min-w-0">
+            <span className="text-[10px] font-black font-mono text-rose-400 shrink-0">{lookup.opening.eco}</span>
+            <span className="text-[11px] font-bold text-slate-200 truncate" title={lookup.opening.name}>{lookup.opening.name}</span>
+          </div>
+        ) : (
+          <span className="text-[10px] font-black uppercase tracking-widest text-slate-500">{lookup ? 'Unnamed position' : 'Loading book...'}</span>
+        )}
+      </div>
+      {bookMoves.length > 0 && (
+        <div className="px-4 py-2 border-t border-white/5 space-y-1">
+          {bookMoves.map(move => (
+            <button
+              key={move.san}
+              onClick={() => onPlayMove(move.san)}
+              className="w-full flex items-center gap-2 py-0.5 text-left group"
+              title={move.opening ? `${move.opening.eco} ${move.opening.name}` : `${move.lines} book lines`}
+            >
+              <span className="w-12 text-[11px] font-mono font-bold text-slate-200 group-hover:text-rose-400">{move.san}</span>
+              <div className="flex-1 h-1.5 bg-slate-800 rounded-full overflow-hidden">
+                <div className="h-full bg-rose-600/70" style={{ width: `${move.popularity}%` }} />
+              </div>
+              <span className="w-9 text-right text-[9px] font-mono text-slate-500">{move.popularity}%</span>
+            </button>
+          ))}
+        </div>
+      )}
+      {lookup && lookup.opening && bookMoves.length === 0 && (
+        <p className="px-4 py-2 border-t border-white/5 text-[9px] font-black uppercase tracking-widest text-slate-600">Out of book after ply {lookup.bookPlies}</p>
+      )}
+    </div>
+  );
+};
+
+export default OpeningPanel;
@@ -0,0 +1,103 @@
+import React from 'react';
+import { PositionState, plausibleCastling, enPassantCandidates } from '../services/positionStateService';
+
+/**
+ * POSITION STATE CONTROLS
+ * Side to move, castling rights, en passant square and clocks for a given placement.
+ * Rights the placement rules out are shown disabled.
+ */
+
+interface PositionStateControlsProps {
+  placement: string;
+  state: PositionState;
+  onChange: (state: PositionState) => void;
+}
+
+const CASTLING_LABELS: [string, string][] = [['K', 'White O-O'], ['Q', 'White O-O-O'], ['k', 'Black O-O'], ['q', 'Black O-O-O']];
+
+const PositionStateControls: React.FC<PositionStateControlsProps> = ({ placement, state, onChange }) => {
+  const allowed = plausibleCastling(placement);
+  const epSquares = enPassantCandidates(placement, state.turn);
+
+  const setTurn = (turn: 'w' | 'b') =>
+    // The en passant square depends on who is to move
+    onChange({ ...state, turn, enPassant: enPassantCandidates(placement, turn).includes(state.enPassant || '') ? state.enPassant : null });
+
+  const toggleCastling = (right: string) =>
+    onChange({ ...state, castling: state.castling.includes(right) ? state.castling.replace(right, '') : state.castling + right });
+
+  return (
+    <div className="space-y-3 text-[10px] font-black uppercase">
+      <div className="flex items-center justify-between">
+        <span className="text-slate-500 tracking-widest">To move</span>
+        <div className="flex rounded-lg overflow-hidden border border-slate-800">
+          {(['w', 'b'] as const).map(turn => (
+            <button
+              key={turn}
+              onClick={() => setTurn(turn)}
+              className={`px-3 py-1.5 ${state.turn === turn ? 'bg-rose-600 text-white' : 'bg-slate-900 text-slate-500 hover:text-slate-300'}`}
+            >
+              {turn === 'w' ? 'White' : 'Black'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <span className="text-slate-500 tracking-widest">Castling</span>
+        <div className="mt-1.5 grid grid-cols-2 gap-1.5">
+          {CASTLING_LABELS.map(([right, label]) => (
+            <label key={right} className={`flex items-center gap-2 px-2 py-1.5 rounded-lg bg-slate-900 border border-slate-800 ${allowed.includes(right) ? 'text-slate-300 cursor-pointer' : 'text-slate-600'}`}>
+              <input
+                type="checkbox"
+                checked={state.castling.includes(right) && allowed.includes(right)}
+                disabled={!allowed.includes(right)}
+                onChange={() => toggleCastling(right)}
+                className="accent-rose-600"
+              />
+              {label}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between gap-3">
+        <span className="text-slate-500 tracking-widest">En passant</span>
+        <select
+          value={state.enPassant || ''}
+          onChange={e => onChange({ ...state, enPassant: e.target.value || null })}
+          disabled={epSquares.length === 0}
+          className="bg-slate-900 border border-slate-800 rounded-lg px-2 py-1.5 text-slate-300 outline-none disabled:opacity-40"
+        >
+          <option value="">None</option>
+          {epSquares.map(square => <option key={square} value={square}>{square}</option>)}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <label className="flex flex-col gap-1 text-slate-500 tracking-widest">
+          Halfmove clock
+          <input
+            type="number"
+            min={0}
+            value={state.halfmove}
+            onChange={e => onChange({ ...state, halfmove: Math.max(0, parseInt(e.target.value) || 0) })}
+            className="bg-slate-900 border border-slate-800 rounded-lg px-2 py-1.5 font-mono text-slate-300 outline-none"
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-slate-500 tracking-widest">
+          Move number
+          <input
+            type="number"
+            min={1}
+            value={state.fullmove}
+            onChange={e => onChange({ ...state, fullmove: Math.max(1, parseInt(e.target.value) || 1) })}
+            className="bg-slate-900 border border-slate-800 rounded-lg px-2 py-1.5 font-mono text-slate-300 outline-none"
+          />
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default PositionStateControls;
@@ -0,0 +1,64 @@
+import React, { useState } from 'react';
+import { SlidersHorizontal, X, AlertCircle } from 'lucide-react';
+import PositionStateControls from './PositionStateControls';
+import { PositionState, parsePositionState, composeFen, plausibleCastling } from '../services/positionStateService';
+
+/**
+ * POSITION STATE DIALOG
+ * Confirms what a picture cannot show for the game's starting position: who is to move, castling
+ * rights, en passant and the clocks. Used after syncing into a game already in progress.
+ */
+
+interface PositionStateDialogProps {
+  fen: string;
+  /** Returns an error message when the new state cannot be applied. */
+  onApply: (fen: string) => string | null;
+  onClose: () => void;
+}
+
+const PositionStateDialog: React.FC<PositionStateDialogProps> = ({ fen, onApply, onClose }) => {
+  const placement = fen.split(' ')[0];
+  const [state, setState] = useState<PositionState>(() => parsePositionState(fen));
+  const [error, setError] = useState<string | null>(null);
+
+  const apply = () => {
+    // Rights ruled out by the placement are dropped rather than rejected
+    const allowed = plausibleCastling(placement);
+    const next = composeFen(placement, { ...state, castling: state.castling.split('').filter(r => allowed.includes(r)).join('') });
+    const failure = onApply(next);
+    if (failure) setError(failure);
+    else onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/70 flex items-center justify-center p-6" onClick={onClose}>
+      <div className="w-full max-w-sm glass rounded-2xl border border-white/10 shadow-2xl" onClick={e => e.stopPropagation()}>
+        <div className="p-4 border-b border-white/5 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <SlidersHorizontal className="w-4 h-4 text-rose-500" />
+            <h2 className="text-xs font-black uppercase tracking-widest text-white">Starting Position State</h2>
+          </div>
+          <button onClick={onClose} className="text-slate-500 hover:text-white">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+        <div className="p-4 space-y-3">
+          <PositionStateControls placement={placement} state={state} onChange={next => { setState(next); setError(null); }} />
+          {error && (
+            <div className="px-3 py-2 bg-rose-500/10 border border-rose-500/20 rounded-lg flex items-center gap-2 text-rose-400 text-[10px] font-bold uppercase">
+              <AlertCircle className="w-3.5 h-3.5" /> {error}
+            </div>
+          )}
+          <button
+            onClick={apply}
+            className="w-full py-3 bg-rose-600 hover:bg-rose-500 rounded-xl text-[10px] font-black uppercase text-white"
+          >
+            Apply
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PositionStateDialog;
@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { RadioTower, X } from 'lucide-react';
+import { RelaySettings, RelayStatus } from '../services/relayService';
+
+/**
+ * RELAY PANEL
+ * Publishes the recorded game to a broadcast relay: where to send it, which board and round it
+ * is, and how long moves are held back. Shows how far the relay has got.
+ */
+
+interface RelayPanelProps {
+  settings: RelaySettings;
+  status: RelayStatus;
+  onChange: (settings: RelaySettings) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'bg-slate-900/80 border border-slate-800 rounded-lg px-2 py-1 text-[11px] text-slate-200 outline-none focus:border-rose-500/40';
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div className="flex items-center gap-2">
+    <span className="text-[10px] font-black uppercase tracking-widest text-slate-500 w-16 shrink-0">{label}</span>
+    {children}
+  </div>
+);
+
+const RelayPanel: React.FC<RelayPanelProps> = ({ settings, status, onChange, onClose }) => {
+  const [draft, setDraft] = useState<RelaySettings>(settings);
+  const unchanged = JSON.stringify(draft) === JSON.stringify(settings);
+  const set = (patch: Partial<RelaySettings>) => setDraft(d => ({ ...d, ...patch }));
+  const held = status.recorded - status.published;
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/70 flex items-center justify-center p-6" onClick={onClose}>
+      <div className="w-full max-w-md glass rounded-2xl border border-white/10 shadow-2xl" onClick={e => e.stopPropagation()}>
+        <div className="p-4 border-b border-white/5 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <RadioTower className="w-4 h-4 text-rose-500" />
+            <h2 className="text-xs font-black uppercase tracking-widest text-white">Broadcast Relay</h2>
+          </div>
+          <button onClick={onClose} className="text-slate-500 hover:text-white">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-3">
+          {settings.enabled && (
+            <div className={`px-3 py-2 rounded-lg border text-[10px] font-mono ${status.error ? 'bg-amber-500/10 border-amber-500/30 text-amber-300' : 'bg-slate-900 border-slate-800 text-slate-400'}`}>
+              {status.error
+                ? `ERR: ${status.error}`
+                : `${status.published} of ${status.recorded} plies on the relay${held > 0 ? ` • ${held} held by the delay` : ''}${status.lastPublished ? ` • sent ${new Date(status.lastPublished).toLocaleTimeString()}` : ''}`}
+            </div>
+          )}
+
+          <label className="flex items-center gap-2 text-[11px] font-bold text-slate-200 cursor-pointer">
+            <input type="checkbox" checked={draft.enabled} onChange={e => set({ enabled: e.target.checked })} className="accent-rose-600" />
+            Publish this board
+          </label>
+          <Field label="Relay">
+            <input value={draft.url} onChange={e => set({ url: e.target.value })} className={`${inputClass} flex-1 font-mono`} />
+          </Field>
+          <Field label="Token">
+            <input
+              type="password"
+              value={draft.token}
+              onChange={e => set({ token: e.target.value })}
+              placeholder="Only for a relay on another machine"
+              className={`${inputClass} flex-1 font-mono`}
+            />
+          </Field>
+          <Field label="Event">
+            <input value={draft.event} onChange={e => set({ event: e.target.value })} className={`${inputClass} flex-1`} />
+          </Field>
+          <Field label="Round">
+            <input value={draft.round} onChange={e => set({ round: e.target.value })} className={`${inputClass} w-20`} />
+            <span className="text-[10px] font-black uppercase tracking-widest text-slate-500 ml-2">Board</span>
+            <input
+              type="number"
+              min={1}
+              value={draft.board}
+              onChange={e => set({ board: Math.max(1, parseInt(e.target.value) || 1) })}
+              className={`${inputClass} w-16 tabular-nums`}
+            />
+          </Field>
+          <Field label="Delay">
+            <input
+              type="number"
+              min={0}
+              value={Math.round(draft.delaySeconds / 60)}
+              onChange={e => set({ delaySeconds: Math.max(0, parseInt(e.target.value) || 0) * 60 })}
+              className={`${inputClass} w-16 tabular-nums`}
+            />
+            <span className="text-[10px] text-slate-500">minutes before a move is published</span>
+          </Field>
+
+          <button
+            onClick={() => { onChange(draft); onClose(); }}
+            disabled={unchanged || !draft.url.trim()}
+            className="w-full py-3 bg-rose-600 hover:bg-rose-500 disabled:opacity-30 rounded-xl text-[10px] font-black uppercase text-white"
+          >
+            Apply
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RelayPanel;
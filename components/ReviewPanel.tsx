@@ -0,0 +1,124 @@
+import React from 'react';
+import { LineChart, Play, Square as StopIcon } from 'lucide-react';
+import { GameReview, MoveClassification, SideSummary } from '../services/reviewService';
+import { BatchProgress } from '../services/engineService';
+
+/**
+ * POST-GAME REVIEW PANEL
+ * Eval graph, per-side accuracy and per-move classification of a finished game.
+ */
+
+interface ReviewPanelProps {
+  review: GameReview | null;
+  progress: BatchProgress | null;
+  isRunning: boolean;
+  canReview: boolean;
+  onStart: () => void;
+  onCancel: () => void;
+}
+
+const CLASS_STYLES: Record<MoveClassification, string> = {
+  best: 'text-emerald-400',
+  good: 'text-slate-300',
+  inaccuracy: 'text-amber-300',
+  mistake: 'text-orange-400',
+  blunder: 'text-rose-500'
+};
+
+const CLASS_SYMBOL: Record<MoveClassification, string> = {
+  best: '★',
+  good: '',
+  inaccuracy: '?!',
+  mistake: '?',
+  blunder: '??'
+};
+
+const EvalGraph: React.FC<{ values: number[] }> = ({ values }) => {
+  if (values.length < 2) return null;
+  const width = 600;
+  const height = 120;
+  // Squash evaluations into the graph height so a single mate spike does not flatten everything else
+  const toY = (cp: number) => height / 2 - (Math.tanh(cp / 400) * height) / 2;
+  const points = values.map((v, i) => `${(i / (values.length - 1)) * width},${toY(v)}`).join(' ');
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} preserveAspectRatio="none" className="w-full h-28 bg-slate-950/60 rounded-xl border border-white/5">
+      <polygon points={`0,${height} ${points} ${width},${height}`} className="fill-slate-200/80" />
+      <line x1={0} x2={width} y1={height / 2} y2={height / 2} className="stroke-rose-500/40" strokeWidth={1} />
+    </svg>
+  );
+};
+
+const SideCard: React.FC<{ label: string; summary: SideSummary }> = ({ label, summary }) => (
+  <div className="flex-1 bg-slate-900/60 rounded-xl border border-white/5 p-3">
+    <div className="flex items-baseline justify-between">
+      <span className="text-[10px] font-black uppercase tracking-widest text-slate-500">{label}</span>
+      <span className="text-2xl font-black text-white tabular-nums">{summary.accuracy}%</span>
+    </div>
+    <div className="text-[10px] font-mono text-slate-500 mt-1">ACPL {summary.averageCentipawnLoss}</div>
+    <div className="grid grid-cols-5 gap-1 mt-2 text-[9px] font-black uppercase text-center">
+      {(Object.keys(summary.counts) as MoveClassification[]).map(c => (
+        <div key={c} className={CLASS_STYLES[c]}>
+          <div className="text-sm tabular-nums">{summary.counts[c]}</div>
+          {c.slice(0, 5)}
+        </div>
+      ))}
+    </div>
+  </div>
+);
+
+const ReviewPanel: React.FC<ReviewPanelProps> = ({ review, progress, isRunning, canReview, onStart, onCancel }) => {
+  const percent = progress && progress.total > 0 ? Math.round((progress.completed / progress.total) * 100) : 0;
+
+  return (
+    <div className="w-full glass rounded-2xl border border-white/5 overflow-hidden shrink-0">
+      <div className="p-4 border-b border-white/5 flex items-center justify-between bg-slate-900/40">
+        <div className="flex items-center gap-2">
+          <LineChart className="w-4 h-4 text-rose-500" />
+          <h2 className="text-xs font-black uppercase tracking-widest text-white">Game Review</h2>
+        </div>
+        {isRunning ? (
+          <button onClick={onCancel} className="px-3 py-1.5 bg-slate-900 hover:bg-slate-800 rounded-lg text-slate-400 border border-slate-800 flex items-center gap-1.5 text-[10px] font-black uppercase">
+            <StopIcon className="w-3.5 h-3.5" /> Cancel
+          </button>
+        ) : (
+          <button onClick={onStart} disabled={!canReview} className="px-3 py-1.5 bg-rose-600 hover:bg-rose-500 disabled:opacity-30 rounded-lg text-white flex items-center gap-1.5 text-[10px] font-black uppercase">
+            <Play className="w-3.5 h-3.5" /> Review
+          </button>
+        )}
+      </div>
+
+      {isRunning && (
+        <div className="p-4 border-b border-white/5">
+          <div className="flex justify-between text-[10px] font-mono text-slate-500 mb-2">
+            <span>Analysing positions</span>
+            <span>{progress?.completed ?? 0}/{progress?.total ?? 0}</span>
+          </div>
+          <div className="h-2 bg-slate-800 rounded-full overflow-hidden">
+            <div className="h-full bg-rose-500 transition-all duration-300" style={{ width: `${percent}%` }} />
+          </div>
+        </div>
+      )}
+
+      {review && (
+        <div className="p-4 space-y-4">
+          <EvalGraph values={review.evalGraph} />
+          <div className="flex gap-3">
+            <SideCard label="White" summary={review.white} />
+            <SideCard label="Black" summary={review.black} />
+          </div>
+          <div className="max-h-56 overflow-y-auto custom-scrollbar grid grid-cols-2 gap-x-4 gap-y-1 font-mono text-[11px]">
+            {review.moves.map(m => (
+              <div key={m.ply} className="flex justify-between px-2 py-0.5 rounded hover:bg-slate-800/60">
+                <span className="text-slate-600 w-10">{m.moveNumber}{m.color === 'w' ? '.' : '...'}</span>
+                <span className={`flex-1 font-bold ${CLASS_STYLES[m.classification]}`}>{m.san}{CLASS_SYMBOL[m.classification]}</span>
+                <span className="text-slate-600">-{Math.round(m.centipawnLoss)}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReviewPanel;
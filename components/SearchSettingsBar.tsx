@@ -0,0 +1,61 @@
+import React from 'react';
+import { SearchSettings, SearchLimit, MAX_MULTI_PV } from '../services/engineService';
+
+/**
+ * SEARCH SETTINGS BAR
+ * MultiPV and search limit (depth, movetime or infinite) for the live engine.
+ */
+
+interface SearchSettingsBarProps {
+  settings: SearchSettings;
+  onChange: (update: Partial<SearchSettings>) => void;
+}
+
+const LIMIT_LABELS: Record<SearchLimit, string> = {
+  depth: 'Depth',
+  movetime: 'Time',
+  infinite: 'Infinite'
+};
+
+const SearchSettingsBar: React.FC<SearchSettingsBarProps> = ({ settings, onChange }) => {
+  const selectClass = 'bg-slate-900/80 border border-slate-800 rounded-lg px-2 py-1 text-[10px] font-black uppercase text-slate-300 outline-none';
+
+  return (
+    <div className="px-4 py-3 border-b border-white/5 flex items-center gap-2 shrink-0 bg-slate-900/20">
+      <label className="flex items-center gap-1.5 text-[9px] font-black uppercase text-slate-500">
+        Lines
+        <select value={settings.multiPv} onChange={e => onChange({ multiPv: parseInt(e.target.value) })} className={selectClass}>
+          {Array.from({ length: MAX_MULTI_PV }, (_, i) => i + 1).map(n => <option key={n} value={n}>{n}</option>)}
+        </select>
+      </label>
+      <select value={settings.limit} onChange={e => onChange({ limit: e.target.value as SearchLimit })} className={selectClass}>
+        {(Object.keys(LIMIT_LABELS) as SearchLimit[]).map(l => <option key={l} value={l}>{LIMIT_LABELS[l]}</option>)}
+      </select>
+      {settings.limit === 'depth' && (
+        <input
+          type="number"
+          min={1}
+          max={40}
+          value={settings.depth}
+          onChange={e => onChange({ depth: Math.max(1, parseInt(e.target.value) || 1) })}
+          className={`${selectClass} w-14`}
+        />
+      )}
+      {settings.limit === 'movetime' && (
+        <label className="flex items-center gap-1 text-[9px] font-black uppercase text-slate-500">
+          <input
+            type="number"
+            min={0.1}
+            step={0.5}
+            value={settings.movetime / 1000}
+            onChange={e => onChange({ movetime: Math.max(100, Math.round((parseFloat(e.target.value) || 0.1) * 1000)) })}
+            className={`${selectClass} w-14`}
+          />
+          s
+        </label>
+      )}
+    </div>
+  );
+};
+
+export default SearchSettingsBar;
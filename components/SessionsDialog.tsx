@@ -0,0 +1,116 @@
+import React from 'react';
+import { History, X, Play, Trash2 } from 'lucide-react';
+import { SessionSnapshot, sessionPlies, sessionTitle } from '../services/sessionService';
+
+/**
+ * SESSIONS DIALOG
+ * Saved sessions, newest first. On start it leads with the session that was interrupted and
+ * asks whether to pick it up again; otherwise old sessions can be resumed or deleted.
+ */
+
+interface SessionsDialogProps {
+  sessions: SessionSnapshot[] | null;
+  currentId: string;
+  /** An open session from before this start, offered for resuming. */
+  interrupted: SessionSnapshot | null;
+  onResume: (session: SessionSnapshot) => void;
+  onStartNew: () => void;
+  onDelete: (id: string) => void;
+  onDeleteEnded: () => void;
+  onClose: () => void;
+}
+
+const formatSaved = (time: number) =>
+  new Date(time).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const SessionsDialog: React.FC<SessionsDialogProps> = ({
+  sessions, currentId, interrupted, onResume, onStartNew, onDelete, onDeleteEnded, onClose
+}) => {
+  const others = (sessions ?? []).filter(s => s.id !== interrupted?.id);
+  const hasEnded = others.some(s => s.ended && s.id !== currentId);
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/70 flex items-center justify-center p-6" onClick={onClose}>
+      <div className="w-full max-w-lg glass rounded-2xl border border-white/10 shadow-2xl" onClick={e => e.stopPropagation()}>
+        <div className="p-4 border-b border-white/5 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <History className="w-4 h-4 text-rose-500" />
+            <h2 className="text-xs font-black uppercase tracking-widest text-white">Sessions</h2>
+          </div>
+          <button onClick={onClose} className="text-slate-500 hover:text-white">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-3">
+          {interrupted && (
+            <div className="p-3 bg-rose-600/10 border border-rose-500/30 rounded-xl space-y-3">
+              <div>
+                <div className="text-[10px] font-black uppercase tracking-widest text-rose-300">Interrupted session</div>
+                <div className="text-sm font-bold text-white mt-1">{sessionTitle(interrupted)}</div>
+                <div className="text-[10px] font-mono text-slate-400">
+                  {sessionPlies(interrupted)} plies • last saved {formatSaved(interrupted.updatedAt)}
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => onResume(interrupted)}
+                  className="flex-1 py-2.5 bg-rose-600 hover:bg-rose-500 rounded-xl text-[10px] font-black uppercase text-white"
+                >
+                  Resume
+                </button>
+                <button
+                  onClick={onStartNew}
+                  className="flex-1 py-2.5 bg-slate-900 hover:bg-slate-800 rounded-xl text-[10px] font-black uppercase border border-slate-800 text-slate-400"
+                >
+                  Start new
+                </button>
+              </div>
+            </div>
+          )}
+
+          {sessions === null ? (
+            <p className="text-[10px] text-slate-500">Loading saved sessions…</p>
+          ) : others.length === 0 ? (
+            !interrupted && <p className="text-[10px] text-slate-500">No saved sessions. A game is saved here as soon as it has moves.</p>
+          ) : (
+            <div className="max-h-72 overflow-y-auto custom-scrollbar space-y-1.5">
+              {others.map(session => (
+                <div key={session.id} className="flex items-center gap-3 px-3 py-2 bg-slate-900/60 rounded-lg border border-white/5">
+                  <div className="flex-1 min-w-0">
+                    <div className="text-[11px] font-bold text-slate-200 truncate">{sessionTitle(session)}</div>
+                    <div className="text-[10px] font-mono text-slate-500">
+                      {sessionPlies(session)} plies • {formatSaved(session.updatedAt)}
+                      {session.id === currentId ? ' • current' : session.ended ? '' : ' • open'}
+                    </div>
+                  </div>
+                  {session.id !== currentId && (
+                    <>
+                      <button onClick={() => onResume(session)} className="p-1.5 bg-slate-900 hover:bg-slate-800 rounded-lg text-slate-400 border border-slate-800" title="Resume">
+                        <Play className="w-3.5 h-3.5" />
+                      </button>
+                      <button onClick={() => onDelete(session.id)} className="p-1.5 bg-slate-900 hover:bg-slate-800 rounded-lg text-slate-400 hover:text-rose-400 border border-slate-800" title="Delete">
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </button>
+                    </>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {hasEnded && (
+            <button
+              onClick={onDeleteEnded}
+              className="w-full py-2.5 bg-slate-900 hover:bg-slate-800 rounded-xl text-[10px] font-black uppercase border border-slate-800 text-slate-400"
+            >
+              Delete ended sessions
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SessionsDialog;
@@ -0,0 +1,52 @@
+import React from 'react';
+import { Database } from 'lucide-react';
+import { TablebaseCategory, TablebaseResult, describeTablebase, describeTablebaseMove } from '../services/tablebaseService';
+
+/**
+ * TABLEBASE PANEL
+ * Exact endgame verdict for the side to move and every legal move ranked by outcome.
+ */
+
+interface TablebasePanelProps {
+  result: TablebaseResult;
+  onPlayMove: (san: string) => void;
+}
+
+const MAX_MOVES = 6;
+
+const CATEGORY_COLORS: Record<TablebaseCategory, string> = {
+  'win': 'text-emerald-400',
+  'cursed-win': 'text-emerald-600',
+  'draw': 'text-slate-300',
+  'blessed-loss': 'text-rose-600',
+  'loss': 'text-rose-400',
+  'unknown': 'text-slate-500'
+};
+
+const TablebasePanel: React.FC<TablebasePanelProps> = ({ result, onPlayMove }) => {
+  const sideToMove = result.fen.split(' ')[1] === 'b' ? 'Black' : 'White';
+
+  return (
+    <div className="glass rounded-2xl border border-white/5 overflow-hidden shrink-0">
+      <div className="px-4 py-3 flex items-center gap-2 bg-slate-900/40">
+        <Database className="w-4 h-4 text-rose-500 shrink-0" />
+        <span className="text-[9px] font-black uppercase tracking-widest text-slate-500">Tablebase</span>
+        <span className={`ml-auto text-[11px] font-black ${CATEGORY_COLORS[result.category]}`}>
+          {sideToMove}: {describeTablebase(result)}
+        </span>
+      </div>
+      {result.moves.length > 0 && (
+        <div className="px-4 py-2 border-t border-white/5 space-y-1">
+          {result.moves.slice(0, MAX_MOVES).map(move => (
+            <button key={move.uci} onClick={() => onPlayMove(move.san)} className="w-full flex items-center gap-2 py-0.5 text-left group">
+              <span className="w-14 text-[11px] font-mono font-bold text-slate-200 group-hover:text-rose-400">{move.san}</span>
+              <span className={`flex-1 text-right text-[10px] font-bold ${CATEGORY_COLORS[move.category]}`}>{describeTablebaseMove(move)}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TablebasePanel;
@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import { Eye, X } from 'lucide-react';
+import { VisionSettings, listVisionProviders } from '../services/visionRegistry';
+import { MockVisionMode } from '../services/mockVisionService';
+
+/**
+ * VISION SETTINGS PANEL
+ * Picks the board recognizer and configures it: Gemini model and key, an OpenAI-compatible
+ * endpoint, or the fixture mock used in tests. The on-device recognizer needs no settings.
+ */
+
+interface VisionSettingsPanelProps {
+  settings: VisionSettings;
+  onChange: (settings: VisionSettings) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'bg-slate-900/80 border border-slate-800 rounded-lg px-2 py-1 text-[11px] text-slate-200 outline-none focus:border-rose-500/40';
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div className="flex items-center gap-2">
+    <span className="text-[10px] font-black uppercase tracking-widest text-slate-500 w-16 shrink-0">{label}</span>
+    {children}
+  </div>
+);
+
+const VisionSettingsPanel: React.FC<VisionSettingsPanelProps> = ({ settings, onChange, onClose }) => {
+  const [draft, setDraft] = useState<VisionSettings>(settings);
+  const providers = listVisionProviders();
+  const unchanged = JSON.stringify(draft) === JSON.stringify(settings);
+
+  const setGemini = (patch: Partial<VisionSettings['gemini']>) => setDraft(d => ({ ...d, gemini: { ...d.gemini, ...patch } }));
+  const setOpenAi = (patch: Partial<VisionSettings['openai']>) => setDraft(d => ({ ...d, openai: { ...d.openai, ...patch } }));
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/70 flex items-center justify-center p-6" onClick={onClose}>
+      <div className="w-full max-w-md glass rounded-2xl border border-white/10 shadow-2xl" onClick={e => e.stopPropagation()}>
+        <div className="p-4 border-b border-white/5 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Eye className="w-4 h-4 text-rose-500" />
+            <h2 className="text-xs font-black uppercase tracking-widest text-white">Vision Provider</h2>
+          </div>
+          <button onClick={onClose} className="text-slate-500 hover:text-white">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-3">
+          <div className="space-y-1.5">
+            {providers.map(p => (
+              <label
+                key={p.id}
+                className={`flex items-start gap-2 px-3 py-2 rounded-lg border cursor-pointer ${draft.provider === p.id ? 'bg-rose-600/15 border-rose-500/40' : 'bg-slate-900 border-slate-800 hover:bg-slate-800'}`}
+              >
+                <input
+                  type="radio"
+                  name="vision-provider"
+                  checked={draft.provider === p.id}
+                  onChange={() => setDraft(d => ({ ...d, provider: p.id }))}
+                  className="mt-0.5 accent-rose-600"
+                />
+                <span className="flex flex-col">
+                  <span className="text-[11px] font-bold text-slate-200">{p.label}</span>
+                  <span className="text-[9px] text-slate-500">{p.description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+
+          {draft.provider === 'gemini' && (
+            <>
+              <Field label="Model">
+                <input value={draft.gemini.model} onChange={e => setGemini({ model: e.target.value })} className={`${inputClass} flex-1 font-mono`} />
+              </Field>
+              <Field label="Key">
+                <input
+                  type="password"
+                  value={draft.gemini.apiKey}
+                  onChange={e => setGemini({ apiKey: e.target.value })}
+                  placeholder="Build-time API_KEY"
+                  className={`${inputClass} flex-1 font-mono`}
+                />
+              </Field>
+            </>
+          )}
+
+          {draft.provider === 'openai' && (
+            <>
+              <Field label="Endpoint">
+                <input value={draft.openai.baseUrl} onChange={e => setOpenAi({ baseUrl: e.target.value })} className={`${inputClass} flex-1 font-mono`} />
+              </Field>
+              <Field label="Model">
+                <input value={draft.openai.model} onChange={e => setOpenAi({ model: e.target.value })} className={`${inputClass} flex-1 font-mono`} />
+              </Field>
+              <Field label="Key">
+                <input
+                  type="password"
+                  value={draft.openai.apiKey}
+                  onChange={e => setOpenAi({ apiKey: e.target.value })}
+                  placeholder="Not needed for local servers"
+                  className={`${inputClass} flex-1 font-mono`}
+                />
+              </Field>
+            </>
+          )}
+
+          {draft.provider === 'mock' && (
+            <Field label="Fixtures">
+              <select
+                value={draft.mock.mode}
+                onChange={e => setDraft(d => ({ ...d, mock: { mode: e.target.value as MockVisionMode } }))}
+                className={`${inputClass} flex-1`}
+              >
+                <option value="sequence">Play back in order</option>
+                <option value="match">Match frame to fixture image</option>
+              </select>
+            </Field>
+          )}
+
+          <button
+            onClick={() => { onChange(draft); onClose(); }}
+            disabled={unchanged || (draft.provider === 'openai' && (!draft.openai.baseUrl.trim() || !draft.openai.model.trim()))}
+            className="w-full py-3 bg-rose-600 hover:bg-rose-500 disabled:opacity-30 rounded-xl text-[10px] font-black uppercase text-white"
+          >
+            Apply
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VisionSettingsPanel;
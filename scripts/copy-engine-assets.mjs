@@ -0,0 +1,33 @@
+/**
+ * Copies the Stockfish builds the app serves from node_modules into public/engine.
+ * Runs before dev and build so the engine never has to be fetched from a CDN.
+ */
+import { copyFileSync, existsSync, mkdirSync, statSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+const source = join(root, 'node_modules', 'stockfish', 'bin');
+const target = join(root, 'public', 'engine');
+
+// Keep in sync with ENGINE_BUILDS in services/engineService.ts
+const FILES = [
+  'stockfish-18-lite-single.js',
+  'stockfish-18-lite-single.wasm',
+  'stockfish-18-asm.js'
+];
+
+if (!existsSync(source)) {
+  console.error('stockfish package missing: run npm install first.');
+  process.exit(1);
+}
+
+mkdirSync(target, { recursive: true });
+
+for (const file of FILES) {
+  const from = join(source, file);
+  const to = join(target, file);
+  if (existsSync(to) && statSync(to).size === statSync(from).size) continue;
+  copyFileSync(from, to);
+  console.log(`engine: copied ${file}`);
+}
@@ -0,0 +1,150 @@
+/**
+ * RELAY STAND-IN
+ * Collects the games of a tournament round from the boards being recorded and serves them as a
+ * PGN broadcast source, the way lichess and ChessBase broadcast tools poll one:
+ *   GET /games.pgn        every board, in board order, separated by blank lines
+ *   GET /boards/N.pgn     board N only
+ *   PUT /boards/N         replaces board N's game (the app does this as moves are released)
+ *   DELETE /boards/N      drops board N
+ * Writes come from this machine only, and from a browser only when the page is the app itself
+ * (a localhost origin, or those given with --origin), so other sites open in the browser cannot
+ * touch the boards. With --token, any machine that sends "Authorization: Bearer <token>" may
+ * write instead. The app applies the move delay before sending, so everything served here is
+ * safe to show. With --store the games survive a restart.
+ *
+ *   npm run relay -- [--port 8080] [--host 0.0.0.0] [--token secret] [--store round.json] [--origin url]
+ */
+import { createServer } from 'node:http';
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { Chess } from 'chess.js';
+
+const config = { port: 8080, host: '127.0.0.1', token: null, store: null, origins: [] };
+const args = process.argv.slice(2);
+for (let i = 0; i < args.length; i++) {
+  const [flag, inline] = args[i].split(/=(.*)/s, 2);
+  const value = inline ?? args[++i];
+  switch (flag) {
+    case '--port': config.port = parseInt(value); break;
+    case '--host': config.host = value; break;
+    case '--token': config.token = value; break;
+    case '--store': config.store = value; break;
+    case '--origin': config.origins.push(value); break;
+    default:
+      console.error(`Unknown flag ${flag}`);
+      process.exit(1);
+  }
+}
+
+// A game is a few kilobytes; anything far bigger is not one
+const MAX_BODY = 256 * 1024;
+
+const boards = new Map();
+if (config.store && existsSync(config.store)) {
+  for (const [board, pgn] of Object.entries(JSON.parse(readFileSync(config.store, 'utf8')))) boards.set(Number(board), pgn);
+}
+
+const saveStore = () => {
+  if (!config.store) return;
+  writeFileSync(config.store, JSON.stringify(Object.fromEntries(boards), null, 2));
+};
+
+const LOOPBACK = /^(127\.|::1$|::ffff:127\.)/;
+const LOCAL_ORIGIN = /^https?:\/\/(localhost|127\.0\.0\.1|\[::1\])(:\d+)?$/;
+
+// Browsers always send Origin on a cross-site write; refusing foreign ones stops any page open
+// on this machine from rewriting the round
+const originAllowed = (origin) => {
+  if (!origin) return true;
+  return config.origins.length > 0 ? config.origins.includes(origin) : LOCAL_ORIGIN.test(origin);
+};
+
+const mayWrite = (req) => {
+  if (config.token) return req.headers.authorization === `Bearer ${config.token}`;
+  return LOOPBACK.test(req.socket.remoteAddress || '') && originAllowed(req.headers.origin);
+};
+
+const readBody = (req) => new Promise((resolve, reject) => {
+  let body = '';
+  req.setEncoding('utf8');
+  req.on('data', chunk => {
+    body += chunk;
+    if (body.length > MAX_BODY) {
+      reject(new Error('Game too large'));
+      req.destroy();
+    }
+  });
+  req.on('end', () => resolve(body));
+  req.on('error', reject);
+});
+
+const allGames = () => [...boards.entries()]
+  .sort(([a], [b]) => a - b)
+  .map(([, pgn]) => pgn.trim())
+  .join('\n\n') + '\n';
+
+const server = createServer(async (req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  // Anyone may read the broadcast; only pages that may write are told they can
+  const writer = !!config.token || originAllowed(req.headers.origin);
+  res.setHeader('Access-Control-Allow-Methods', writer ? 'GET, PUT, DELETE, OPTIONS' : 'GET, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  // Pollers must always see the latest moves, never a cached copy
+  res.setHeader('Cache-Control', 'no-store');
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204).end();
+    return;
+  }
+
+  const url = new URL(req.url, 'http://relay');
+  const pgnHeaders = { 'Content-Type': 'application/x-chess-pgn; charset=utf-8' };
+
+  if (req.method === 'GET' && url.pathname === '/games.pgn') {
+    res.writeHead(200, pgnHeaders).end(boards.size ? allGames() : '');
+    return;
+  }
+
+  const match = url.pathname.match(/^\/boards\/(\d+)(\.pgn)?$/);
+  if (!match) {
+    res.writeHead(404).end();
+    return;
+  }
+  const board = Number(match[1]);
+
+  if (req.method === 'GET') {
+    if (!boards.has(board)) res.writeHead(404).end();
+    else res.writeHead(200, pgnHeaders).end(boards.get(board));
+    return;
+  }
+
+  if (req.method !== 'PUT' && req.method !== 'DELETE') {
+    res.writeHead(405).end();
+    return;
+  }
+  if (!mayWrite(req)) {
+    res.writeHead(403, { 'Content-Type': 'text/plain' }).end(config.token ? 'Writes need the relay token' : 'Writes only from the app on this machine');
+    return;
+  }
+
+  if (req.method === 'DELETE') {
+    boards.delete(board);
+    saveStore();
+    res.writeHead(204).end();
+    return;
+  }
+
+  try {
+    const pgn = await readBody(req);
+    // Spectators' tools choke on a broken game, so it is refused here instead
+    new Chess().loadPgn(pgn);
+    boards.set(board, pgn.trim() + '\n');
+    saveStore();
+    res.writeHead(204).end();
+  } catch (e) {
+    res.writeHead(400, { 'Content-Type': 'text/plain' }).end(`Invalid PGN: ${e.message}`);
+  }
+});
+
+server.listen(config.port, config.host, () => {
+  const writers = config.token ? 'any machine with the token' : 'the app on this machine only';
+  console.log(`Relay stand-in on http://${config.host}:${config.port}/games.pgn (${boards.size} boards, writes from ${writers})`);
+});
@@ -0,0 +1,115 @@
+/**
+ * TABLEBASE STAND-IN
+ * Serves GET /standard?fen=... in the lichess tablebase API format, for offline use and tests.
+ * Answers come from, in order:
+ *   1. a fixtures file of recorded responses (--fixtures, JSON object keyed by FEN),
+ *   2. an upstream tablebase (--upstream, e.g. a lila-tablebase over local Syzygy files); its
+ *      answers are written back to the fixtures file so the next session works offline,
+ *   3. positions the rules decide on their own: checkmate, stalemate and insufficient material.
+ * Anything else is a 404, which the app treats as "not in the tables".
+ *
+ *   npm run tablebase -- --fixtures tablebase-fixtures.json [--upstream http://127.0.0.1:9001]
+ */
+import { createServer } from 'node:http';
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { Chess } from 'chess.js';
+
+const config = { port: 9000, host: '127.0.0.1', fixtures: null, upstream: null };
+const args = process.argv.slice(2);
+for (let i = 0; i < args.length; i++) {
+  const [flag, inline] = args[i].split(/=(.*)/s, 2);
+  const value = inline ?? args[++i];
+  switch (flag) {
+    case '--port': config.port = parseInt(value); break;
+    case '--host': config.host = value; break;
+    case '--fixtures': config.fixtures = value; break;
+    case '--upstream': config.upstream = value.replace(/\/+$/, ''); break;
+    default:
+      console.error(`Unknown flag ${flag}`);
+      process.exit(1);
+  }
+}
+
+// Move counters do not change the verdict, so recorded answers are keyed without them
+const fixtureKey = (fen) => fen.trim().split(/\s+/).slice(0, 4).join(' ');
+
+const fixtures = new Map();
+if (config.fixtures && existsSync(config.fixtures)) {
+  for (const [fen, response] of Object.entries(JSON.parse(readFileSync(config.fixtures, 'utf8')))) {
+    fixtures.set(fixtureKey(fen), response);
+  }
+}
+
+const saveFixtures = () => {
+  if (!config.fixtures) return;
+  writeFileSync(config.fixtures, JSON.stringify(Object.fromEntries(fixtures), null, 2));
+};
+
+const position = (game, category) => ({
+  checkmate: game.isCheckmate(),
+  stalemate: game.isStalemate(),
+  insufficient_material: game.isInsufficientMaterial(),
+  category,
+  dtz: category === 'draw' ? 0 : null,
+  dtm: game.isCheckmate() ? 0 : null
+});
+
+/**
+ * Verdicts that need no tables: the game is over, or neither side can ever mate.
+ */
+const decideByRules = (fen) => {
+  const game = new Chess(fen);
+  if (game.isCheckmate()) return { ...position(game, 'loss'), moves: [] };
+  if (game.isStalemate()) return { ...position(game, 'draw'), moves: [] };
+  if (!game.isInsufficientMaterial()) return null;
+  const moves = game.moves({ verbose: true }).map(move => ({
+    uci: move.from + move.to + (move.promotion || ''),
+    san: move.san,
+    zeroing: Boolean(move.captured) || move.piece === 'p',
+    ...position(new Chess(move.after), 'draw')
+  }));
+  return { ...position(game, 'draw'), moves };
+};
+
+const fromUpstream = async (fen) => {
+  if (!config.upstream) return null;
+  const response = await fetch(`${config.upstream}/standard?fen=${encodeURIComponent(fen)}`);
+  if (!response.ok) return null;
+  const body = await response.json();
+  fixtures.set(fixtureKey(fen), body);
+  saveFixtures();
+  return body;
+};
+
+const server = createServer(async (req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  const url = new URL(req.url, 'http://tablebase');
+  if (req.method !== 'GET' || url.pathname !== '/standard') {
+    res.writeHead(404).end();
+    return;
+  }
+
+  const fen = url.searchParams.get('fen') || '';
+  try {
+    new Chess(fen);
+  } catch (e) {
+    res.writeHead(400, { 'Content-Type': 'text/plain' }).end(`Invalid FEN: ${e.message}`);
+    return;
+  }
+
+  try {
+    const answer = fixtures.get(fixtureKey(fen)) ?? (await fromUpstream(fen)) ?? decideByRules(fen);
+    if (!answer) {
+      res.writeHead(404).end();
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify(answer));
+  } catch (e) {
+    res.writeHead(502, { 'Content-Type': 'text/plain' }).end(String(e.message || e));
+  }
+});
+
+server.listen(config.port, config.host, () => {
+  const sources = [config.fixtures && `${fixtures.size} fixtures`, config.upstream && `upstream ${config.upstream}`, 'rules'].filter(Boolean);
+  console.log(`Tablebase stand-in on http://${config.host}:${config.port} (${sources.join(', ')})`);
+});
@@ -0,0 +1,146 @@
+/**
+ * UCI BRIDGE
+ * Exposes native UCI engines installed on this machine to the app over a WebSocket.
+ * Every connection spawns its own engine process: text frames go to stdin line by line and
+ * every stdout line comes back as one frame. Only engines named on the command line can be
+ * started, and by default the server listens on the loopback interface only. Listening on any
+ * other interface needs --token; clients then add ?token=<token> to the bridge URL.
+ *
+ *   npm run bridge -- --engine stockfish=/usr/local/bin/stockfish --engine lc0=/opt/lc0/lc0
+ *
+ * Flags: --engine name=path (repeatable), --port (default 8765), --host (default 127.0.0.1),
+ * --token, --origin (repeatable; defaults to any localhost origin).
+ */
+import { spawn } from 'node:child_process';
+import { createServer } from 'node:http';
+import { createInterface } from 'node:readline';
+import { WebSocketServer } from 'ws';
+
+const parseArgs = (argv) => {
+  const config = { port: 8765, host: '127.0.0.1', token: null, engines: new Map(), origins: [] };
+  for (let i = 0; i < argv.length; i++) {
+    const [flag, inline] = argv[i].split(/=(.*)/s, 2);
+    const value = inline ?? argv[++i];
+    switch (flag) {
+      case '--port': config.port = parseInt(value); break;
+      case '--host': config.host = value; break;
+      case '--token': config.token = value; break;
+      case '--origin': config.origins.push(value); break;
+      case '--engine': {
+        const split = value?.indexOf('=') ?? -1;
+        if (split <= 0) throw new Error(`--engine expects name=path, got "${value}"`);
+        config.engines.set(value.slice(0, split), value.slice(split + 1));
+        break;
+      }
+      default: throw new Error(`Unknown flag ${flag}`);
+    }
+  }
+  return config;
+};
+
+let config;
+try {
+  config = parseArgs(process.argv.slice(2));
+} catch (e) {
+  console.error(e.message);
+  process.exit(1);
+}
+if (config.engines.size === 0) {
+  console.error('No engines configured. Usage: npm run bridge -- --engine stockfish=/path/to/stockfish');
+  process.exit(1);
+}
+
+const LOOPBACK_HOST = /^(localhost|127(\.\d+){3}|::1)$/;
+
+// Clients without a browser send no Origin, so off the loopback interface only a token keeps
+// other machines from starting engines here
+if (!LOOPBACK_HOST.test(config.host) && !config.token) {
+  console.error(`Listening on ${config.host} needs --token; only loopback hosts may run without one.`);
+  process.exit(1);
+}
+
+// WebSocket close reasons are capped at 123 bytes; ws throws on anything longer
+const MAX_REASON = 120;
+const closeReason = (text) => {
+  const bytes = Buffer.from(text);
+  return bytes.length <= MAX_REASON ? text : bytes.subarray(0, MAX_REASON).toString().replace(/\uFFFD+$/, '');
+};
+
+const LOCAL_ORIGIN = /^https?:\/\/(localhost|127\.0\.0\.1|\[::1\])(:\d+)?$/;
+
+// Browsers always send Origin; refusing foreign ones stops arbitrary web pages driving the engines
+const originAllowed = (origin) => {
+  if (!origin) return true;
+  return config.origins.length > 0 ? config.origins.includes(origin) : LOCAL_ORIGIN.test(origin);
+};
+
+// Browsers cannot set headers on a WebSocket, so the token travels in the query string
+const tokenAllowed = (url) => !config.token || new URL(url, 'http://bridge').searchParams.get('token') === config.token;
+
+const server = createServer((req, res) => {
+  const origin = req.headers.origin;
+  if (!originAllowed(origin) || !tokenAllowed(req.url)) {
+    res.writeHead(403).end();
+    return;
+  }
+  if (origin) res.setHeader('Access-Control-Allow-Origin', origin);
+  if (req.method === 'GET' && new URL(req.url, 'http://bridge').pathname === '/engines') {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify([...config.engines.keys()]));
+    return;
+  }
+  res.writeHead(404).end();
+});
+
+const wss = new WebSocketServer({
+  server,
+  verifyClient: ({ origin, req }) => originAllowed(origin) && tokenAllowed(req.url)
+});
+
+wss.on('connection', (socket, req) => {
+  const name = new URL(req.url, 'http://bridge').searchParams.get('engine') || '';
+  const path = config.engines.get(name);
+  if (!path) {
+    // The name comes from the client, so it is not echoed back
+    socket.close(4004, 'Unknown engine');
+    return;
+  }
+
+  const child = spawn(path, [], { stdio: ['pipe', 'pipe', 'inherit'] });
+  let exited = false;
+  console.log(`[${name}] started (pid ${child.pid})`);
+  // Writes after the engine has gone fail with EPIPE; the exit handler already closes the socket
+  child.stdin.on('error', (e) => console.error(`[${name}] stdin: ${e.message}`));
+
+  createInterface({ input: child.stdout }).on('line', (line) => {
+    if (socket.readyState === socket.OPEN) socket.send(line);
+  });
+
+  child.on('error', (e) => {
+    exited = true;
+    socket.close(1011, closeReason(`Could not start ${name}: ${e.message}`));
+  });
+  child.on('exit', (code, signal) => {
+    exited = true;
+    console.log(`[${name}] exited (${signal || code})`);
+    if (socket.readyState === socket.OPEN) socket.close(1011, closeReason(`${name} exited (${signal || code})`));
+  });
+
+  socket.on('message', (data, isBinary) => {
+    if (isBinary || exited) return;
+    for (const line of data.toString().split('\n')) {
+      if (line.trim()) child.stdin.write(`${line.trim()}\n`);
+    }
+  });
+
+  // Give the engine a moment to honour "quit" before killing it
+  socket.on('close', () => {
+    if (exited) return;
+    child.stdin.end('quit\n');
+    setTimeout(() => { if (!exited) child.kill(); }, 1000).unref();
+  });
+});
+
+server.listen(config.port, config.host, () => {
+  console.log(`UCI bridge on ws://${config.host}:${config.port} serving: ${[...config.engines.keys()].join(', ')}`);
+});
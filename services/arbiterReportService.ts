@@ -0,0 +1,396 @@
+import { Chess } from 'chess.js';
+import { batchAnalyzer, BatchJob, BatchProgress, EvaluatedLine, PositionEvaluation } from './engineService';
+import { RecordedMove } from './gameRecordService';
+import { buildReview, expandGame } from './reviewService';
+
+/**
+ * ARBITER REPORT SERVICE
+ * PURPOSE: Post-game fair-play report for arbiters reviewing recorded over-the-board games.
+ * Every position is analysed with the three best engine lines. Moves that say nothing about
+ * engine use (book moves, forced replies, positions already decided) are left out, and each
+ * player's engine match rates and centipawn loss are held against reference bands for their
+ * rating. Timing is added when the moves carry clock times or were captured live.
+ */
+
+export type GamePhase = 'opening' | 'middlegame' | 'endgame';
+
+/** Why a move is not counted: still in the book, the only reasonable move, or a game already decided. */
+export type ExclusionReason = 'book' | 'forced' | 'decided';
+
+/**
+ * Expected range for players of one rating band. A value past a limit is not proof of anything;
+ * it marks the game for a closer look.
+ */
+export interface ReferenceBand {
+  label: string;
+  minRating: number;
+  maxRating: number;
+  /** Highest top-1 match rate (%) usual for the band. */
+  maxTop1: number;
+  maxTop3: number;
+  /** Lowest average centipawn loss usual for the band. */
+  minAcpl: number;
+}
+
+export interface ReportMove {
+  ply: number;
+  moveNumber: number;
+  color: 'w' | 'b';
+  san: string;
+  /** Engine moves in UCI notation, best first. */
+  engineMoves: string[];
+  phase: GamePhase;
+  excluded: ExclusionReason | null;
+  top1: boolean;
+  top3: boolean;
+  centipawnLoss: number;
+  /** Engine lines within CLOSE_MARGIN of the best; more of them makes a harder choice. */
+  alternatives: number;
+  thinkSeconds: number | null;
+}
+
+export type ReportMetric = 'top1' | 'top3' | 'acpl';
+
+export interface MetricCheck {
+  metric: ReportMetric;
+  value: number;
+  limit: number;
+  outside: boolean;
+}
+
+export interface TimeUse {
+  source: 'clock' | 'recording';
+  moves: number;
+  meanSeconds: number;
+  /** Standard deviation over mean; engine relays tend to give even timing. */
+  variation: number;
+  /** Pearson correlation of time spent with the number of close alternatives; null on too little data. */
+  complexityCorrelation: number | null;
+}
+
+export interface PlayerReport {
+  color: 'w' | 'b';
+  name: string;
+  rating: number | null;
+  movesPlayed: number;
+  movesCounted: number;
+  excluded: Record<ExclusionReason, number>;
+  /** Percentages of the counted moves. */
+  top1Rate: number;
+  top3Rate: number;
+  averageCentipawnLoss: number;
+  phases: Record<GamePhase, { moves: number; averageCentipawnLoss: number }>;
+  timeUse: TimeUse | null;
+  band: ReferenceBand | null;
+  checks: MetricCheck[];
+  /** Too few counted moves for the rates to mean much. */
+  smallSample: boolean;
+}
+
+export interface ArbiterReport {
+  generatedAt: string;
+  event: string;
+  startFen: string;
+  depth: number;
+  method: {
+    multiPv: number;
+    onlyMoveGap: number;
+    decidedAt: number;
+    closeMargin: number;
+    minSample: number;
+  };
+  moves: ReportMove[];
+  white: PlayerReport;
+  black: PlayerReport;
+}
+
+export interface ReportPlayers {
+  white: { name: string; rating: number | null };
+  black: { name: string; rating: number | null };
+}
+
+const MULTI_PV = 3;
+// A reply is forced when the next best line is this much worse (centipawns)
+const ONLY_MOVE_GAP = 200;
+// Past this evaluation for either side the result is settled and accuracy no longer tells much
+const DECIDED_AT = 300;
+// Lines this close to the best count as real alternatives
+const CLOSE_MARGIN = 50;
+// Counted moves below which a player's rates are marked as a small sample
+const MIN_SAMPLE = 20;
+// Timed moves needed before a correlation is reported
+const MIN_TIMED = 10;
+// Non-pawn material (N/B 3, R 5, Q 9, both sides, 62 at the start) at which the endgame begins
+const ENDGAME_MATERIAL = 26;
+const OPENING_MOVES = 12;
+const LINE_CLAMP = 1000;
+
+const BANDS_KEY = 'chessVision.referenceBands';
+
+// Starting points drawn from published engine-matching studies; arbiters should tune them to their pool
+export const DEFAULT_REFERENCE_BANDS: ReferenceBand[] = [
+  { label: 'Under 1600', minRating: 0, maxRating: 1600, maxTop1: 45, maxTop3: 70, minAcpl: 45 },
+  { label: '1600-1999', minRating: 1600, maxRating: 2000, maxTop1: 50, maxTop3: 76, minAcpl: 35 },
+  { label: '2000-2399', minRating: 2000, maxRating: 2400, maxTop1: 57, maxTop3: 82, minAcpl: 25 },
+  { label: '2400 and up', minRating: 2400, maxRating: 4000, maxTop1: 65, maxTop3: 88, minAcpl: 15 }
+];
+
+export const loadReferenceBands = (): ReferenceBand[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(BANDS_KEY) || 'null');
+    if (Array.isArray(parsed) && parsed.length > 0) return parsed;
+  } catch (e) {}
+  return DEFAULT_REFERENCE_BANDS.map(band => ({ ...band }));
+};
+
+export const saveReferenceBands = (bands: ReferenceBand[]) => {
+  try {
+    localStorage.setItem(BANDS_KEY, JSON.stringify(bands));
+  } catch (e) {
+    console.error("Reference band storage failure:", e);
+  }
+};
+
+export const bandFor = (bands: ReferenceBand[], rating: number | null): ReferenceBand | null =>
+  rating === null ? null : bands.find(band => rating >= band.minRating && rating < band.maxRating) ?? null;
+
+const lineCp = (line: EvaluatedLine): number => {
+  if (line.mate !== null) return line.mate > 0 ? LINE_CLAMP : -LINE_CLAMP;
+  return Math.max(-LINE_CLAMP, Math.min(LINE_CLAMP, line.cp ?? 0));
+};
+
+const phaseOf = (fen: string, moveNumber: number): GamePhase => {
+  const values: Record<string, number> = { n: 3, b: 3, r: 5, q: 9 };
+  const material = [...fen.split(' ')[0].toLowerCase()].reduce((sum, c) => sum + (values[c] || 0), 0);
+  if (material <= ENDGAME_MATERIAL) return 'endgame';
+  return moveNumber <= OPENING_MOVES ? 'opening' : 'middlegame';
+};
+
+/**
+ * Time each move took: from the clock times when the moves have them, else from when the moves
+ * were recorded. Imported games without [%clk] comments have no timing.
+ */
+const thinkTimes = (moves: RecordedMove[], incrementSeconds: number): { source: TimeUse['source']; seconds: (number | null)[] } | null => {
+  const clocks = moves.map(m => m.clock ?? null);
+  if (clocks.some(c => c !== null)) {
+    const seconds = clocks.map((clock, i) => clock !== null && i >= 2 && clocks[i - 2] !== null ? Math.max(0, clocks[i - 2]! - clock + incrementSeconds) : null);
+    return { source: 'clock', seconds };
+  }
+  if (moves.some(m => m.timestamp > 0)) {
+    const seconds = moves.map((m, i) => i > 0 && m.timestamp > 0 && moves[i - 1].timestamp > 0 ? (m.timestamp - moves[i - 1].timestamp) / 1000 : null);
+    return { source: 'recording', seconds };
+  }
+  return null;
+};
+
+const average = (values: number[]) => values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+const pearson = (xs: number[], ys: number[]): number | null => {
+  const mx = average(xs);
+  const my = average(ys);
+  let sxy = 0;
+  let sxx = 0;
+  let syy = 0;
+  xs.forEach((x, i) => {
+    sxy += (x - mx) * (ys[i] - my);
+    sxx += (x - mx) ** 2;
+    syy += (ys[i] - my) ** 2;
+  });
+  return sxx > 0 && syy > 0 ? sxy / Math.sqrt(sxx * syy) : null;
+};
+
+const timeUseOf = (moves: ReportMove[], source: TimeUse['source']): TimeUse | null => {
+  const timed = moves.filter(m => m.excluded === null && m.thinkSeconds !== null);
+  if (timed.length === 0) return null;
+  const seconds = timed.map(m => m.thinkSeconds!);
+  const mean = average(seconds);
+  const deviation = Math.sqrt(average(seconds.map(s => (s - mean) ** 2)));
+  const correlation = timed.length >= MIN_TIMED ? pearson(seconds, timed.map(m => m.alternatives)) : null;
+  return {
+    source,
+    moves: timed.length,
+    meanSeconds: round1(mean),
+    variation: mean > 0 ? Math.round((deviation / mean) * 100) / 100 : 0,
+    complexityCorrelation: correlation === null ? null : Math.round(correlation * 100) / 100
+  };
+};
+
+const playerReport = (
+  color: 'w' | 'b',
+  player: ReportPlayers['white'],
+  moves: ReportMove[],
+  timeSource: TimeUse['source'] | null,
+  bands: ReferenceBand[]
+): PlayerReport => {
+  const own = moves.filter(m => m.color === color);
+  const counted = own.filter(m => m.excluded === null);
+  const excluded: Record<ExclusionReason, number> = { book: 0, forced: 0, decided: 0 };
+  own.forEach(m => { if (m.excluded) excluded[m.excluded]++; });
+  const rate = (hits: number) => counted.length ? round1((hits / counted.length) * 100) : 0;
+  const acpl = (list: ReportMove[]) => Math.round(average(list.map(m => m.centipawnLoss)));
+  const phases = {} as PlayerReport['phases'];
+  (['opening', 'middlegame', 'endgame'] as GamePhase[]).forEach(phase => {
+    const inPhase = counted.filter(m => m.phase === phase);
+    phases[phase] = { moves: inPhase.length, averageCentipawnLoss: acpl(inPhase) };
+  });
+
+  const top1Rate = rate(counted.filter(m => m.top1).length);
+  const top3Rate = rate(counted.filter(m => m.top3).length);
+  const averageCentipawnLoss = acpl(counted);
+  const band = bandFor(bands, player.rating);
+  const checks: MetricCheck[] = band && counted.length > 0 ? [
+    { metric: 'top1', value: top1Rate, limit: band.maxTop1, outside: top1Rate > band.maxTop1 },
+    { metric: 'top3', value: top3Rate, limit: band.maxTop3, outside: top3Rate > band.maxTop3 },
+    { metric: 'acpl', value: averageCentipawnLoss, limit: band.minAcpl, outside: averageCentipawnLoss < band.minAcpl }
+  ] : [];
+
+  return {
+    color,
+    name: player.name,
+    rating: player.rating,
+    movesPlayed: own.length,
+    movesCounted: counted.length,
+    excluded,
+    top1Rate,
+    top3Rate,
+    averageCentipawnLoss,
+    phases,
+    timeUse: timeSource ? timeUseOf(own, timeSource) : null,
+    band,
+    checks,
+    smallSample: counted.length < MIN_SAMPLE
+  };
+};
+
+/**
+ * Builds the report from multi-PV evaluations of every position, start included. The first
+ * bookPlies moves of the game are treated as book.
+ */
+export const buildArbiterReport = (
+  startFen: string,
+  moves: RecordedMove[],
+  evaluations: PositionEvaluation[],
+  options: { players: ReportPlayers; bands: ReferenceBand[]; bookPlies: number; depth: number; incrementSeconds?: number; event?: string }
+): ArbiterReport => {
+  const sans = moves.map(m => m.san);
+  const { fens, played } = expandGame(startFen, sans);
+  const reviewed = buildReview(startFen, sans, evaluations).moves;
+  const timing = thinkTimes(moves, options.incrementSeconds ?? 0);
+
+  const reportMoves: ReportMove[] = played.map((p, i) => {
+    const lines = evaluations[i].lines.length ? evaluations[i].lines : evaluations[i].bestMove ? [{ move: evaluations[i].bestMove!, cp: evaluations[i].cp, mate: evaluations[i].mate }] : [];
+    const engineMoves = lines.map(l => l.move);
+    const best = lines.length ? lineCp(lines[0]) : 0;
+    const legalMoves = new Chess(fens[i]).moves().length;
+    // The mover's view of the position before the move, from the same clamped scale as the review
+    const standing = (p.color === 'w' ? 1 : -1) * reviewed[i].evalBefore;
+
+    let excluded: ExclusionReason | null = null;
+    if (i < options.bookPlies) excluded = 'book';
+    else if (legalMoves === 1 || (lines.length > 1 && best - lineCp(lines[1]) >= ONLY_MOVE_GAP)) excluded = 'forced';
+    else if (Math.abs(standing) > DECIDED_AT) excluded = 'decided';
+
+    return {
+      ply: i + 1,
+      moveNumber: p.moveNumber,
+      color: p.color,
+      san: p.san,
+      engineMoves,
+      phase: phaseOf(fens[i], p.moveNumber),
+      excluded,
+      top1: engineMoves[0] === p.uci,
+      top3: engineMoves.slice(0, MULTI_PV).includes(p.uci),
+      centipawnLoss: reviewed[i].centipawnLoss,
+      alternatives: Math.max(1, lines.filter(l => best - lineCp(l) <= CLOSE_MARGIN).length),
+      thinkSeconds: timing?.seconds[i] ?? null
+    };
+  });
+
+  return {
+    generatedAt: new Date().toISOString(),
+    event: options.event || 'Recorded game',
+    startFen,
+    depth: options.depth,
+    method: { multiPv: MULTI_PV, onlyMoveGap: ONLY_MOVE_GAP, decidedAt: DECIDED_AT, closeMargin: CLOSE_MARGIN, minSample: MIN_SAMPLE },
+    moves: reportMoves,
+    white: playerReport('w', options.players.white, reportMoves, timing?.source ?? null, options.bands),
+    black: playerReport('b', options.players.black, reportMoves, timing?.source ?? null, options.bands)
+  };
+};
+
+/**
+ * Queues the multi-PV analysis of a game on the batch analyzer; progress counts analysed positions.
+ */
+export const runArbiterReport = (
+  startFen: string,
+  moves: RecordedMove[],
+  options: { players: ReportPlayers; bands: ReferenceBand[]; bookPlies: number; depth?: number; incrementSeconds?: number; event?: string },
+  onProgress?: (p: BatchProgress) => void
+): { promise: Promise<ArbiterReport>; cancel: BatchJob['cancel'] } => {
+  const depth = options.depth ?? 16;
+  const { fens } = expandGame(startFen, moves.map(m => m.san));
+  const job = batchAnalyzer.analyze(fens, depth, onProgress, MULTI_PV);
+  return {
+    promise: job.promise.then(evaluations => buildArbiterReport(startFen, moves, evaluations, { ...options, depth })),
+    cancel: job.cancel
+  };
+};
+
+export const METRIC_LABELS: Record<ReportMetric, string> = {
+  top1: 'Top-1 match',
+  top3: 'Top-3 match',
+  acpl: 'Average centipawn loss'
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const playerHtml = (player: PlayerReport): string => {
+  const title = `${player.color === 'w' ? 'White' : 'Black'}: ${player.name || 'unnamed'}${player.rating !== null ? ` (${player.rating})` : ''}`;
+  const checks = player.checks.length
+    ? player.checks.map(c => `<tr><td>${METRIC_LABELS[c.metric]}</td><td>${c.value}${c.metric === 'acpl' ? '' : '%'}</td><td>${c.metric === 'acpl' ? '&ge;' : '&le;'} ${c.limit}${c.metric === 'acpl' ? '' : '%'}</td><td class="${c.outside ? 'out' : ''}">${c.outside ? 'outside band' : 'within band'}</td></tr>`).join('')
+    : `<tr><td colspan="4">${player.rating === null ? 'No rating given, so no band to compare with.' : 'No reference band covers this rating.'}</td></tr>`;
+  const phases = (Object.keys(player.phases) as GamePhase[])
+    .map(phase => `<tr><td>${phase}</td><td>${player.phases[phase].moves}</td><td>${player.phases[phase].averageCentipawnLoss}</td></tr>`).join('');
+  const time = player.timeUse
+    ? `<p>Timing from ${player.timeUse.source === 'clock' ? 'clock times' : 'recording times'}: ${player.timeUse.moves} moves, mean ${player.timeUse.meanSeconds}s, variation ${player.timeUse.variation}, correlation with complexity ${player.timeUse.complexityCorrelation ?? 'n/a'}.</p>`
+    : '<p>No timing data.</p>';
+  return `<section>
+<h2>${escapeHtml(title)}</h2>
+<p>${player.movesCounted} of ${player.movesPlayed} moves counted (book ${player.excluded.book}, forced ${player.excluded.forced}, decided ${player.excluded.decided})${player.smallSample ? ' <strong>small sample</strong>' : ''}. Band: ${player.band ? escapeHtml(player.band.label) : 'none'}.</p>
+<table><tr><th>Metric</th><th>Value</th><th>Band</th><th></th></tr>${checks}</table>
+<table><tr><th>Phase</th><th>Moves</th><th>ACPL</th></tr>${phases}</table>
+${time}
+</section>`;
+};
+
+/**
+ * Stand-alone HTML page of the report, for printing or attaching to an arbiter's file.
+ */
+export const reportToHtml = (report: ArbiterReport): string => {
+  const rows = report.moves.map(m => `<tr><td>${m.moveNumber}${m.color === 'w' ? '.' : '...'}</td><td>${escapeHtml(m.san)}</td><td>${m.engineMoves.join(' ')}</td><td>${m.top1 ? '1' : m.top3 ? '3' : ''}</td><td>${Math.round(m.centipawnLoss)}</td><td>${m.phase}</td><td>${m.excluded ?? ''}</td><td>${m.thinkSeconds !== null ? round1(m.thinkSeconds) : ''}</td></tr>`).join('\n');
+  return `<!DOCTYPE html>
+<html><head><meta charset="utf-8"><title>Fair-play report: ${escapeHtml(report.event)}</title>
+<style>body{font-family:sans-serif;max-width:900px;margin:2em auto;color:#111}table{border-collapse:collapse;margin:.5em 0}td,th{border:1px solid #ccc;padding:2px 8px;text-align:left}.out{color:#b00;font-weight:bold}</style>
+</head><body>
+<h1>Fair-play report: ${escapeHtml(report.event)}</h1>
+<p>Generated ${escapeHtml(report.generatedAt)}. Engine depth ${report.depth}, ${report.method.multiPv} lines per position. Not counted: book moves, forced moves (single legal move or next line ${report.method.onlyMoveGap} cp worse) and positions past &plusmn;${report.method.decidedAt} cp. Rates below ${report.method.minSample} counted moves are a small sample. Values outside a band call for a closer look; they are not proof of engine use.</p>
+${playerHtml(report.white)}
+${playerHtml(report.black)}
+<h2>Moves</h2>
+<table><tr><th>#</th><th>Move</th><th>Engine</th><th>Match</th><th>CPL</th><th>Phase</th><th>Excluded</th><th>Time (s)</th></tr>
+${rows}
+</table>
+</body></html>`;
+};
+
+export const downloadReport = (report: ArbiterReport, format: 'json' | 'html') => {
+  const content = format === 'json' ? JSON.stringify(report, null, 2) : reportToHtml(report);
+  const url = URL.createObjectURL(new Blob([content], { type: format === 'json' ? 'application/json' : 'text/html' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `fair-play-report-${report.generatedAt.slice(0, 10)}.${format}`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
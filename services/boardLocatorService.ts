@@ -0,0 +1,222 @@
+/**
+ * BOARD LOCATOR SERVICE
+ * PURPOSE: Finds a 2D chess board in a screen capture without asking a model.
+ * Square boundaries form seven evenly spaced edge lines in each direction; the locator searches
+ * the edge profiles for that comb, then confirms the find by checking that the square colours
+ * alternate like a chess board. The same check tells whether a known crop still holds the board.
+ */
+
+/** Same frame as VisionResult.boundingBox: 0-1000 on each axis of the captured picture. */
+export interface BoardBox {
+  ymin: number;
+  xmin: number;
+  ymax: number;
+  xmax: number;
+}
+
+/** Who set the crop: the model's bounding box, the on-device locator, or the user by hand. */
+export type CropSource = 'model' | 'detected' | 'manual';
+
+export interface BoardLocation {
+  box: BoardBox;
+  /** Share of squares whose colour fits the checker pattern, 0-1. */
+  score: number;
+}
+
+/** Frames are scaled to about this width before searching; plenty for a board a few hundred px wide. */
+export const LOCATOR_WIDTH = 480;
+// Checker fit that counts as a board; one misplaced file or rank (8 of 64 squares) falls below it
+export const MIN_BOARD_SCORE = 0.9;
+// Smallest board searched for, as a share of the frame's shorter side
+const MIN_BOARD_SHARE = 0.25;
+// Luminance steps above this are capped so piece outlines do not outweigh square boundaries
+const EDGE_CAP = 80;
+const MIN_CONTRAST = 10;
+
+interface Gray {
+  data: Float32Array;
+  width: number;
+  height: number;
+}
+
+const toGray = (image: ImageData): Gray => {
+  const { width, height, data } = image;
+  const gray = new Float32Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return { data: gray, width, height };
+};
+
+/**
+ * Edge strength summed along one axis inside a region: for axis 'x' one value per column
+ * (vertical lines), for 'y' one per row.
+ */
+const edgeProfile = (g: Gray, axis: 'x' | 'y', from: number, to: number): Float32Array => {
+  const { data, width, height } = g;
+  const length = axis === 'x' ? width : height;
+  const profile = new Float32Array(length);
+  const lo = Math.max(0, Math.floor(from));
+  const hi = Math.min(axis === 'x' ? height : width, Math.ceil(to));
+  for (let p = 0; p < length - 1; p++) {
+    let sum = 0;
+    for (let q = lo; q < hi; q++) {
+      const i = axis === 'x' ? q * width + p : p * width + q;
+      const step = axis === 'x' ? 1 : width;
+      sum += Math.min(EDGE_CAP, Math.abs(data[i + step] - data[i]));
+    }
+    profile[p] = sum / Math.max(1, hi - lo);
+  }
+  return profile;
+};
+
+interface Comb {
+  origin: number;
+  size: number;
+  score: number;
+}
+
+// Comb candidates kept per axis; the checker test decides between them
+const MAX_CANDIDATES = 4;
+
+/**
+ * Origins and square sizes for seven evenly spaced lines in the profile, best first. Lines are
+ * rewarded and square middles penalised, so a single long edge or a uniform texture does not score.
+ */
+const findCombs = (profile: Float32Array, minSize: number, maxSize: number): Comb[] => {
+  const peak = (x: number) => {
+    const i = Math.round(x);
+    return Math.max(profile[i - 1] || 0, profile[i] || 0, profile[i + 1] || 0);
+  };
+  // Best size for every origin
+  const byOrigin: (Comb | null)[] = [];
+  for (let origin = 0; origin + minSize * 8 < profile.length; origin++) {
+    let best: Comb | null = null;
+    for (let size = minSize; size <= maxSize && origin + size * 8 < profile.length; size += 0.25) {
+      let lines = 0;
+      let middles = 0;
+      for (let k = 1; k < 8; k++) lines += peak(origin + k * size);
+      for (let k = 0; k < 8; k++) middles += profile[Math.round(origin + (k + 0.5) * size)];
+      const score = lines / 7 - middles / 8;
+      if (score > 0 && (!best || score > best.score)) best = { origin, size, score };
+    }
+    byOrigin.push(best);
+  }
+  // Local maxima only, so one strong comb does not fill every slot with its neighbours
+  const candidates = byOrigin.filter((c, i): c is Comb =>
+    !!c && [-2, -1, 1, 2].every(d => !byOrigin[i + d] || byOrigin[i + d]!.score <= c.score)
+  );
+  return candidates.sort((a, b) => b.score - a.score).slice(0, MAX_CANDIDATES);
+};
+
+const patchMean = (g: Gray, x: number, y: number, radius: number): number => {
+  let sum = 0;
+  let count = 0;
+  for (let yy = Math.round(y - radius); yy <= Math.round(y + radius); yy++) {
+    for (let xx = Math.round(x - radius); xx <= Math.round(x + radius); xx++) {
+      if (xx < 0 || yy < 0 || xx >= g.width || yy >= g.height) continue;
+      sum += g.data[yy * g.width + xx];
+      count++;
+    }
+  }
+  return count ? sum / count : 0;
+};
+
+/**
+ * How well the region fits a checker pattern. Each square's colour is read near its corners,
+ * where pieces rarely reach, so occupied squares count as well as empty ones.
+ */
+const checkerScore = (g: Gray, left: number, top: number, squareWidth: number, squareHeight: number): number => {
+  const colours: number[] = [];
+  // Close to the corners, but clear of the blur along square boundaries on small boards
+  const inset = Math.max(0.08, 2 / Math.min(squareWidth, squareHeight));
+  const radius = Math.min(squareWidth, squareHeight) * 0.04;
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      const samples = [[inset, inset], [1 - inset, inset], [inset, 1 - inset], [1 - inset, 1 - inset]]
+        .map(([fx, fy]) => patchMean(g, left + (col + fx) * squareWidth, top + (row + fy) * squareHeight, radius))
+        .sort((a, b) => a - b);
+      colours.push((samples[1] + samples[2]) / 2);
+    }
+  }
+
+  const even = colours.filter((_, i) => (Math.floor(i / 8) + i % 8) % 2 === 0);
+  const odd = colours.filter((_, i) => (Math.floor(i / 8) + i % 8) % 2 === 1);
+  const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+  const evenMean = mean(even);
+  const oddMean = mean(odd);
+  if (Math.abs(evenMean - oddMean) < MIN_CONTRAST) return 0;
+
+  // A square fits when its colour is near the typical colour of its group; a strip of page
+  // background inside the region is neither light nor dark square and fails
+  const median = (values: number[]) => [...values].sort((a, b) => a - b)[values.length >> 1];
+  const evenTypical = median(even);
+  const oddTypical = median(odd);
+  const tolerance = Math.abs(evenTypical - oddTypical) * 0.35;
+  const fits = even.filter(c => Math.abs(c - evenTypical) < tolerance).length + odd.filter(c => Math.abs(c - oddTypical) < tolerance).length;
+  return fits / 64;
+};
+
+const toBox = (g: Gray, left: number, top: number, width: number, height: number): BoardBox => ({
+  xmin: Math.round((left / g.width) * 1000),
+  ymin: Math.round((top / g.height) * 1000),
+  xmax: Math.round(((left + width) / g.width) * 1000),
+  ymax: Math.round(((top + height) / g.height) * 1000)
+});
+
+/**
+ * Searches a whole frame for a board. Null when nothing in it looks like one.
+ */
+export const locateBoard = (image: ImageData): BoardLocation | null => {
+  const g = toGray(image);
+  const maxSize = Math.min(g.width, g.height) / 8;
+  const minSize = Math.max(4, maxSize * MIN_BOARD_SHARE);
+
+  // Rows are searched only under each column candidate, then each axis refined within the other
+  const near = (size: number) => [size * 0.96, Math.min(maxSize, size * 1.04)] as const;
+  let best: { left: number; top: number; width: number; height: number; score: number } | null = null;
+  for (const columns of findCombs(edgeProfile(g, 'x', 0, g.height), minSize, maxSize)) {
+    for (const roughRows of findCombs(edgeProfile(g, 'y', columns.origin, columns.origin + columns.size * 8), ...near(columns.size))) {
+      const refined = findCombs(edgeProfile(g, 'x', roughRows.origin, roughRows.origin + roughRows.size * 8), ...near(roughRows.size))[0] || columns;
+      const rows = findCombs(edgeProfile(g, 'y', refined.origin, refined.origin + refined.size * 8), ...near(refined.size))[0] || roughRows;
+      // A comb one square off still hits seven lines when the board's outer edge is one of them
+      for (const dx of [-1, 0, 1]) {
+        for (const dy of [-1, 0, 1]) {
+          const left = refined.origin + dx * refined.size;
+          const top = rows.origin + dy * rows.size;
+          if (left < 0 || top < 0 || left + refined.size * 8 > g.width + 1 || top + rows.size * 8 > g.height + 1) continue;
+          const score = checkerScore(g, left, top, refined.size, rows.size);
+          if (!best || score > best.score) best = { left, top, width: refined.size * 8, height: rows.size * 8, score };
+        }
+      }
+    }
+  }
+
+  if (!best || best.score < MIN_BOARD_SCORE) return null;
+  return { box: toBox(g, best.left, best.top, best.width, best.height), score: best.score };
+};
+/**
+ * Checker fit of the region a crop covers in the frame; below MIN_BOARD_SCORE the board has
+ * moved off the crop (or is hidden).
+ */
+export const scoreCrop = (image: ImageData, box: BoardBox): number => {
+  const g = toGray(image);
+  const left = (box.xmin / 1000) * g.width;
+  const top = (box.ymin / 1000) * g.height;
+  const width = ((box.xmax - box.xmin) / 1000) * g.width;
+  const height = ((box.ymax - box.ymin) / 1000) * g.height;
+  if (width < 16 || height < 16) return 0;
+  return checkerScore(g, left, top, width / 8, height / 8);
+};
+
+/**
+ * Intersection over union of two boxes; 1 for the same box.
+ */
+export const boxOverlap = (a: BoardBox, b: BoardBox): number => {
+  const ix = Math.max(0, Math.min(a.xmax, b.xmax) - Math.max(a.xmin, b.xmin));
+  const iy = Math.max(0, Math.min(a.ymax, b.ymax) - Math.max(a.ymin, b.ymin));
+  const intersection = ix * iy;
+  const area = (box: BoardBox) => (box.xmax - box.xmin) * (box.ymax - box.ymin);
+  const union = area(a) + area(b) - intersection;
+  return union > 0 ? intersection / union : 0;
+};
@@ -0,0 +1,114 @@
+/**
+ * CHANGE DETECTION SERVICE
+ * PURPOSE: Decides whether a board frame is worth sending to the recognizer.
+ * Each frame of the board (crop or straightened camera view) is reduced to a few luminance
+ * samples per square and compared with the frame last sent. Only once squares have changed and
+ * the picture has stopped moving (the hand is gone) does the frame go out, together with the
+ * squares that changed.
+ */
+
+/** Board frames are scaled to this many pixels a side; 4 x 4 samples per square. */
+export const SIGNATURE_SIZE = 32;
+const SAMPLES_PER_SQUARE = (SIGNATURE_SIZE / 8) ** 2;
+
+// Mean luminance step over a square's samples that counts as a change; camera noise stays well below
+const SQUARE_THRESHOLD = 8;
+// A frame is sent at least this often, so a change the detector missed is picked up eventually
+export const MAX_IDLE_MS = 60000;
+
+export type FrameDecision =
+  | { send: true; reason: 'first' | 'changed' | 'idle'; changedCells: number[] }
+  | { send: false; reason: 'unchanged' | 'settling' };
+
+/**
+ * Luminance samples of a board frame already scaled to SIGNATURE_SIZE, grouped by square:
+ * cell 0 (top-left of the picture) first, row by row.
+ */
+export const frameSignature = (image: ImageData): Float32Array => {
+  const side = SIGNATURE_SIZE / 8;
+  const signature = new Float32Array(64 * SAMPLES_PER_SQUARE);
+  for (let y = 0; y < SIGNATURE_SIZE; y++) {
+    for (let x = 0; x < SIGNATURE_SIZE; x++) {
+      const i = (y * image.width + x) * 4;
+      const cell = Math.floor(y / side) * 8 + Math.floor(x / side);
+      const offset = (y % side) * side + (x % side);
+      signature[cell * SAMPLES_PER_SQUARE + offset] = 0.299 * image.data[i] + 0.587 * image.data[i + 1] + 0.114 * image.data[i + 2];
+    }
+  }
+  return signature;
+};
+
+/**
+ * Cells whose samples differ between two signatures. A brightness change over the whole board
+ * (a camera adjusting its exposure, a cloud) is taken out first.
+ */
+export const changedCells = (before: Float32Array, after: Float32Array): number[] => {
+  const shifts = Array.from(after, (v, i) => v - before[i]).sort((a, b) => a - b);
+  const globalShift = shifts[shifts.length >> 1];
+  const cells: number[] = [];
+  for (let cell = 0; cell < 64; cell++) {
+    let sum = 0;
+    for (let k = 0; k < SAMPLES_PER_SQUARE; k++) {
+      const i = cell * SAMPLES_PER_SQUARE + k;
+      sum += Math.abs(after[i] - before[i] - globalShift);
+    }
+    if (sum / SAMPLES_PER_SQUARE > SQUARE_THRESHOLD) cells.push(cell);
+  }
+  return cells;
+};
+
+/**
+ * Square names for picture cells, given which colour is at the bottom.
+ */
+export const cellsToSquares = (cells: number[], orientation: 'white' | 'black'): string[] =>
+  cells.map(cell => {
+    const row = Math.floor(cell / 8);
+    const col = cell % 8;
+    const file = orientation === 'white' ? col : 7 - col;
+    const rank = orientation === 'white' ? 8 - row : row + 1;
+    return `${'abcdefgh'[file]}${rank}`;
+  });
+
+export class ChangeDetector {
+  private reference: Float32Array | null = null;
+  private referenceTime = 0;
+  private previous: Float32Array | null = null;
+
+  /**
+   * Judges the next frame. A frame that is sent becomes the reference the following frames
+   * are compared with.
+   */
+  public observe(signature: Float32Array, now: number = Date.now()): FrameDecision {
+    const previous = this.previous;
+    this.previous = signature;
+
+    if (!this.reference) {
+      this.accept(signature, now);
+      return { send: true, reason: 'first', changedCells: [] };
+    }
+
+    const changed = changedCells(this.reference, signature);
+    if (changed.length === 0) {
+      if (now - this.referenceTime < MAX_IDLE_MS) return { send: false, reason: 'unchanged' };
+      this.accept(signature, now);
+      return { send: true, reason: 'idle', changedCells: [] };
+    }
+
+    // Anything still moving since the last frame means a hand or a piece in flight
+    if (!previous || changedCells(previous, signature).length > 0) return { send: false, reason: 'settling' };
+
+    this.accept(signature, now);
+    return { send: true, reason: 'changed', changedCells: changed };
+  }
+
+  /** Forgets the reference so the next frame is sent, e.g. when the last one could not be used. */
+  public reset() {
+    this.reference = null;
+    this.previous = null;
+  }
+
+  private accept(signature: Float32Array, now: number) {
+    this.reference = signature;
+    this.referenceTime = now;
+  }
+}
@@ -0,0 +1,193 @@
+/**
+ * CLOCK SERVICE
+ * PURPOSE: Chess clock for recorded over-the-board games.
+ * The clock is a plain value: each press returns a new state, so it can live in React state and
+ * be replayed in tests. Fischer increment is added after every completed move; with a delay the
+ * first seconds of each turn are free (US / simple delay).
+ */
+
+export type ClockSide = 'w' | 'b';
+
+export interface TimeControl {
+  baseSeconds: number;
+  incrementSeconds: number;
+  delaySeconds: number;
+}
+
+export interface GameClock {
+  control: TimeControl;
+  /** Milliseconds left at the start of the running turn, or now for a side not running. */
+  remaining: Record<ClockSide, number>;
+  running: ClockSide | null;
+  /** When the running turn started (or resumed after a pause). */
+  turnStartedAt: number;
+  /** Part of the delay already used up before a pause in the running turn. */
+  delayUsed: number;
+  flagged: ClockSide | null;
+}
+
+export interface ClockSettings {
+  control: TimeControl;
+  /** Switch the clock when vision or the board accepts a move, not only on a tap. */
+  autoSwitch: boolean;
+}
+
+export const TIME_CONTROL_PRESETS: { label: string; control: TimeControl }[] = [
+  { label: '3+2', control: { baseSeconds: 180, incrementSeconds: 2, delaySeconds: 0 } },
+  { label: '5+3', control: { baseSeconds: 300, incrementSeconds: 3, delaySeconds: 0 } },
+  { label: '15+10', control: { baseSeconds: 900, incrementSeconds: 10, delaySeconds: 0 } },
+  { label: '60 d5', control: { baseSeconds: 3600, incrementSeconds: 0, delaySeconds: 5 } },
+  { label: '90+30', control: { baseSeconds: 5400, incrementSeconds: 30, delaySeconds: 0 } }
+];
+
+const SETTINGS_KEY = 'chessVision.clock';
+
+export const DEFAULT_CLOCK_SETTINGS: ClockSettings = { control: TIME_CONTROL_PRESETS[4].control, autoSwitch: true };
+
+export const loadClockSettings = (): ClockSettings => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(SETTINGS_KEY) || 'null');
+    if (parsed && parsed.control && typeof parsed.control.baseSeconds === 'number') {
+      return { control: { ...DEFAULT_CLOCK_SETTINGS.control, ...parsed.control }, autoSwitch: parsed.autoSwitch !== false };
+    }
+  } catch (e) {}
+  return { ...DEFAULT_CLOCK_SETTINGS };
+};
+
+export const saveClockSettings = (settings: ClockSettings) => {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.error("Clock storage failure:", e);
+  }
+};
+
+export const createClock = (control: TimeControl): GameClock => ({
+  control,
+  remaining: { w: control.baseSeconds * 1000, b: control.baseSeconds * 1000 },
+  running: null,
+  turnStartedAt: 0,
+  delayUsed: 0,
+  flagged: null
+});
+
+const opponent = (side: ClockSide): ClockSide => (side === 'w' ? 'b' : 'w');
+
+/**
+ * Time used so far in the running turn, after the delay.
+ */
+const chargedTime = (state: GameClock, now: number): number => {
+  const elapsed = Math.max(0, now - state.turnStartedAt);
+  const delayLeft = Math.max(0, state.control.delaySeconds * 1000 - state.delayUsed);
+  return Math.max(0, elapsed - delayLeft);
+};
+
+/** Milliseconds on a side's clock at the given moment; never below zero. */
+export const remainingAt = (state: GameClock, side: ClockSide, now: number = Date.now()): number => {
+  if (state.running !== side) return state.remaining[side];
+  return Math.max(0, state.remaining[side] - chargedTime(state, now));
+};
+
+export const startClock = (state: GameClock, side: ClockSide, now: number = Date.now()): GameClock =>
+  state.flagged ? state : { ...state, running: side, turnStartedAt: now, delayUsed: 0 };
+
+/**
+ * Ends the turn of the given side: its time is charged, the increment added, and the opponent's
+ * clock started. Pressing for a side that is not running changes nothing, so a tap followed by
+ * the same move arriving from vision switches only once.
+ */
+export const pressClock = (state: GameClock, side: ClockSide, now: number = Date.now()): GameClock => {
+  if (state.running !== side || state.flagged) return state;
+  const left = remainingAt(state, side, now);
+  if (left <= 0) return checkFlag(state, now);
+  return {
+    ...state,
+    remaining: { ...state.remaining, [side]: left + state.control.incrementSeconds * 1000 },
+    running: opponent(side),
+    turnStartedAt: now,
+    delayUsed: 0
+  };
+};
+
+/** True once the clock has run; a new clock waits for the first move or tap. */
+export const clockStarted = (state: GameClock): boolean => state.turnStartedAt > 0 || state.flagged !== null;
+
+/**
+ * The given side has finished a move, by tap or by a move being accepted. On a clock that has not
+ * started yet this starts the opponent's time, the way Black starts White's clock over the board.
+ * A paused clock stays paused.
+ */
+export const switchClock = (state: GameClock, side: ClockSide, now: number = Date.now()): GameClock => {
+  if (!clockStarted(state)) return startClock(state, opponent(side), now);
+  return pressClock(state, side, now);
+};
+
+export const pauseClock = (state: GameClock, now: number = Date.now()): GameClock => {
+  const side = state.running;
+  if (!side) return state;
+  const elapsed = Math.max(0, now - state.turnStartedAt);
+  return {
+    ...state,
+    remaining: { ...state.remaining, [side]: remainingAt(state, side, now) },
+    running: null,
+    delayUsed: Math.min(state.control.delaySeconds * 1000, state.delayUsed + elapsed)
+  };
+};
+
+/**
+ * Resumes a paused turn for the side that was to move, keeping what was left of its delay.
+ */
+export const resumeClock = (state: GameClock, side: ClockSide, now: number = Date.now()): GameClock =>
+  state.flagged || state.running ? state : { ...state, running: side, turnStartedAt: now };
+
+/** Stops the clock for good once the running side's time is gone. */
+export const checkFlag = (state: GameClock, now: number = Date.now()): GameClock => {
+  const side = state.running;
+  if (!side || remainingAt(state, side, now) > 0) return state;
+  return { ...state, remaining: { ...state.remaining, [side]: 0 }, running: null, flagged: side };
+};
+
+/**
+ * Clock display: h:mm:ss from an hour up, m:ss below, tenths in the last ten seconds.
+ */
+export const formatClock = (ms: number): string => {
+  const total = Math.max(0, ms) / 1000;
+  if (total < 10) return total.toFixed(1);
+  const seconds = Math.ceil(total);
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = (seconds % 60).toString().padStart(2, '0');
+  return h > 0 ? `${h}:${m.toString().padStart(2, '0')}:${s}` : `${m}:${s}`;
+};
+
+/** PGN [%clk] value: h:mm:ss, whole seconds. */
+export const formatClk = (seconds: number): string => {
+  const whole = Math.max(0, Math.round(seconds));
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${Math.floor(whole / 3600)}:${pad(Math.floor((whole % 3600) / 60))}:${pad(whole % 60)}`;
+};
+
+/**
+ * Seconds from a comment's [%clk h:mm:ss] command, or null.
+ */
+export const parseClockComment = (comment: string | undefined): number | null => {
+  const match = comment?.match(/\[%clk\s+(\d+):(\d{1,2}):(\d{1,2}(?:\.\d+)?)\]/);
+  return match ? Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]) : null;
+};
+
+/** The comment without its [%clk] command; undefined when nothing else is left. */
+export const stripClockCommand = (comment: string | undefined): string | undefined =>
+  comment?.replace(/\[%clk\s+[^\]]*\]/g, '').replace(/\s+/g, ' ').trim() || undefined;
+
+/**
+ * PGN TimeControl tag: "base+increment" in seconds. A delay has no standard notation; it is
+ * written like "3600d5".
+ */
+export const timeControlTag = (control: TimeControl): string =>
+  control.delaySeconds > 0 ? `${control.baseSeconds}d${control.delaySeconds}` : `${control.baseSeconds}+${control.incrementSeconds}`;
+
+/** Increment from a TimeControl tag such as "5400+30"; 0 when it has none. */
+export const incrementFromTag = (tag: string | undefined): number => {
+  const match = tag?.match(/\+(\d+)$/);
+  return match ? Number(match[1]) : 0;
+};
@@ -0,0 +1,102 @@
+import { DEFAULT_ENGINE_OPTIONS, DEFAULT_SEARCH_SETTINGS, SearchSettings, UciOptionValue } from './engineService';
+
+/**
+ * ENGINE PROFILE SERVICE
+ * PURPOSE: Named engine configurations (UCI options + search limits) persisted in local storage.
+ * Built-in profiles can be overwritten but not deleted; deleting an override restores the original.
+ */
+
+export interface EngineProfile {
+  name: string;
+  options: Record<string, UciOptionValue>;
+  search: SearchSettings;
+}
+
+const PROFILES_KEY = 'chessVision.engineProfiles';
+const ACTIVE_KEY = 'chessVision.activeEngineProfile';
+
+export const DEFAULT_PROFILE_NAME = 'Assault';
+
+export const BUILT_IN_PROFILES: EngineProfile[] = [
+  {
+    name: DEFAULT_PROFILE_NAME,
+    options: { ...DEFAULT_ENGINE_OPTIONS },
+    search: { ...DEFAULT_SEARCH_SETTINGS }
+  },
+  {
+    name: 'Deep Analysis',
+    options: { ...DEFAULT_ENGINE_OPTIONS, 'Contempt': 0, 'Hash': 256 },
+    search: { multiPv: 3, limit: 'depth', depth: 26, movetime: DEFAULT_SEARCH_SETTINGS.movetime }
+  },
+  {
+    name: 'Quick Check',
+    options: { 'Skill Level': 20, 'Threads': 2, 'Hash': 32 },
+    search: { multiPv: 1, limit: 'movetime', depth: DEFAULT_SEARCH_SETTINGS.depth, movetime: 800 }
+  }
+];
+
+const readStored = (): EngineProfile[] => {
+  try {
+    const raw = localStorage.getItem(PROFILES_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed.filter(p => p && typeof p.name === 'string') : [];
+  } catch (e) {
+    return [];
+  }
+};
+
+const writeStored = (profiles: EngineProfile[]) => {
+  try {
+    localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+  } catch (e) {
+    console.error("Profile storage failure:", e);
+  }
+};
+
+export const isBuiltInProfile = (name: string): boolean => BUILT_IN_PROFILES.some(p => p.name === name);
+
+/**
+ * Built-in profiles (with any stored overrides) followed by user profiles.
+ */
+export const loadProfiles = (): EngineProfile[] => {
+  const stored = readStored();
+  const builtIns = BUILT_IN_PROFILES.map(b => stored.find(s => s.name === b.name) || b);
+  const custom = stored.filter(s => !isBuiltInProfile(s.name));
+  return [...builtIns, ...custom].map(p => ({
+    ...p,
+    search: { ...DEFAULT_SEARCH_SETTINGS, ...p.search }
+  }));
+};
+
+export const saveProfile = (profile: EngineProfile): EngineProfile[] => {
+  const stored = readStored().filter(p => p.name !== profile.name);
+  writeStored([...stored, profile]);
+  return loadProfiles();
+};
+
+export const deleteProfile = (name: string): EngineProfile[] => {
+  writeStored(readStored().filter(p => p.name !== name));
+  if (getActiveProfileName() === name && !isBuiltInProfile(name)) setActiveProfileName(DEFAULT_PROFILE_NAME);
+  return loadProfiles();
+};
+
+export const getActiveProfileName = (): string => {
+  try {
+    return localStorage.getItem(ACTIVE_KEY) || DEFAULT_PROFILE_NAME;
+  } catch (e) {
+    return DEFAULT_PROFILE_NAME;
+  }
+};
+
+export const setActiveProfileName = (name: string) => {
+  try {
+    localStorage.setItem(ACTIVE_KEY, name);
+  } catch (e) {
+    console.error("Profile storage failure:", e);
+  }
+};
+
+export const loadActiveProfile = (): EngineProfile => {
+  const profiles = loadProfiles();
+  return profiles.find(p => p.name === getActiveProfileName()) || profiles[0];
+};
@@ -1,3 +1,6 @@
+import { Chess } from 'chess.js';
+import { TablebaseMove, TablebaseProvider, TablebaseResult, TABLEBASE_MAX_PIECES, pieceCount } from './tablebaseService';
+
 
 /**
  * ENGINE SERVICE (ASSAULT MODE 3.6)
@@ -8,126 +11,834 @@
 export interface EngineMove {
   from: string;
   to: string;
+  uci: string;
   san: string;
-  evaluation: number;
+  /** Full principal variation in SAN, starting with this move. */
+  pv: string[];
+  pvUci: string[];
+  /** Pawns from the side to move; null when the engine found a forced mate. */
+  evaluation: number | null;
+  /** Moves to mate, negative when the side to move is getting mated. */
+  mate: number | null;
+  /** Tablebase outcome when the position is in the tables, otherwise a sigmoid of the score. */
   confidence: number;
+  depth: number;
+  tablebase: TablebaseMove | null;
 }
 
 export interface EngineResult {
   moves: EngineMove[];
   nodes: number;
   depth: number;
+  selDepth: number;
+  nps: number;
+  time: number;
   fen: string;
+  tablebase: TablebaseResult | null;
 }
 
-const STOCKFISH_URL = 'https://cdnjs.cloudflare.com/ajax/libs/stockfish.js/10.0.2/stockfish.js';
+/**
+ * loading: worker starting or uci/isready handshake in progress
+ * ready: handshake done, no search running
+ * searching: a go command is outstanding
+ * crashed: the worker died or never answered; a restart is scheduled unless retries ran out
+ */
+export type EngineState = 'loading' | 'ready' | 'searching' | 'crashed';
 
-class StockfishEngine {
-  private worker: Worker | null = null;
+export interface EngineStatus {
+  state: EngineState;
+  /** Automatic restarts since the last completed search. */
+  restarts: number;
+  error: string | null;
+}
+
+export interface EngineBestMove {
+  fen: string;
+  /** UCI notation; null when the position has no legal moves. */
+  bestMove: string | null;
+  ponder: string | null;
+  result: EngineResult | null;
+}
+
+export class EngineError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EngineError';
+  }
+}
+
+export type SearchLimit = 'depth' | 'movetime' | 'infinite';
+
+export interface SearchSettings {
+  multiPv: number;
+  limit: SearchLimit;
+  depth: number;
+  /** Milliseconds per search when limit is 'movetime'. */
+  movetime: number;
+}
+
+export const MAX_MULTI_PV = 5;
+
+export const DEFAULT_SEARCH_SETTINGS: SearchSettings = {
+  multiPv: 2,
+  limit: 'movetime',
+  depth: 18,
+  movetime: 2500
+};
+
+export type UciOptionType = 'spin' | 'check' | 'combo' | 'string' | 'button';
+
+export type UciOptionValue = string | number | boolean;
+
+export interface UciOption {
+  name: string;
+  type: UciOptionType;
+  default?: string;
+  min?: number;
+  max?: number;
+  vars?: string[];
+}
+
+// ASSAULT CONFIG: High Contempt forces the bot to avoid draws and play for the win at all costs
+export const DEFAULT_ENGINE_OPTIONS: Record<string, UciOptionValue> = {
+  'Skill Level': 20,
+  'Contempt': 100,
+  'Threads': 4,
+  'Hash': 64
+};
+
+// Options owned by other settings and therefore never offered in the options panel
+export const RESERVED_OPTIONS = ['MultiPV'];
+
+export interface PositionEvaluation {
+  fen: string;
+  /** Centipawns from the side to move; null when the engine reported a mate score. */
+  cp: number | null;
+  /** Moves to mate from the side to move (negative when being mated). */
+  mate: number | null;
+  bestMove: string | null;
+  depth: number;
+  /** The engine's best lines, best first: as many as the job's multiPv asked for. */
+  lines: EvaluatedLine[];
+}
+
+export interface EvaluatedLine {
+  /** First move of the line in UCI notation. */
+  move: string;
+  cp: number | null;
+  mate: number | null;
+}
+
+export interface BatchProgress {
+  completed: number;
+  total: number;
+  latest: PositionEvaluation | null;
+}
+
+export interface BatchJob {
+  promise: Promise<PositionEvaluation[]>;
+  cancel: () => void;
+}
+
+export interface EngineBuild {
+  id: 'wasm-nnue' | 'asm';
+  label: string;
+  url: string;
+}
+
+// Served from public/engine, copied out of the stockfish package by scripts/copy-engine-assets.mjs
+const ENGINE_BASE = `${import.meta.env.BASE_URL}engine/`;
+
+export const ENGINE_BUILDS: Record<EngineBuild['id'], EngineBuild> = {
+  'wasm-nnue': { id: 'wasm-nnue', label: 'Stockfish 18 Lite (WASM, NNUE)', url: `${ENGINE_BASE}stockfish-18-lite-single.js` },
+  'asm': { id: 'asm', label: 'Stockfish 18 (asm.js fallback)', url: `${ENGINE_BASE}stockfish-18-asm.js` }
+};
+
+const supportsWasm = (): boolean => {
+  try {
+    if (typeof WebAssembly !== 'object') return false;
+    // Smallest valid module: magic number + version
+    return WebAssembly.validate(Uint8Array.of(0x00, 0x61, 0x73, 0x6d, 0x01, 0x00, 0x00, 0x00));
+  } catch (e) {
+    return false;
+  }
+};
+
+export const selectEngineBuild = (): EngineBuild => ENGINE_BUILDS[supportsWasm() ? 'wasm-nnue' : 'asm'];
+
+const createStockfishWorker = (build: EngineBuild = selectEngineBuild()) => new Worker(build.url);
+
+/**
+ * Where the live engine runs: the bundled Stockfish worker, or a native UCI engine on this
+ * machine reached through the WebSocket bridge (scripts/uci-bridge.mjs).
+ */
+export type EngineBackend =
+  | { kind: 'worker' }
+  | { kind: 'bridge'; url: string; engine: string };
+
+export const DEFAULT_BRIDGE_URL = 'ws://127.0.0.1:8765';
+
+const BACKEND_KEY = 'chessVision.engineBackend';
+
+export const loadEngineBackend = (): EngineBackend => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(BACKEND_KEY) || 'null');
+    if (parsed?.kind === 'bridge' && typeof parsed.url === 'string' && typeof parsed.engine === 'string') return parsed;
+  } catch (e) {}
+  return { kind: 'worker' };
+};
+
+export const saveEngineBackend = (backend: EngineBackend) => {
+  try {
+    localStorage.setItem(BACKEND_KEY, JSON.stringify(backend));
+  } catch (e) {
+    console.error("Backend storage failure:", e);
+  }
+};
+
+/**
+ * Address of a bridge endpoint. The bridge URL may carry the bridge's ?token=, which every
+ * request has to repeat.
+ */
+const bridgeEndpoint = (url: string, path: string, protocol: 'ws' | 'http', params: Record<string, string> = {}): string => {
+  const endpoint = new URL(url.trim());
+  endpoint.protocol = endpoint.protocol.replace(/^(ws|http)/, protocol);
+  endpoint.pathname = `${endpoint.pathname.replace(/\/+$/, '')}${path}`;
+  Object.entries(params).forEach(([key, value]) => endpoint.searchParams.set(key, value));
+  return endpoint.toString();
+};
+
+/**
+ * Engine names the bridge was started with (its --engine flags).
+ */
+export const listBridgeEngines = async (url: string): Promise<string[]> => {
+  const response = await fetch(bridgeEndpoint(url, '/engines', 'http'));
+  if (!response.ok) throw new EngineError(`Bridge answered ${response.status}`);
+  const names = await response.json();
+  return Array.isArray(names) ? names.filter((n): n is string => typeof n === 'string') : [];
+};
+
+/**
+ * Line-based UCI channel. Implementations report a dead engine through onError exactly once
+ * and stay silent after close().
+ */
+interface UciTransport {
+  send(line: string): void;
+  close(): void;
+}
+
+interface TransportHandlers {
+  onLine: (line: string) => void;
+  onError: (reason: string) => void;
+}
+
+const openWorkerTransport = (build: EngineBuild, handlers: TransportHandlers): UciTransport => {
+  const worker = createStockfishWorker(build);
+  worker.onmessage = (e) => {
+    if (typeof e.data === 'string') handlers.onLine(e.data);
+  };
+  worker.onerror = (e) => {
+    e.preventDefault();
+    handlers.onError(e.message || 'Worker error');
+  };
+  worker.onmessageerror = () => handlers.onError('Unreadable worker message');
+  return {
+    send: line => worker.postMessage(line),
+    close: () => {
+      worker.onmessage = null;
+      worker.onerror = null;
+      worker.terminate();
+    }
+  };
+};
+
+const openBridgeTransport = (url: string, engineName: string, handlers: TransportHandlers): UciTransport => {
+  const socket = new WebSocket(bridgeEndpoint(url, '/', 'ws', { engine: engineName }));
+  const pending: string[] = [];
+  let closed = false;
+
+  socket.onopen = () => pending.splice(0).forEach(line => socket.send(line));
+  socket.onmessage = (e) => {
+    if (typeof e.data !== 'string') return;
+    e.data.split('\n').map(line => line.trim()).filter(Boolean).forEach(handlers.onLine);
+  };
+  // onerror carries no detail and is always followed by onclose
+  socket.onclose = (e) => {
+    if (!closed) handlers.onError(e.reason || `Bridge connection closed (${e.code})`);
+  };
+  return {
+    send: line => {
+      if (socket.readyState === WebSocket.OPEN) socket.send(line);
+      else pending.push(line);
+    },
+    close: () => {
+      closed = true;
+      if (socket.readyState === WebSocket.OPEN) socket.send('quit');
+      socket.close();
+    }
+  };
+};
+
+const extractValue = (line: string, key: string): string | null => {
+  const parts = line.split(' ');
+  const index = parts.indexOf(key);
+  return (index !== -1 && index + 1 < parts.length) ? parts[index + 1] : null;
+};
+
+const OPTION_KEYWORDS = ['name', 'type', 'default', 'min', 'max', 'var'];
+
+/**
+ * Parses an "option name ... type ..." line from the uci handshake.
+ */
+export const parseOptionLine = (line: string): UciOption | null => {
+  const words = line.trim().split(/\s+/).slice(1);
+  const fields: Record<string, string[]> = {};
+  const vars: string[] = [];
+  let key: string | null = null;
+  let buffer: string[] = [];
+
+  const flush = () => {
+    if (key === 'var') vars.push(buffer.join(' '));
+    else if (key) fields[key] = buffer;
+  };
+  for (const word of words) {
+    if (OPTION_KEYWORDS.includes(word)) {
+      flush();
+      key = word;
+      buffer = [];
+    } else {
+      buffer.push(word);
+    }
+  }
+  flush();
+
+  const name = fields.name?.join(' ');
+  const type = fields.type?.[0] as UciOptionType | undefined;
+  if (!name || !type) return null;
+  const option: UciOption = { name, type };
+  if (fields.default) option.default = fields.default.join(' ').replace(/^<empty>$/, '');
+  if (fields.min) option.min = parseInt(fields.min[0]);
+  if (fields.max) option.max = parseInt(fields.max[0]);
+  if (vars.length) option.vars = vars;
+  return option;
+};
+
+const extractPv = (line: string): string[] => {
+  const index = line.indexOf(' pv ');
+  return index === -1 ? [] : line.slice(index + 4).trim().split(/\s+/);
+};
+
+// Aspiration-window fail lines carry provisional scores; wait for the exact one
+const isBoundScore = (line: string): boolean => line.includes(' lowerbound') || line.includes(' upperbound');
+
+/**
+ * Converts a UCI principal variation to SAN. Stops at the first move that is illegal in the
+ * position, which only happens when a stale info line arrives after the FEN changed.
+ */
+export const pvToSan = (fen: string, pv: string[]): { san: string[]; uci: string[] } => {
+  const san: string[] = [];
+  const uci: string[] = [];
+  try {
+    const game = new Chess(fen);
+    for (const move of pv) {
+      const played = game.move({ from: move.slice(0, 2), to: move.slice(2, 4), promotion: move[4] });
+      san.push(played.san);
+      uci.push(move);
+    }
+  } catch (e) {}
+  return { san, uci };
+};
+
+/**
+ * Human readable score: "#4" / "#-2" for mates, "+0.35" otherwise.
+ */
+export const formatScore = (move: Pick<EngineMove, 'evaluation' | 'mate'>): string => {
+  if (move.mate !== null) return `#${move.mate}`;
+  const value = move.evaluation ?? 0;
+  return `${value > 0 ? '+' : ''}${value.toFixed(2)}`;
+};
+
+// The WASM build can take a while to compile on slow machines
+const HANDSHAKE_TIMEOUT_MS = 20000;
+const RESTART_DELAY_MS = 1000;
+export const MAX_ENGINE_RESTARTS = 3;
+
+export interface EngineDescription {
+  backend: EngineBackend['kind'];
+  label: string;
+  /** From the engine's "id name" line; empty until the handshake. */
+  engineName: string;
+}
+
+/**
+ * What the UI needs from a live analysis engine, whichever backend runs it.
+ */
+export interface Engine {
+  analyze(fen: string, callback: (result: EngineResult) => void): void;
+  search(fen: string, callback?: (result: EngineResult) => void): Promise<EngineBestMove>;
+  stop(): void;
+  restart(): void;
+  getStatus(): EngineStatus;
+  onStatus(listener: (status: EngineStatus) => void): () => void;
+  describe(): EngineDescription;
+  getBackend(): EngineBackend;
+  setBackend(backend: EngineBackend): void;
+  getSearchSettings(): SearchSettings;
+  setSearchSettings(update: Partial<SearchSettings>): void;
+  getOptions(): UciOption[];
+  getOptionValues(): Record<string, UciOptionValue>;
+  onOptions(listener: (options: UciOption[]) => void): () => void;
+  setOption(name: string, value?: UciOptionValue): void;
+  applyConfiguration(values: Record<string, UciOptionValue>, search: SearchSettings): void;
+  setTablebase(provider: TablebaseProvider | null): void;
+}
+
+interface BestMoveWaiter {
+  fen: string;
+  resolve: (result: EngineBestMove) => void;
+  reject: (error: Error) => void;
+}
+
+const TABLEBASE_CONFIDENCE: Record<TablebaseMove['category'], number> = {
+  'win': 100,
+  'cursed-win': 50,
+  'draw': 50,
+  'blessed-loss': 50,
+  'loss': 0,
+  'unknown': 50
+};
+
+const scoreConfidence = (evaluation: number | null, mate: number | null, tablebase: TablebaseMove | null): number => {
+  if (tablebase && tablebase.category !== 'unknown') return TABLEBASE_CONFIDENCE[tablebase.category];
+  if (mate !== null) return mate > 0 ? 100 : 0;
+  const score = (evaluation || 0) * 100;
+  // Sharpened sigmoid to make tactical advantages feel more decisive
+  return Math.round(100 / (1 + Math.exp(-score / 100)));
+};
+
+class UciEngine implements Engine {
+  private transport: UciTransport | null = null;
   private onResultCallback: ((result: EngineResult) => void) | null = null;
   private currentMoves: Map<number, EngineMove> = new Map();
   private lastNodes: number = 0;
   private lastDepth: number = 0;
+  private lastSelDepth: number = 0;
+  private lastNps: number = 0;
+  private lastTime: number = 0;
   private activeFen: string = '';
+  private settings: SearchSettings = { ...DEFAULT_SEARCH_SETTINGS };
+  private options: UciOption[] = [];
+  private optionValues: Record<string, UciOptionValue> = { ...DEFAULT_ENGINE_OPTIONS };
+  private uciReady = false;
+  private optionListeners: ((options: UciOption[]) => void)[] = [];
+  private build: EngineBuild = selectEngineBuild();
+  private backend: EngineBackend;
+  private engineName: string = '';
+  private status: EngineStatus = { state: 'loading', restarts: 0, error: null };
+  private statusListeners: ((status: EngineStatus) => void)[] = [];
+  private handshakeTimer: ReturnType<typeof setTimeout> | null = null;
+  private restartTimer: ReturnType<typeof setTimeout> | null = null;
+  // Each go produces exactly one bestmove, so only the last of several outstanding ones is current
+  private searchesInFlight = 0;
+  private searchFen: string = '';
+  private waiters: BestMoveWaiter[] = [];
+  private tablebase: TablebaseProvider | null = null;
+  private tablebaseFen: string = '';
+  private tablebaseResult: TablebaseResult | null = null;
 
-  constructor() {
+  constructor(backend: EngineBackend) {
+    this.backend = backend;
     this.init();
   }
 
   private init() {
+    this.options = [];
+    this.uciReady = false;
+    this.searchesInFlight = 0;
+    this.setStatus({ state: 'loading' });
+    // A restarted or different engine lists its options again
+    this.optionListeners.forEach(listener => listener([]));
+
+    const handlers: TransportHandlers = {
+      onLine: line => this.handleLine(line),
+      onError: reason => this.handleCrash(reason)
+    };
     try {
-      this.worker = new Worker(URL.createObjectURL(new Blob([`importScripts("${STOCKFISH_URL}");`], {type: 'application/javascript'})));
-      
-      this.worker.onmessage = (e) => {
-        const line = e.data;
-        if (typeof line !== 'string') return;
-        if (line.startsWith('info depth')) this.parseInfoLine(line);
-      };
+      this.transport = this.backend.kind === 'bridge'
+        ? openBridgeTransport(this.backend.url, this.backend.engine, handlers)
+        : openWorkerTransport(this.build, handlers);
+    } catch (e: any) {
+      this.handleCrash(e?.message || 'Engine could not be started');
+      return;
+    }
+
+    this.handshakeTimer = setTimeout(() => this.handleCrash('Engine did not answer the uci handshake'), HANDSHAKE_TIMEOUT_MS);
+    this.sendMessage('uci');
+  }
+
+  private handleLine(line: string) {
+    if (line.startsWith('info depth')) this.parseInfoLine(line);
+    else if (line.startsWith('bestmove')) this.handleBestMove(line);
+    else if (line.startsWith('id name ')) this.engineName = line.slice(8).trim();
+    else if (line.startsWith('option name')) this.registerOption(line);
+    else if (line === 'uciok') this.handleUciOk();
+    else if (line === 'readyok') this.handleReadyOk();
+  }
+
+  private closeTransport() {
+    this.transport?.close();
+    this.transport = null;
+  }
+
+  private setStatus(update: Partial<EngineStatus>) {
+    this.status = { ...this.status, ...update };
+    const snapshot = this.getStatus();
+    this.statusListeners.forEach(listener => listener(snapshot));
+  }
 
-      this.sendMessage('uci');
-      this.sendMessage('isready');
-      this.sendMessage('setoption name Skill Level value 20');
-      this.sendMessage('setoption name MultiPV value 2');
-      // ASSAULT CONFIG: High Contempt forces the bot to avoid draws and play for the win at all costs
-      this.sendMessage('setoption name Contempt value 100'); 
-      this.sendMessage('setoption name Threads value 4');
-      this.sendMessage('setoption name Hash value 64');
-    } catch (e) {
-      console.error("Engine failure:", e);
+  private clearTimers() {
+    if (this.handshakeTimer) clearTimeout(this.handshakeTimer);
+    if (this.restartTimer) clearTimeout(this.restartTimer);
+    this.handshakeTimer = null;
+    this.restartTimer = null;
+  }
+
+  /**
+   * Tears the engine down and schedules a fresh one. Option values and the analysed FEN survive,
+   * so the new process picks up exactly where the old one stopped.
+   */
+  private handleCrash(reason: string) {
+    if (this.status.state === 'crashed') return;
+    console.error("Engine failure:", reason);
+    this.clearTimers();
+    this.closeTransport();
+
+    const restarts = this.status.restarts + 1;
+    this.setStatus({ state: 'crashed', error: reason, restarts });
+    if (restarts > MAX_ENGINE_RESTARTS) {
+      this.rejectWaiters(() => true, new EngineError(`Engine crashed: ${reason}`));
+      return;
     }
+    this.restartTimer = setTimeout(() => this.init(), RESTART_DELAY_MS * restarts);
+  }
+
+  private rejectWaiters(predicate: (waiter: BestMoveWaiter) => boolean, error: Error) {
+    const rejected = this.waiters.filter(predicate);
+    this.waiters = this.waiters.filter(w => !predicate(w));
+    rejected.forEach(w => w.reject(error));
+  }
+
+  private registerOption(line: string) {
+    const option = parseOptionLine(line);
+    if (option) this.options.push(option);
+  }
+
+  /**
+   * The engine has listed its options: apply the configured values it actually supports.
+   */
+  private handleUciOk() {
+    this.uciReady = true;
+    Object.entries(this.optionValues).forEach(([name, value]) => this.sendOption(name, value));
+    this.sendMessage(`setoption name MultiPV value ${this.settings.multiPv}`);
+    this.sendMessage('isready');
+    this.optionListeners.forEach(listener => listener(this.getOptions()));
+  }
+
+  private handleReadyOk() {
+    if (this.status.state !== 'loading') return;
+    this.clearTimers();
+    this.setStatus({ state: 'ready', error: null });
+    if (this.activeFen) this.startSearch();
+  }
+
+  private handleBestMove(line: string) {
+    this.searchesInFlight = Math.max(0, this.searchesInFlight - 1);
+    if (this.searchesInFlight > 0) return;
+
+    const [, bestMove, , ponder] = line.trim().split(/\s+/);
+    const outcome: EngineBestMove = {
+      fen: this.searchFen,
+      bestMove: bestMove && bestMove !== '(none)' ? bestMove : null,
+      ponder: ponder || null,
+      result: this.currentResult()
+    };
+    this.setStatus({ state: 'ready', restarts: 0 });
+
+    const settled = this.waiters.filter(w => w.fen === outcome.fen);
+    this.waiters = this.waiters.filter(w => w.fen !== outcome.fen);
+    settled.forEach(w => w.resolve(outcome));
+  }
+
+  private sendOption(name: string, value?: UciOptionValue) {
+    const option = this.options.find(o => o.name === name);
+    if (!option) return;
+    if (option.type === 'button') this.sendMessage(`setoption name ${name}`);
+    else this.sendMessage(`setoption name ${name} value ${value}`);
   }
 
   private parseInfoLine(line: string) {
+    if (isBoundScore(line)) return;
+
     const depth = parseInt(this.extractValue(line, 'depth') || '0');
-    const nodes = parseInt(this.extractValue(line, 'nodes') || '0');
-    const pv = this.extractValue(line, 'pv');
+    const pvUci = extractPv(line);
     const multiPv = parseInt(this.extractValue(line, 'multipv') || '1');
     const cpValue = this.extractValue(line, 'cp');
     const mateValue = this.extractValue(line, 'mate');
 
-    if (pv && depth >= 6) {
-      const uciMove = pv.split(' ')[0];
-      let evaluation = 0;
-      if (mateValue) {
-        evaluation = parseInt(mateValue) > 0 ? 99 : -99;
-      } else if (cpValue) {
-        evaluation = parseInt(cpValue) / 100;
-      }
+    // Shallow iterations are noise, unless the user capped the search below that
+    const minDepth = this.settings.limit === 'depth' ? Math.min(6, this.settings.depth) : 6;
+    if (pvUci.length > 0 && depth >= minDepth) {
+      const mate = mateValue !== null ? parseInt(mateValue) : null;
+      const evaluation = mate === null && cpValue !== null ? parseInt(cpValue) / 100 : null;
 
-      let confidence = 0;
-      if (mateValue) {
-        confidence = 100;
-      } else {
-        const score = evaluation * 100;
-        // Sharpened sigmoid to make tactical advantages feel more decisive
-        confidence = Math.round(100 / (1 + Math.exp(-score / 100)));
-      }
+      const { san, uci } = pvToSan(this.activeFen, pvUci);
+      if (san.length === 0) return;
+      const tablebase = this.tablebaseMove(uci[0]);
 
       const move: EngineMove = {
-        from: uciMove.slice(0, 2).toUpperCase(),
-        to: uciMove.slice(2, 4).toUpperCase(),
-        san: uciMove,
-        evaluation: evaluation,
-        confidence: confidence
+        from: uci[0].slice(0, 2).toUpperCase(),
+        to: uci[0].slice(2, 4).toUpperCase(),
+        uci: uci[0],
+        san: san[0],
+        pv: san,
+        pvUci: uci,
+        evaluation,
+        mate,
+        confidence: scoreConfidence(evaluation, mate, tablebase),
+        depth,
+        tablebase
       };
 
       this.currentMoves.set(multiPv, move);
-      this.lastNodes = nodes;
+      this.lastNodes = parseInt(this.extractValue(line, 'nodes') || '0');
       this.lastDepth = depth;
+      this.lastSelDepth = parseInt(this.extractValue(line, 'seldepth') || '0');
+      this.lastNps = parseInt(this.extractValue(line, 'nps') || '0');
+      this.lastTime = parseInt(this.extractValue(line, 'time') || '0');
 
-      if (this.onResultCallback) {
-        const sortedMoves = Array.from(this.currentMoves.entries())
-          .sort(([a], [b]) => a - b)
-          .map(([_, m]) => m);
-
-        this.onResultCallback({
-          moves: sortedMoves,
-          nodes: this.lastNodes,
-          depth: this.lastDepth,
-          fen: this.activeFen
-        });
-      }
+      if (this.onResultCallback) this.onResultCallback(this.currentResult()!);
     }
   }
 
+  private currentResult(): EngineResult | null {
+    if (this.currentMoves.size === 0) return null;
+    const sortedMoves = Array.from(this.currentMoves.entries())
+      .filter(([idx]) => idx <= this.settings.multiPv)
+      .sort(([a], [b]) => a - b)
+      .map(([_, m]) => m);
+
+    return {
+      moves: sortedMoves,
+      nodes: this.lastNodes,
+      depth: this.lastDepth,
+      selDepth: this.lastSelDepth,
+      nps: this.lastNps,
+      time: this.lastTime,
+      fen: this.searchFen,
+      tablebase: this.tablebaseResult?.fen === this.searchFen ? this.tablebaseResult : null
+    };
+  }
+
+  private tablebaseMove(uci: string): TablebaseMove | null {
+    if (this.tablebaseResult?.fen !== this.activeFen) return null;
+    return this.tablebaseResult.moves.find(m => m.uci === uci) ?? null;
+  }
+
+  /**
+   * Looks the analysed position up once per FEN. Lines already reported are rescored when the
+   * answer arrives, since the engine may have finished before the lookup did.
+   */
+  private probeTablebase() {
+    const fen = this.activeFen;
+    if (fen === this.tablebaseFen) return;
+    this.tablebaseFen = fen;
+    this.tablebaseResult = null;
+    if (!this.tablebase || pieceCount(fen) > TABLEBASE_MAX_PIECES) return;
+
+    this.tablebase.probe(fen).then(result => {
+      if (!result || fen !== this.tablebaseFen) return;
+      this.tablebaseResult = result;
+      if (fen !== this.searchFen || this.currentMoves.size === 0) return;
+      this.currentMoves.forEach((move, index) => {
+        const tablebase = this.tablebaseMove(move.uci);
+        this.currentMoves.set(index, { ...move, tablebase, confidence: scoreConfidence(move.evaluation, move.mate, tablebase) });
+      });
+      if (this.onResultCallback) this.onResultCallback(this.currentResult()!);
+    }).catch(e => console.error("Tablebase failure:", e));
+  }
+
   private extractValue(line: string, key: string): string | null {
-    const parts = line.split(' ');
-    const index = parts.indexOf(key);
-    return (index !== -1 && index + 1 < parts.length) ? parts[index + 1] : null;
+    return extractValue(line, key);
   }
 
   private sendMessage(msg: string) {
-    this.worker?.postMessage(msg);
+    this.transport?.send(msg);
+  }
+
+  private goCommand(): string {
+    switch (this.settings.limit) {
+      case 'depth': return `go depth ${this.settings.depth}`;
+      case 'movetime': return `go movetime ${this.settings.movetime}`;
+      case 'infinite': return 'go infinite';
+    }
+  }
+
+  /**
+   * Starts a search on activeFen, or leaves it queued until the handshake completes.
+   */
+  private startSearch() {
+    this.currentMoves.clear();
+    this.probeTablebase();
+    this.rejectWaiters(w => w.fen !== this.activeFen, new EngineError('Search superseded by a new position'));
+    if (this.status.state !== 'ready' && this.status.state !== 'searching') return;
+    this.sendMessage('stop');
+    this.sendMessage(`position fen ${this.activeFen}`);
+    this.sendMessage(this.goCommand());
+    this.searchFen = this.activeFen;
+    this.searchesInFlight++;
+    this.setStatus({ state: 'searching' });
   }
 
   public analyze(fen: string, callback: (result: EngineResult) => void) {
+    this.onResultCallback = callback;
     if (this.activeFen === fen) return;
     this.activeFen = fen;
-    this.currentMoves.clear();
-    this.onResultCallback = callback;
+    this.startSearch();
+  }
+
+  /**
+   * Searches the position with the current limits and resolves on its bestmove. Info updates keep
+   * going to the live callback unless one is given here. Rejects with EngineError when another
+   * position replaces this one first or the engine dies for good; a crash with retries left just
+   * reruns the search. With an infinite limit the promise settles once stop() is called.
+   */
+  public search(fen: string, callback?: (result: EngineResult) => void): Promise<EngineBestMove> {
+    if (callback) this.onResultCallback = callback;
+    return new Promise((resolve, reject) => {
+      this.activeFen = fen;
+      this.startSearch();
+      this.waiters.push({ fen, resolve, reject });
+      if (this.status.state === 'crashed' && this.status.restarts > MAX_ENGINE_RESTARTS) this.restart();
+    });
+  }
+
+  public getStatus(): EngineStatus {
+    return { ...this.status };
+  }
+
+  /**
+   * Subscribes to lifecycle changes; fires immediately with the current status.
+   */
+  public onStatus(listener: (status: EngineStatus) => void): () => void {
+    this.statusListeners.push(listener);
+    listener(this.getStatus());
+    return () => {
+      this.statusListeners = this.statusListeners.filter(l => l !== listener);
+    };
+  }
+
+  /**
+   * Manual restart, also after automatic retries ran out. Keeps options and the analysed FEN.
+   */
+  public restart() {
+    this.clearTimers();
+    this.closeTransport();
+    this.status = { ...this.status, restarts: 0, error: null };
+    this.init();
+  }
+
+  public getSearchSettings(): SearchSettings {
+    return { ...this.settings };
+  }
+
+  /**
+   * Applies new search limits and restarts the running analysis so the change is visible at once.
+   */
+  public setSearchSettings(update: Partial<SearchSettings>) {
+    const multiPv = Math.max(1, Math.min(MAX_MULTI_PV, update.multiPv ?? this.settings.multiPv));
+    this.settings = { ...this.settings, ...update, multiPv };
+    if (!this.uciReady) return;
+    this.sendMessage('stop');
+    this.sendMessage(`setoption name MultiPV value ${multiPv}`);
+    if (this.activeFen) this.startSearch();
+  }
+
+  /**
+   * Which backend is running and the name the engine reported in its uci handshake.
+   */
+  public describe(): EngineDescription {
+    const label = this.backend.kind === 'bridge' ? `${this.backend.engine} via local bridge` : this.build.label;
+    return { backend: this.backend.kind, label, engineName: this.engineName };
+  }
+
+  public getBackend(): EngineBackend {
+    return { ...this.backend };
+  }
+
+  /**
+   * Switches backend and restarts. Option values are kept and re-sent where the new engine
+   * supports them.
+   */
+  public setBackend(backend: EngineBackend) {
+    this.backend = { ...backend };
+    this.engineName = '';
+    this.restart();
+  }
+
+  public getOptions(): UciOption[] {
+    return this.options.map(o => ({ ...o }));
+  }
+
+  public getOptionValues(): Record<string, UciOptionValue> {
+    return { ...this.optionValues };
+  }
+
+  /**
+   * Subscribes to the option list; fires immediately when the handshake already completed.
+   */
+  public onOptions(listener: (options: UciOption[]) => void): () => void {
+    this.optionListeners.push(listener);
+    if (this.uciReady) listener(this.getOptions());
+    return () => {
+      this.optionListeners = this.optionListeners.filter(l => l !== listener);
+    };
+  }
+
+  public setOption(name: string, value?: UciOptionValue) {
+    if (RESERVED_OPTIONS.includes(name)) return;
+    const option = this.options.find(o => o.name === name);
+    if (option?.type !== 'button' && value !== undefined) this.optionValues[name] = value;
+    if (!this.uciReady) return;
     this.sendMessage('stop');
-    this.sendMessage(`position fen ${fen}`);
-    this.sendMessage('go depth 18 movetime 2500'); 
+    this.sendOption(name, value);
+    if (this.activeFen) this.startSearch();
+  }
+
+  /**
+   * Replaces every engine option and search setting. Options the new set leaves out fall back
+   * to the engine's own defaults.
+   */
+  public applyConfiguration(values: Record<string, UciOptionValue>, search: SearchSettings) {
+    const dropped = Object.keys(this.optionValues).filter(name => !(name in values));
+    this.optionValues = { ...values };
+    if (this.uciReady) {
+      this.sendMessage('stop');
+      dropped.forEach(name => {
+        const option = this.options.find(o => o.name === name);
+        if (option?.default !== undefined) this.sendOption(name, option.default);
+      });
+      Object.entries(values).forEach(([name, value]) => this.sendOption(name, value));
+    }
+    this.setSearchSettings(search);
+  }
+
+  /**
+   * Source of exact endgame results; null turns lookups off.
+   */
+  public setTablebase(provider: TablebaseProvider | null) {
+    this.tablebase = provider;
+    this.tablebaseFen = '';
+    if (this.activeFen) this.probeTablebase();
   }
 
   public stop() {
@@ -136,4 +847,130 @@ class StockfishEngine {
   }
 }
 
-export const engine = new StockfishEngine();
+interface BatchQueueEntry {
+  fens: string[];
+  depth: number;
+  multiPv: number;
+  onProgress?: (p: BatchProgress) => void;
+  resolve: (r: PositionEvaluation[]) => void;
+  reject: (e: Error) => void;
+  cancelled: boolean;
+}
+
+/**
+ * BATCH ANALYZER
+ * Runs a dedicated worker so whole-game reviews never interrupt the live engine.
+ * Jobs are queued and processed one position at a time with progress reporting.
+ */
+class BatchAnalyzer {
+  private worker: Worker | null = null;
+  private queue: BatchQueueEntry[] = [];
+  private running = false;
+  private lineHandler: ((line: string) => void) | null = null;
+  private errorHandler: ((error: Error) => void) | null = null;
+
+  private ensureWorker(): Worker {
+    if (!this.worker) {
+      this.worker = createStockfishWorker();
+      this.worker.onmessage = (e) => {
+        if (typeof e.data === 'string' && this.lineHandler) this.lineHandler(e.data);
+      };
+      // A dead worker fails the running job; the next job gets a fresh one
+      this.worker.onerror = (e) => {
+        e.preventDefault();
+        this.worker?.terminate();
+        this.worker = null;
+        this.lineHandler = null;
+        this.errorHandler?.(new EngineError(`Analysis engine crashed: ${e.message || 'worker error'}`));
+      };
+      this.worker.postMessage('uci');
+      this.worker.postMessage('isready');
+    }
+    return this.worker;
+  }
+
+  private evaluate(fen: string, depth: number, multiPv: number): Promise<PositionEvaluation> {
+    const worker = this.ensureWorker();
+    return new Promise((resolve, reject) => {
+      const result: PositionEvaluation = { fen, cp: null, mate: null, bestMove: null, depth: 0, lines: [] };
+      this.errorHandler = reject;
+      this.lineHandler = (line) => {
+        if (line.startsWith('info') && line.includes(' pv ')) {
+          if (isBoundScore(line)) return;
+          const index = parseInt(extractValue(line, 'multipv') || '1') - 1;
+          const cp = extractValue(line, 'cp');
+          const mate = extractValue(line, 'mate');
+          const evaluated: EvaluatedLine = {
+            move: extractValue(line, 'pv') || '',
+            cp: cp !== null ? parseInt(cp) : null,
+            mate: mate !== null ? parseInt(mate) : null
+          };
+          result.lines[index] = evaluated;
+          if (index !== 0) return;
+          result.depth = parseInt(extractValue(line, 'depth') || '0');
+          result.cp = evaluated.cp;
+          result.mate = evaluated.mate;
+        } else if (line.startsWith('bestmove')) {
+          const move = line.split(' ')[1];
+          result.bestMove = move && move !== '(none)' ? move : null;
+          // Lines from an unfinished deeper iteration can leave gaps in a multi-PV result
+          result.lines = result.lines.filter(Boolean);
+          this.lineHandler = null;
+          this.errorHandler = null;
+          resolve(result);
+        }
+      };
+      worker.postMessage(`setoption name MultiPV value ${multiPv}`);
+      worker.postMessage(`position fen ${fen}`);
+      worker.postMessage(`go depth ${depth}`);
+    });
+  }
+
+  private async drain() {
+    if (this.running) return;
+    this.running = true;
+    while (this.queue.length > 0) {
+      const job = this.queue[0];
+      const results: PositionEvaluation[] = [];
+      try {
+        for (const fen of job.fens) {
+          if (job.cancelled) break;
+          const evaluation = await this.evaluate(fen, job.depth, job.multiPv);
+          results.push(evaluation);
+          job.onProgress?.({ completed: results.length, total: job.fens.length, latest: evaluation });
+        }
+        if (job.cancelled) job.reject(new Error('Batch analysis cancelled'));
+        else job.resolve(results);
+      } catch (e: any) {
+        job.reject(e instanceof Error ? e : new Error(String(e)));
+      }
+      this.queue.shift();
+    }
+    this.running = false;
+  }
+
+  /**
+   * Queues positions for analysis. With multiPv above 1 every evaluation also lists the
+   * runner-up lines, which is slower by about that factor.
+   */
+  public analyze(fens: string[], depth: number = 14, onProgress?: (p: BatchProgress) => void, multiPv: number = 1): BatchJob {
+    let entry: BatchQueueEntry | null = null;
+    const promise = new Promise<PositionEvaluation[]>((resolve, reject) => {
+      entry = { fens, depth, multiPv, onProgress, resolve, reject, cancelled: false };
+      this.queue.push(entry);
+    });
+    onProgress?.({ completed: 0, total: fens.length, latest: null });
+    this.drain();
+    return {
+      promise,
+      cancel: () => {
+        if (!entry) return;
+        entry.cancelled = true;
+        if (this.queue[0] === entry) this.worker?.postMessage('stop');
+      }
+    };
+  }
+}
+
+export const engine: Engine = new UciEngine(loadEngineBackend());
+export const batchAnalyzer = new BatchAnalyzer();
@@ -0,0 +1,213 @@
+import { BoardBox } from './boardLocatorService';
+import { CaptureMode } from '../types';
+
+/**
+ * FAIR PLAY SERVICE
+ * PURPOSE: Keeps engine help away from games that are still being played online.
+ * A captured window counts as a live game when a clock next to the board is ticking, when the
+ * vision model sees a game-in-progress layout, or when the user says so. While it does, the app
+ * only records moves; analysis returns once the game is over.
+ */
+
+export interface FairPlaySettings {
+  enabled: boolean;
+}
+
+/**
+ * Why analysis is locked; 'checking' while a new screen capture has not been watched long enough,
+ * 'seen' for a game that showed a live sign earlier and has not ended since.
+ */
+export type LiveSignal = 'declared' | 'clock' | 'layout' | 'checking' | 'seen';
+
+export type ClockState = 'unknown' | 'ticking' | 'quiet';
+
+export interface FairPlayStatus {
+  locked: boolean;
+  signal: LiveSignal | null;
+}
+
+export interface FairPlayInput {
+  settings: FairPlaySettings;
+  mode: CaptureMode;
+  isStreaming: boolean;
+  declaredLive: boolean;
+  /** The game on screen showed a clock or a live layout at some point; see isLiveSign. */
+  seenLive: boolean;
+  clock: ClockState;
+  /** What the vision model made of the page around the board; null when it only saw the board. */
+  layoutLive: boolean | null;
+  gameOver: boolean;
+}
+
+const SETTINGS_KEY = 'chessVision.fairPlay';
+
+// Builds can make the guard mandatory, e.g. for juniors: FAIR_PLAY_ENFORCED=true npm run build
+export const FAIR_PLAY_ENFORCED = process.env.FAIR_PLAY_ENFORCED === 'true';
+
+export const loadFairPlaySettings = (): FairPlaySettings => {
+  if (FAIR_PLAY_ENFORCED) return { enabled: true };
+  try {
+    const parsed = JSON.parse(localStorage.getItem(SETTINGS_KEY) || 'null');
+    if (parsed && typeof parsed.enabled === 'boolean') return { enabled: parsed.enabled };
+  } catch (e) {}
+  return { enabled: true };
+};
+
+export const saveFairPlaySettings = (settings: FairPlaySettings) => {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.error("Fair play storage failure:", e);
+  }
+};
+
+/**
+ * Whether engine output must be withheld. A finished game unlocks everything, including a
+ * game the user declared live. A game once seen live stays locked when the capture stops or
+ * switches to the camera, so ending the share does not bring analysis of it back.
+ */
+export const fairPlayStatus = (input: FairPlayInput): FairPlayStatus => {
+  if (!input.settings.enabled || input.gameOver) return { locked: false, signal: null };
+  if (input.declaredLive) return { locked: true, signal: 'declared' };
+  const watching = input.mode === CaptureMode.SCREEN && input.isStreaming;
+  if (watching && input.layoutLive) return { locked: true, signal: 'layout' };
+  if (watching && input.clock === 'ticking') return { locked: true, signal: 'clock' };
+  if (input.seenLive) return { locked: true, signal: 'seen' };
+  // Camera mode films a physical board; only a declaration locks it
+  if (!watching) return { locked: false, signal: null };
+  // Without a crop the clock cannot be watched; the model having seen a finished game is enough then
+  if (input.clock === 'unknown' && input.layoutLive === null) return { locked: true, signal: 'checking' };
+  return { locked: false, signal: null };
+};
+
+/** Signals that show the game itself is live, as opposed to not having looked long enough. */
+export const isLiveSign = (signal: LiveSignal | null): boolean => signal === 'clock' || signal === 'layout';
+
+// The page is read in cells of this many pixels of the downscaled locator frame
+const CELL = 4;
+// Mean luminance step that marks a cell as changed
+const CELL_THRESHOLD = 12;
+// A clock changes a few digits; a change bigger than this share of the search area is scrolling or a new page
+const MAX_TICK_SHARE = 0.08;
+// Clocks sit beside, above or below the board, within these shares of its size
+const SIDE_REACH = 0.6;
+const END_REACH = 0.3;
+// Consecutive frames with a change in the same place before a clock counts as ticking
+const TICKS_NEEDED = 3;
+// Overlap between the changed patches of consecutive frames that counts as the same place; a
+// moving mouse pointer only ever overlaps its previous position by a third or so
+const SAME_PLACE_OVERLAP = 0.4;
+// A clock is still ticking this long after its last tick; online clocks never pause mid-game
+const TICK_MEMORY_MS = 10000;
+// Frames watched before a quiet page counts as no live game
+const FRAMES_TO_CLEAR = 6;
+
+interface Patch {
+  left: number;
+  right: number;
+  top: number;
+  bottom: number;
+}
+
+const patchOverlap = (a: Patch, b: Patch): number => {
+  const ix = Math.max(0, Math.min(a.right, b.right) - Math.max(a.left, b.left));
+  const iy = Math.max(0, Math.min(a.bottom, b.bottom) - Math.max(a.top, b.top));
+  const area = (p: Patch) => (p.right - p.left) * (p.bottom - p.top);
+  return (ix * iy) / (area(a) + area(b) - ix * iy);
+};
+
+const sameBoard = (a: BoardBox, b: BoardBox) =>
+  Math.abs(a.xmin - b.xmin) < 5 && Math.abs(a.ymin - b.ymin) < 5 && Math.abs(a.xmax - b.xmax) < 5 && Math.abs(a.ymax - b.ymax) < 5;
+
+/**
+ * Watches the page around the board for a running clock: a small patch that changes from frame
+ * to frame while everything else holds still.
+ */
+export class ClockWatcher {
+  private previous: { cells: Float32Array; columns: number; board: BoardBox } | null = null;
+  private lastPatch: Patch | null = null;
+  private streak = 0;
+  private lastTick = 0;
+  private frames = 0;
+
+  public observe(frame: ImageData, board: BoardBox, now: number = Date.now()): ClockState {
+    const columns = Math.floor(frame.width / CELL);
+    const rows = Math.floor(frame.height / CELL);
+    const cells = new Float32Array(columns * rows);
+    for (let row = 0; row < rows; row++) {
+      for (let col = 0; col < columns; col++) {
+        let sum = 0;
+        for (let y = 0; y < CELL; y++) {
+          for (let x = 0; x < CELL; x++) {
+            const i = ((row * CELL + y) * frame.width + col * CELL + x) * 4;
+            sum += 0.299 * frame.data[i] + 0.587 * frame.data[i + 1] + 0.114 * frame.data[i + 2];
+          }
+        }
+        cells[row * columns + col] = sum / (CELL * CELL);
+      }
+    }
+
+    const previous = this.previous;
+    this.previous = { cells, columns, board };
+    this.frames++;
+    // A moved board means a moved page; comparing across it would find changes everywhere
+    if (!previous || previous.columns !== columns || !sameBoard(previous.board, board)) {
+      this.streak = 0;
+      return this.state(now);
+    }
+
+    const width = board.xmax - board.xmin;
+    const height = board.ymax - board.ymin;
+    const toCol = (v: number) => Math.floor((v / 1000) * columns);
+    const toRow = (v: number) => Math.floor((v / 1000) * rows);
+    const area = {
+      left: Math.max(0, toCol(board.xmin - width * SIDE_REACH)),
+      right: Math.min(columns, toCol(board.xmax + width * SIDE_REACH)),
+      top: Math.max(0, toRow(board.ymin - height * END_REACH)),
+      bottom: Math.min(rows, toRow(board.ymax + height * END_REACH))
+    };
+    const inBoard = (col: number, row: number) =>
+      col >= toCol(board.xmin) - 1 && col <= toCol(board.xmax) + 1 && row >= toRow(board.ymin) - 1 && row <= toRow(board.ymax) + 1;
+
+    let changed = 0;
+    let searched = 0;
+    const patch: Patch = { left: columns, right: -1, top: rows, bottom: -1 };
+    for (let row = area.top; row < area.bottom; row++) {
+      for (let col = area.left; col < area.right; col++) {
+        if (inBoard(col, row)) continue;
+        searched++;
+        const i = row * columns + col;
+        if (Math.abs(cells[i] - previous.cells[i]) <= CELL_THRESHOLD) continue;
+        changed++;
+        patch.left = Math.min(patch.left, col);
+        patch.right = Math.max(patch.right, col + 1);
+        patch.top = Math.min(patch.top, row);
+        patch.bottom = Math.max(patch.bottom, row + 1);
+      }
+    }
+
+    if (changed === 0 || changed > searched * MAX_TICK_SHARE) {
+      this.streak = 0;
+      this.lastPatch = null;
+      return this.state(now);
+    }
+
+    this.streak = this.lastPatch && patchOverlap(patch, this.lastPatch) >= SAME_PLACE_OVERLAP ? this.streak + 1 : 1;
+    this.lastPatch = patch;
+    if (this.streak >= TICKS_NEEDED) this.lastTick = now;
+    return this.state(now);
+  }
+
+  public reset() {
+    this.previous = null;
+    this.lastPatch = null;
+    this.streak = 0;
+    this.lastTick = 0;
+    this.frames = 0;
+  }
+
+  private state(now: number): ClockState {
+    if (this.lastTick && now - this.lastTick < TICK_MEMORY_MS) return 'ticking';
+    return this.frames >= FRAMES_TO_CLEAR ? 'quiet' : 'unknown';
+  }
+}
@@ -0,0 +1,558 @@
+import { Chess } from 'chess.js';
+import { INITIAL_FEN } from '../types';
+import { MoveNode } from './pgnService';
+import { formatClk, parseClockComment, stripClockCommand } from './clockService';
+
+/**
+ * GAME RECORD SERVICE
+ * PURPOSE: Keeps the move tree of a captured game and exports it as standard PGN.
+ * Live moves (vision inference or manual play) extend the main line; moves made from earlier
+ * positions open side lines that can be promoted, annotated or deleted without touching the game.
+ */
+
+export interface RecordedMove {
+  id: number;
+  ply: number;
+  moveNumber: number;
+  color: 'w' | 'b';
+  san: string;
+  from: string;
+  to: string;
+  promotion?: string;
+  fenAfter: string;
+  timestamp: number;
+  /** Engine score (pawns, from the mover's side) of the position the move led to. */
+  evaluation: number | null;
+  /** Seconds left on the mover's clock after the move, when a clock was running. */
+  clock?: number;
+  comment?: string;
+  /** Comment written before the move, e.g. at the start of a variation. */
+  commentBefore?: string;
+  nags?: number[];
+}
+
+export interface RecordTreeNode {
+  move: RecordedMove | null;
+  children: RecordTreeNode[];
+}
+
+export interface PgnHeaders {
+  event?: string;
+  site?: string;
+  round?: string;
+  white?: string;
+  black?: string;
+  result?: string;
+  date?: Date;
+  eco?: string;
+  opening?: string;
+  timeControl?: string;
+}
+
+/** The record as plain data, for keeping it across page loads. */
+export interface RecordSnapshot {
+  startFen: string;
+  startedAt: number;
+  headers: Record<string, string>;
+  startComment?: string;
+  tree: RecordTreeNode;
+}
+
+interface RecordNode {
+  move: RecordedMove | null;
+  fen: string;
+  parent: RecordNode | null;
+  /** children[0] is the main continuation, the rest are side lines. */
+  children: RecordNode[];
+}
+
+export const ROOT_ID = 0;
+
+const formatPgnDate = (date: Date): string => {
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${date.getFullYear()}.${pad(date.getMonth() + 1)}.${pad(date.getDate())}`;
+};
+
+const STANDARD_TAGS = ['Event', 'Site', 'Date', 'Round', 'White', 'Black', 'Result', 'SetUp', 'FEN'];
+
+const escapeHeader = (value: string): string => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+
+// PGN comments cannot be escaped: a "}" would end the comment, so it is dropped
+const commentToken = (comment: string): string => `{${comment.replace(/}/g, '')}}`;
+
+/**
+ * Wraps movetext tokens to the 80 column limit recommended by the PGN standard.
+ */
+export const wrapMovetext = (tokens: string[], maxWidth: number = 80): string => {
+  const lines: string[] = [];
+  let line = '';
+  for (const token of tokens) {
+    if (line.length > 0 && line.length + 1 + token.length > maxWidth) {
+      lines.push(line);
+      line = token;
+    } else {
+      line = line.length > 0 ? `${line} ${token}` : token;
+    }
+  }
+  if (line.length > 0) lines.push(line);
+  return lines.join('\n');
+};
+
+export class GameRecord {
+  private startFen: string;
+  private root: RecordNode;
+  private nodes: Map<number, RecordNode> = new Map();
+  private idCounter = ROOT_ID + 1;
+  private startedAt: Date = new Date();
+  private headers: Record<string, string> = {};
+  /** Comment before the first move, about the game as a whole. */
+  private startComment?: string;
+
+  constructor(startFen: string = INITIAL_FEN) {
+    this.startFen = startFen;
+    this.root = this.createRoot(startFen);
+  }
+
+  private createRoot(fen: string): RecordNode {
+    const root: RecordNode = { move: null, fen, parent: null, children: [] };
+    this.nodes = new Map([[ROOT_ID, root]]);
+    this.idCounter = ROOT_ID + 1;
+    return root;
+  }
+
+  public reset(startFen: string = INITIAL_FEN) {
+    this.startFen = startFen;
+    this.root = this.createRoot(startFen);
+    this.startedAt = new Date();
+    this.headers = {};
+    this.startComment = undefined;
+  }
+
+  /**
+   * Replaces the record with an imported game tree. Headers are kept and re-emitted on export.
+   */
+  public load(startFen: string, root: MoveNode, headers: Record<string, string> = {}) {
+    this.reset(startFen);
+    this.headers = { ...headers };
+    this.startComment = root.comment;
+    const copy = (source: MoveNode, target: RecordNode) => {
+      for (const child of source.children) {
+        // Clock times move from the comment into the move, and are written back from there on export
+        const node = this.appendChild(target, { from: child.from, to: child.to, promotion: child.promotion }, null, 0, parseClockComment(child.comment) ?? undefined);
+        if (!node || !node.move) return;
+        node.move.comment = stripClockCommand(child.comment);
+        node.move.commentBefore = child.commentBefore;
+        node.move.nags = child.nags.length ? [...child.nags] : undefined;
+        copy(child, node);
+      }
+    };
+    copy(root, this.root);
+  }
+
+  /** The whole record as plain data, e.g. for saving the session. */
+  public snapshot(): RecordSnapshot {
+    return {
+      startFen: this.startFen,
+      startedAt: this.startedAt.getTime(),
+      headers: { ...this.headers },
+      startComment: this.startComment,
+      tree: this.getTree()
+    };
+  }
+
+  /**
+   * Rebuilds the record from a snapshot, keeping evaluations, times and annotations. Move ids are
+   * handed out afresh, so ids from before the restore no longer apply.
+   */
+  public restore(snapshot: RecordSnapshot) {
+    this.reset(snapshot.startFen);
+    this.startedAt = new Date(snapshot.startedAt);
+    this.headers = { ...snapshot.headers };
+    this.startComment = snapshot.startComment;
+    const copy = (source: RecordTreeNode, target: RecordNode) => {
+      for (const child of source.children) {
+        const move = child.move!;
+        const node = this.appendChild(target, move, move.evaluation, move.timestamp, move.clock);
+        if (!node || !node.move) return;
+        node.move.comment = move.comment;
+        node.move.commentBefore = move.commentBefore;
+        node.move.nags = move.nags ? [...move.nags] : undefined;
+        copy(child, node);
+      }
+    };
+    copy(snapshot.tree, this.root);
+  }
+
+  /**
+   * Puts a different starting position under the recorded moves, e.g. once the user has
+   * confirmed side to move and castling rights of a game synced mid-way. Returns false, leaving
+   * the record untouched, when a main line move is not legal from the new start; side lines that
+   * stop being legal are dropped.
+   */
+  public changeStartFen(startFen: string): boolean {
+    const previous = { startFen: this.startFen, root: this.root, nodes: this.nodes, idCounter: this.idCounter };
+    this.startFen = startFen;
+    this.root = this.createRoot(startFen);
+
+    let mainlineIntact = true;
+    const copy = (source: RecordNode, target: RecordNode, onMainline: boolean) => {
+      source.children.forEach((child, i) => {
+        const move = child.move!;
+        const node = this.appendChild(target, move, move.evaluation, move.timestamp, move.clock);
+        if (!node || !node.move) {
+          if (onMainline && i === 0) mainlineIntact = false;
+          return;
+        }
+        node.move.comment = move.comment;
+        node.move.commentBefore = move.commentBefore;
+        node.move.nags = move.nags;
+        copy(child, node, onMainline && i === 0);
+      });
+    };
+    copy(previous.root, this.root, true);
+
+    if (!mainlineIntact) {
+      this.startFen = previous.startFen;
+      this.root = previous.root;
+      this.nodes = previous.nodes;
+      this.idCounter = previous.idCounter;
+    }
+    return mainlineIntact;
+  }
+
+  public getHeaders(): Record<string, string> {
+    return { ...this.headers };
+  }
+
+  public getStartComment(): string | undefined {
+    return this.startComment;
+  }
+
+  public setStartComment(comment: string) {
+    this.startComment = comment.trim() || undefined;
+  }
+
+  public getStartFen(): string {
+    return this.startFen;
+  }
+
+  private mainlineNodes(): RecordNode[] {
+    const line: RecordNode[] = [];
+    let node = this.root.children[0];
+    while (node) {
+      line.push(node);
+      node = node.children[0];
+    }
+    return line;
+  }
+
+  private tip(): RecordNode {
+    const line = this.mainlineNodes();
+    return line[line.length - 1] || this.root;
+  }
+
+  /**
+   * Moves of the main line, i.e. the game itself.
+   */
+  public getMoves(): RecordedMove[] {
+    return this.mainlineNodes().map(n => n.move!);
+  }
+
+  public currentFen(): string {
+    return this.tip().fen;
+  }
+
+  public tipId(): number {
+    return this.tip().move?.id ?? ROOT_ID;
+  }
+
+  public has(id: number): boolean {
+    return this.nodes.has(id);
+  }
+
+  public fenOf(id: number): string {
+    return this.nodes.get(id)?.fen ?? this.startFen;
+  }
+
+  public getMove(id: number): RecordedMove | null {
+    return this.nodes.get(id)?.move ?? null;
+  }
+
+  /**
+   * Moves leading from the start position to the given node, in order.
+   */
+  public lineTo(id: number): RecordedMove[] {
+    const line: RecordedMove[] = [];
+    let node = this.nodes.get(id);
+    while (node?.move) {
+      line.unshift(node.move);
+      node = node.parent ?? undefined;
+    }
+    return line;
+  }
+
+  public parentId(id: number): number | null {
+    const parent = this.nodes.get(id)?.parent;
+    if (!parent) return null;
+    return parent.move?.id ?? ROOT_ID;
+  }
+
+  /**
+   * Id of the main continuation from the given node, if any.
+   */
+  public nextId(id: number): number | null {
+    return this.nodes.get(id)?.children[0]?.move?.id ?? null;
+  }
+
+  /**
+   * Last node reached by following main continuations from the given node.
+   */
+  public lineEndId(id: number): number {
+    let node = this.nodes.get(id);
+    while (node && node.children[0]) node = node.children[0];
+    return node?.move?.id ?? ROOT_ID;
+  }
+
+  public isMainline(id: number): boolean {
+    let node = this.nodes.get(id);
+    while (node?.parent) {
+      if (node.parent.children[0] !== node) return false;
+      node = node.parent;
+    }
+    return !!node;
+  }
+
+  /**
+   * Immutable snapshot of the tree for rendering.
+   */
+  public getTree(): RecordTreeNode {
+    const snapshot = (node: RecordNode): RecordTreeNode => ({
+      move: node.move ? { ...node.move } : null,
+      children: node.children.map(snapshot)
+    });
+    return snapshot(this.root);
+  }
+
+  private appendChild(
+    parent: RecordNode,
+    move: { from: string; to: string; promotion?: string },
+    evaluation: number | null,
+    timestamp: number,
+    clock?: number
+  ): RecordNode | null {
+    const game = new Chess(parent.fen);
+    const moveNumber = game.moveNumber();
+    try {
+      const played = game.move({ from: move.from, to: move.to, promotion: move.promotion });
+      const existing = parent.children.find(c => c.move?.san === played.san);
+      if (existing) return existing;
+      const node: RecordNode = {
+        move: {
+          id: this.idCounter++,
+          ply: (parent.move?.ply ?? 0) + 1,
+          moveNumber,
+          color: played.color,
+          san: played.san,
+          from: played.from,
+          to: played.to,
+          promotion: played.promotion,
+          fenAfter: played.after,
+          timestamp,
+          evaluation,
+          ...(clock !== undefined ? { clock } : {})
+        },
+        fen: played.after,
+        parent,
+        children: []
+      };
+      parent.children.push(node);
+      this.nodes.set(node.move!.id, node);
+      return node;
+    } catch (e) {
+      return null;
+    }
+  }
+
+  /**
+   * Appends a move to the end of the main line.
+   * Returns null when the move is not legal there, so a desynced caller never corrupts the record.
+   */
+  public addMove(
+    move: { from: string; to: string; promotion?: string },
+    evaluation: number | null = null,
+    timestamp: number = Date.now(),
+    clock?: number
+  ): RecordedMove | null {
+    return this.appendChild(this.tip(), move, evaluation, timestamp, clock)?.move ?? null;
+  }
+
+  /**
+   * Plays a move from any node. Repeating an existing move reuses it; a new move from a node that
+   * already has a continuation opens a side line.
+   */
+  public addMoveAt(
+    parentId: number,
+    move: { from: string; to: string; promotion?: string },
+    evaluation: number | null = null,
+    timestamp: number = Date.now()
+  ): RecordedMove | null {
+    const parent = this.nodes.get(parentId);
+    if (!parent) return null;
+    return this.appendChild(parent, move, evaluation, timestamp)?.move ?? null;
+  }
+
+  /**
+   * Makes the line through the given node the main line at every branch point above it.
+   */
+  public promoteToMainline(id: number): boolean {
+    let node = this.nodes.get(id);
+    if (!node || !node.parent) return false;
+    while (node.parent) {
+      const siblings: RecordNode[] = node.parent.children;
+      siblings.splice(siblings.indexOf(node), 1);
+      siblings.unshift(node);
+      node = node.parent;
+    }
+    return true;
+  }
+
+  /**
+   * Removes a side line from the given node onwards. Main line moves are the game and stay put.
+   */
+  public deleteVariation(id: number): boolean {
+    const node = this.nodes.get(id);
+    if (!node || !node.parent || this.isMainline(id)) return false;
+    const siblings = node.parent.children;
+    siblings.splice(siblings.indexOf(node), 1);
+    const forget = (n: RecordNode) => {
+      if (n.move) this.nodes.delete(n.move.id);
+      n.children.forEach(forget);
+    };
+    forget(node);
+    return true;
+  }
+
+  /**
+   * Stores the engine's score for a position on every move that leads to it. The score is for the
+   * side to move there, which is the mover's opponent. Returns whether any move changed.
+   */
+  public setEvaluation(fen: string, evaluation: number): boolean {
+    let changed = false;
+    this.nodes.forEach(node => {
+      if (!node.move || node.fen !== fen || node.move.evaluation === -evaluation) return;
+      node.move.evaluation = -evaluation;
+      changed = true;
+    });
+    return changed;
+  }
+
+  public annotate(id: number, comment: string, nags?: number[]): boolean {
+    const move = this.nodes.get(id)?.move;
+    if (!move) return false;
+    move.comment = comment.trim() || undefined;
+    if (nags) move.nags = nags.length ? [...nags] : undefined;
+    return true;
+  }
+
+  /**
+   * Takes back the last main line move together with any side lines hanging off it.
+   */
+  public undo(): RecordedMove | null {
+    const tip = this.tip();
+    if (!tip.parent || !tip.move) return null;
+    tip.parent.children.splice(tip.parent.children.indexOf(tip), 1);
+    this.nodes.delete(tip.move.id);
+    return tip.move;
+  }
+
+  /**
+   * Result derived from the final main line position; "*" while the game is still running.
+   */
+  public result(): string {
+    const game = new Chess(this.currentFen());
+    if (game.isCheckmate()) return game.turn() === 'w' ? '0-1' : '1-0';
+    if (game.isDraw() || game.isStalemate()) return '1/2-1/2';
+    return '*';
+  }
+
+  private moveTokens(move: RecordedMove, forceNumber: boolean): string[] {
+    const tokens: string[] = [];
+    if (move.commentBefore) tokens.push(commentToken(move.commentBefore));
+    if (move.color === 'w') tokens.push(`${move.moveNumber}.`);
+    else if (forceNumber) tokens.push(`${move.moveNumber}...`);
+    tokens.push(move.san);
+    move.nags?.forEach(nag => tokens.push(`$${nag}`));
+    if (move.comment) tokens.push(commentToken(move.comment));
+    const commands: string[] = [];
+    if (move.evaluation !== null) {
+      // Stored score is relative to the mover; PGN eval comments are always from White's side
+      const whiteEval = move.color === 'w' ? move.evaluation : -move.evaluation;
+      commands.push(`[%eval ${whiteEval.toFixed(2)}]`);
+    }
+    if (move.clock !== undefined) commands.push(`[%clk ${formatClk(move.clock)}]`);
+    if (commands.length) tokens.push(`{${commands.join(' ')}}`);
+    return tokens;
+  }
+
+  private lineTokens(from: RecordNode, forceNumber: boolean): string[] {
+    const tokens: string[] = [];
+    let node = from;
+    let force = forceNumber;
+    while (node.children.length > 0) {
+      const [main, ...variations] = node.children;
+      tokens.push(...this.moveTokens(main.move!, force));
+      force = false;
+      for (const variation of variations) {
+        tokens.push('(', ...this.moveTokens(variation.move!, true), ...this.lineTokens(variation, false), ')');
+        force = true;
+      }
+      node = main;
+    }
+    return tokens;
+  }
+
+  public toPgn(headers: PgnHeaders = {}): string {
+    const imported = this.headers;
+    const result = headers.result || (this.result() !== '*' ? this.result() : imported.Result || '*');
+    const tags: [string, string][] = [
+      ['Event', headers.event || imported.Event || 'Casual Game'],
+      ['Site', headers.site || imported.Site || '?'],
+      ['Date', headers.date ? formatPgnDate(headers.date) : imported.Date || formatPgnDate(this.startedAt)],
+      ['Round', headers.round || imported.Round || '-'],
+      ['White', headers.white || imported.White || '?'],
+      ['Black', headers.black || imported.Black || '?'],
+      ['Result', result]
+    ];
+    if (this.startFen !== INITIAL_FEN) {
+      tags.push(['SetUp', '1']);
+      tags.push(['FEN', this.startFen]);
+    }
+    if (headers.eco) tags.push(['ECO', headers.eco]);
+    if (headers.opening) tags.push(['Opening', headers.opening]);
+    if (headers.timeControl) tags.push(['TimeControl', headers.timeControl]);
+    Object.entries(imported)
+      .filter(([k]) => !STANDARD_TAGS.includes(k) && !tags.some(([tag]) => tag === k))
+      .forEach(([k, v]) => tags.push([k, v]));
+
+    // Parentheses hug their contents in export format: "( 5. Nf3 )" becomes "(5. Nf3)"
+    const opening = this.startComment ? [commentToken(this.startComment)] : [];
+    const tokens = [...opening, ...this.lineTokens(this.root, true), result].reduce<string[]>((acc, token) => {
+      const last = acc.length - 1;
+      if (last >= 0 && (acc[last].endsWith('(') || token === ')')) acc[last] += token;
+      else acc.push(token);
+      return acc;
+    }, []);
+
+    const headerBlock = tags.map(([k, v]) => `[${k} "${escapeHeader(v)}"]`).join('\n');
+    return `${headerBlock}\n\n${wrapMovetext(tokens)}\n`;
+  }
+}
+
+export const downloadPgn = (pgn: string, filename: string = 'game.pgn') => {
+  const url = URL.createObjectURL(new Blob([pgn], { type: 'application/x-chess-pgn' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
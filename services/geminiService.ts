@@ -1,2 +1,86 @@
+import { GoogleGenAI, Type } from "@google/genai";
+import { VisionProvider, VisionRequest, VisionResult, buildVisionPrompt, parseVisionAnswer, visionFailure } from "./visionService";
 
-// This file has been deprecated and replaced by visionService.ts to support multi-model integration.
+/**
+ * GEMINI VISION PROVIDER
+ * PURPOSE: Board recognition through Google's Gemini models.
+ * The key defaults to the API_KEY baked in at build time (see vite.config.ts).
+ */
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-3-flash-preview';
+
+export interface GeminiProviderOptions {
+  model?: string;
+  apiKey?: string;
+}
+
+const RESPONSE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    placement: { type: Type.STRING },
+    bottomColor: { type: Type.STRING, enum: ['white', 'black'] },
+    boundingBox: {
+      type: Type.OBJECT,
+      properties: {
+        ymin: { type: Type.NUMBER },
+        xmin: { type: Type.NUMBER },
+        ymax: { type: Type.NUMBER },
+        xmax: { type: Type.NUMBER },
+      },
+      required: ["ymin", "xmin", "ymax", "xmax"],
+    },
+    confidence: { type: Type.NUMBER },
+    liveGame: { type: Type.BOOLEAN },
+    uncertainSquares: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          square: { type: Type.STRING },
+          confidence: { type: Type.NUMBER },
+        },
+        required: ["square", "confidence"],
+      }
+    }
+  },
+  required: ["placement", "bottomColor", "confidence"],
+};
+
+export const createGeminiProvider = (options: GeminiProviderOptions = {}): VisionProvider => ({
+  id: 'gemini',
+  label: 'Gemini',
+  recognize: async ({ image, mode, changedSquares }: VisionRequest): Promise<VisionResult> => {
+    const apiKey = options.apiKey || process.env.API_KEY;
+    if (!apiKey || apiKey === "undefined" || apiKey === "") {
+      return visionFailure("API Key Required");
+    }
+
+    const ai = new GoogleGenAI({ apiKey });
+
+    try {
+      const response = await ai.models.generateContent({
+        model: options.model || DEFAULT_GEMINI_MODEL,
+        contents: {
+          parts: [
+            { text: buildVisionPrompt(mode, changedSquares) },
+            {
+              inlineData: {
+                mimeType: 'image/jpeg',
+                data: image,
+              },
+            },
+          ],
+        },
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: RESPONSE_SCHEMA,
+        },
+      });
+
+      return parseVisionAnswer(JSON.parse(response.text || '{}'));
+    } catch (error: any) {
+      console.error("Vision Bridge Failure:", error);
+      return visionFailure(error.message || "Sync Latency Fault");
+    }
+  }
+});
@@ -0,0 +1,409 @@
+import { VisionProvider, VisionResult, SquareReading, placementProblem, placementToSquares, squaresToPlacement } from "./visionService";
+
+/**
+ * LOCAL VISION SERVICE
+ * PURPOSE: On-device board recognition, no network and no API key.
+ * The cropped (or camera-straightened) board is split into 64 squares; each square is reduced to
+ * a piece silhouette and matched against templates of a known piece set. Templates come from the
+ * bundled cburnett pieces, or are learned from a capture of the starting position so the user's
+ * own site theme or physical set is recognised.
+ */
+
+// Each square is drawn at CELL px and its centre GRID px are read, keeping coordinates and borders out
+const CELL = 40;
+const GRID = 32;
+const INSET = (CELL - GRID) / 2;
+const BOARD_PIXELS = CELL * 8;
+// Silhouettes are rescaled to a common box so piece sets of different sizes compare directly
+const SHAPE = 24;
+
+// Grey-level distance from the square colour that counts as part of a piece
+const EDGE_THRESHOLD = 28;
+// Below this silhouette area (or height) the square is empty; catches move dots and highlights
+const MIN_COVERAGE = 0.08;
+const MIN_HEIGHT = 0.35;
+// Screens stretch a little with window chrome; anything further from square is not a lone board
+const MAX_ASPECT_SKEW = 0.18;
+
+const PIECES = ['P', 'N', 'B', 'R', 'Q', 'K'] as const;
+const START_PLACEMENT = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR';
+const TEMPLATES_KEY = 'chessVision.pieceTemplates';
+
+/**
+ * A piece set: one averaged silhouette per FEN letter plus the brightness that separates
+ * white pieces from black ones.
+ */
+export interface PieceTemplates {
+  shapes: Record<string, Float32Array>;
+  colorThreshold: number;
+  learned: boolean;
+}
+
+interface SquareSample {
+  silhouette: Uint8Array;
+  coverage: number;
+  height: number;
+  brightness: number;
+}
+
+const luminance = (data: Uint8ClampedArray, i: number) => 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+/**
+ * Marks every pixel that is not reachable from the square's rim through background pixels.
+ * Filling the enclosed area matters: a white piece on a light square only differs from the
+ * square along its outline.
+ */
+const fillSilhouette = (foreground: ArrayLike<number>): Uint8Array => {
+  const outside = new Uint8Array(GRID * GRID);
+  const stack: number[] = [];
+  for (let i = 0; i < GRID; i++) {
+    stack.push(i, (GRID - 1) * GRID + i, i * GRID, i * GRID + GRID - 1);
+  }
+  while (stack.length) {
+    const p = stack.pop()!;
+    if (outside[p] || foreground[p]) continue;
+    outside[p] = 1;
+    const x = p % GRID;
+    const y = (p - x) / GRID;
+    if (x > 0) stack.push(p - 1);
+    if (x < GRID - 1) stack.push(p + 1);
+    if (y > 0) stack.push(p - GRID);
+    if (y < GRID - 1) stack.push(p + GRID);
+  }
+  return outside.map(v => 1 - v);
+};
+
+/**
+ * Crops the silhouette to its bounding box and scales it, aspect kept, into a SHAPE x SHAPE box.
+ */
+const normalizeShape = (silhouette: Uint8Array, size: number): Float32Array => {
+  let minX = size, minY = size, maxX = -1, maxY = -1;
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if (!silhouette[y * size + x]) continue;
+      minX = Math.min(minX, x); maxX = Math.max(maxX, x);
+      minY = Math.min(minY, y); maxY = Math.max(maxY, y);
+    }
+  }
+  const shape = new Float32Array(SHAPE * SHAPE);
+  if (maxX < 0) return shape;
+
+  const width = maxX - minX + 1;
+  const height = maxY - minY + 1;
+  const scale = Math.max(width, height) / SHAPE;
+  const offsetX = (SHAPE - width / scale) / 2;
+  const offsetY = (SHAPE - height / scale) / 2;
+  for (let y = 0; y < SHAPE; y++) {
+    for (let x = 0; x < SHAPE; x++) {
+      const sx = Math.floor((x - offsetX + 0.5) * scale) + minX;
+      const sy = Math.floor((y - offsetY + 0.5) * scale) + minY;
+      if (sx >= minX && sx <= maxX && sy >= minY && sy <= maxY) shape[y * SHAPE + x] = silhouette[sy * size + sx];
+    }
+  }
+  return shape;
+};
+
+/** Soft intersection over union of two shapes. */
+const similarity = (a: Float32Array, b: Float32Array): number => {
+  let overlap = 0, union = 0;
+  for (let i = 0; i < a.length; i++) {
+    overlap += Math.min(a[i], b[i]);
+    union += Math.max(a[i], b[i]);
+  }
+  return union > 0 ? overlap / union : 0;
+};
+
+/**
+ * Reads one square of a BOARD_PIXELS x BOARD_PIXELS image; row and column count from the top left.
+ */
+const sampleSquare = (image: ImageData, row: number, col: number): SquareSample => {
+  const gray = new Float32Array(GRID * GRID);
+  for (let y = 0; y < GRID; y++) {
+    for (let x = 0; x < GRID; x++) {
+      const px = col * CELL + INSET + x;
+      const py = row * CELL + INSET + y;
+      gray[y * GRID + x] = luminance(image.data, (py * image.width + px) * 4);
+    }
+  }
+
+  const rim: number[] = [];
+  for (let i = 0; i < GRID; i++) rim.push(gray[i], gray[(GRID - 1) * GRID + i], gray[i * GRID], gray[i * GRID + GRID - 1]);
+  const background = median(rim);
+
+  const silhouette = fillSilhouette(gray.map(v => (Math.abs(v - background) > EDGE_THRESHOLD ? 1 : 0)));
+  let area = 0, brightness = 0, top = GRID, bottom = -1;
+  silhouette.forEach((inside, i) => {
+    if (!inside) return;
+    area++;
+    brightness += gray[i];
+    const y = Math.floor(i / GRID);
+    top = Math.min(top, y);
+    bottom = Math.max(bottom, y);
+  });
+
+  return {
+    silhouette,
+    coverage: area / (GRID * GRID),
+    height: bottom < 0 ? 0 : (bottom - top + 1) / GRID,
+    brightness: area ? brightness / area : 0
+  };
+};
+
+const isEmpty = (sample: SquareSample) => sample.coverage < MIN_COVERAGE || sample.height < MIN_HEIGHT;
+
+/**
+ * Classifies one square. Colour comes from the silhouette's brightness, the piece type from the
+ * best matching shape of that colour; confidence is the margin over the runner-up.
+ */
+const classifySquare = (sample: SquareSample, templates: PieceTemplates): { piece: string | null; confidence: number } => {
+  if (isEmpty(sample)) {
+    const margin = Math.max(1 - sample.coverage / MIN_COVERAGE, 1 - sample.height / MIN_HEIGHT);
+    return { piece: null, confidence: Math.min(1, 0.5 + 0.5 * margin) };
+  }
+
+  const white = sample.brightness >= templates.colorThreshold;
+  const colorMargin = Math.min(1, Math.abs(sample.brightness - templates.colorThreshold) / 40);
+  const shape = normalizeShape(sample.silhouette, GRID);
+  const scored = PIECES
+    .map(p => (white ? p : p.toLowerCase()))
+    .map(letter => ({ letter, score: similarity(shape, templates.shapes[letter]) }))
+    .sort((a, b) => b.score - a.score);
+
+  const typeMargin = Math.min(1, (scored[0].score - scored[1].score) / 0.15);
+  return {
+    piece: scored[0].letter,
+    confidence: scored[0].score * (0.5 + 0.5 * typeMargin) * (0.5 + 0.5 * colorMargin)
+  };
+};
+
+/** Maps an image position to its square for the given bottom colour. */
+const squareAt = (row: number, col: number, bottomColor: 'white' | 'black'): string =>
+  bottomColor === 'white'
+    ? `${'abcdefgh'[col]}${8 - row}`
+    : `${'abcdefgh'[7 - col]}${row + 1}`;
+
+interface Cell {
+  row: number;
+  col: number;
+  piece: string | null;
+  confidence: number;
+}
+
+/**
+ * Reads all 64 squares in image order, top row first.
+ */
+const readSquares = (image: ImageData, templates: PieceTemplates): Cell[] => {
+  const cells: Cell[] = [];
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      cells.push({ row, col, ...classifySquare(sampleSquare(image, row, col), templates) });
+    }
+  }
+  return cells;
+};
+
+/**
+ * White pieces gather near the player who has white; with too little material to tell, the
+ * current orientation is kept.
+ */
+const detectBottomColor = (cells: Cell[], fallback: 'white' | 'black'): 'white' | 'black' => {
+  const rows = (white: boolean) => cells.filter(c => c.piece && (c.piece === c.piece.toUpperCase()) === white).map(c => c.row);
+  const whiteRows = rows(true);
+  const blackRows = rows(false);
+  if (whiteRows.length < 2 || blackRows.length < 2) return fallback;
+  const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+  const gap = mean(whiteRows) - mean(blackRows);
+  if (Math.abs(gap) < 1) return fallback;
+  return gap > 0 ? 'white' : 'black';
+};
+
+export interface LocalVisionContext {
+  /** Used while too few pieces remain to tell the orientation from the board. */
+  orientation: 'white' | 'black';
+}
+
+/**
+ * Pure recognition step over an already decoded BOARD_PIXELS square image.
+ */
+export const recognizeBoardImage = (image: ImageData, templates: PieceTemplates, context: LocalVisionContext): VisionResult => {
+  const cells = readSquares(image, templates);
+  const bottomColor = detectBottomColor(cells, context.orientation);
+
+  // Reported a8 to h1, whichever way round the board was seen
+  const squares: SquareReading[] = cells
+    .map(cell => ({ square: squareAt(cell.row, cell.col, bottomColor), piece: cell.piece, confidence: cell.confidence }))
+    .sort((a, b) => b.square[1].localeCompare(a.square[1]) || a.square[0].localeCompare(b.square[0]));
+  const confidence = squares.reduce((sum, s) => sum + s.confidence, 0) / squares.length;
+
+  const placement = squaresToPlacement(squares);
+  const problem = placementProblem(placement);
+  if (problem) return { placement: '', bottomColor, squares, confidence, error: problem };
+  return { placement, bottomColor, squares, confidence };
+};
+
+const createCanvas = (size: number): CanvasRenderingContext2D => {
+  const canvas = document.createElement('canvas');
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Canvas unavailable");
+  return ctx;
+};
+
+/**
+ * Decodes a captured JPEG frame and stretches it onto the recognition grid.
+ */
+const decodeBoard = async (base64Image: string): Promise<ImageData> => {
+  const bytes = Uint8Array.from(atob(base64Image), c => c.charCodeAt(0));
+  const bitmap = await createImageBitmap(new Blob([bytes], { type: 'image/jpeg' }));
+  try {
+    const skew = Math.abs(bitmap.width / bitmap.height - 1);
+    if (skew > MAX_ASPECT_SKEW) throw new Error("Board not isolated: crop the frame to the board first");
+    const ctx = createCanvas(BOARD_PIXELS);
+    ctx.drawImage(bitmap, 0, 0, BOARD_PIXELS, BOARD_PIXELS);
+    return ctx.getImageData(0, 0, BOARD_PIXELS, BOARD_PIXELS);
+  } finally {
+    bitmap.close();
+  }
+};
+
+const loadImage = (url: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error(`Piece image failed to load: ${url}`));
+    img.src = url;
+  });
+
+/**
+ * Renders the bundled cburnett set; a piece's silhouette is simply its opaque area.
+ */
+const renderBundledTemplates = async (): Promise<PieceTemplates> => {
+  const shapes: Record<string, Float32Array> = {};
+  const brightness: Record<'w' | 'b', number[]> = { w: [], b: [] };
+
+  for (const color of ['w', 'b'] as const) {
+    for (const piece of PIECES) {
+      const img = await loadImage(`${import.meta.env.BASE_URL}pieces/cburnett/${color}${piece}.svg`);
+      // Drawn like a board square and read through the same inset
+      const ctx = createCanvas(CELL);
+      ctx.drawImage(img, 0, 0, CELL, CELL);
+      const { data } = ctx.getImageData(INSET, INSET, GRID, GRID);
+      const silhouette = new Uint8Array(GRID * GRID);
+      for (let i = 0; i < silhouette.length; i++) {
+        if (data[i * 4 + 3] < 128) continue;
+        silhouette[i] = 1;
+        brightness[color].push(luminance(data, i * 4));
+      }
+      shapes[color === 'w' ? piece : piece.toLowerCase()] = normalizeShape(silhouette, GRID);
+    }
+  }
+
+  const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+  return { shapes, colorThreshold: (mean(brightness.w) + mean(brightness.b)) / 2, learned: false };
+};
+
+const readLearnedTemplates = (): PieceTemplates | null => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(TEMPLATES_KEY) || 'null');
+    if (!parsed || typeof parsed.colorThreshold !== 'number' || !parsed.shapes) return null;
+    const shapes: Record<string, Float32Array> = {};
+    for (const letter of [...PIECES, ...PIECES.map(p => p.toLowerCase())]) {
+      if (!Array.isArray(parsed.shapes[letter]) || parsed.shapes[letter].length !== SHAPE * SHAPE) return null;
+      shapes[letter] = Float32Array.from(parsed.shapes[letter]);
+    }
+    return { shapes, colorThreshold: parsed.colorThreshold, learned: true };
+  } catch (e) {
+    return null;
+  }
+};
+
+let templatesPromise: Promise<PieceTemplates> | null = null;
+
+const getTemplates = (): Promise<PieceTemplates> => {
+  if (!templatesPromise) {
+    const learned = readLearnedTemplates();
+    templatesPromise = learned ? Promise.resolve(learned) : renderBundledTemplates();
+    // A failed load is retried on the next frame rather than cached
+    templatesPromise.catch(() => { templatesPromise = null; });
+  }
+  return templatesPromise;
+};
+
+export const hasLearnedPieceSet = (): boolean => readLearnedTemplates() !== null;
+
+/**
+ * Learns the piece set from a frame showing the starting position, with the given colour at the
+ * bottom. Returns an error message when the frame does not look like the starting position.
+ */
+export const learnPieceSet = async (base64Image: string, bottomColor: 'white' | 'black'): Promise<string | null> => {
+  let image: ImageData;
+  try {
+    image = await decodeBoard(base64Image);
+  } catch (e: any) {
+    return e.message || "Frame could not be decoded";
+  }
+
+  const expected = new Map(placementToSquares(START_PLACEMENT, 1).map(s => [s.square, s.piece]));
+
+  const groups: Record<string, Float32Array[]> = {};
+  const brightness: Record<'w' | 'b', number[]> = { w: [], b: [] };
+  for (let row = 0; row < 8; row++) {
+    for (let col = 0; col < 8; col++) {
+      const sample = sampleSquare(image, row, col);
+      const piece = expected.get(squareAt(row, col, bottomColor));
+      if (!piece) {
+        if (!isEmpty(sample)) return `Expected the starting position, but ${squareAt(row, col, bottomColor)} is occupied`;
+        continue;
+      }
+      if (isEmpty(sample)) return `Expected the starting position, but ${squareAt(row, col, bottomColor)} looks empty`;
+      (groups[piece] ||= []).push(normalizeShape(sample.silhouette, GRID));
+      brightness[piece === piece.toUpperCase() ? 'w' : 'b'].push(sample.brightness);
+    }
+  }
+
+  const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+  const whiteBrightness = mean(brightness.w);
+  const blackBrightness = mean(brightness.b);
+  if (whiteBrightness - blackBrightness < 30) return "White and black pieces look alike; check the orientation";
+
+  const shapes: Record<string, number[]> = {};
+  for (const [letter, samples] of Object.entries(groups)) {
+    shapes[letter] = Array.from({ length: SHAPE * SHAPE }, (_, i) =>
+      Math.round((samples.reduce((sum, s) => sum + s[i], 0) / samples.length) * 100) / 100
+    );
+  }
+
+  try {
+    localStorage.setItem(TEMPLATES_KEY, JSON.stringify({ shapes, colorThreshold: (whiteBrightness + blackBrightness) / 2 }));
+  } catch (e) {
+    console.error("Piece set storage failure:", e);
+    return "Piece set could not be saved";
+  }
+  templatesPromise = null;
+  return null;
+};
+
+/**
+ * Recognises a cropped board frame on the device. Same contract as the cloud recognizer.
+ */
+export const recognizeBoardLocally = async (base64Image: string, context: LocalVisionContext): Promise<VisionResult> => {
+  try {
+    const [image, templates] = await Promise.all([decodeBoard(base64Image), getTemplates()]);
+    return recognizeBoardImage(image, templates, context);
+  } catch (error: any) {
+    console.error("Local vision failure:", error);
+    return { placement: '', bottomColor: context.orientation, error: error.message || "Local recognition failed" };
+  }
+};
+
+export const createLocalProvider = (): VisionProvider => ({
+  id: 'local',
+  label: 'On-device',
+  recognize: ({ image, orientation }) => recognizeBoardLocally(image, { orientation })
+});
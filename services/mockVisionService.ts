@@ -0,0 +1,116 @@
+import { VisionProvider, VisionRequest, VisionResult, placementProblem, placementToSquares, visionFailure } from "./visionService";
+
+/**
+ * MOCK VISION PROVIDER
+ * PURPOSE: Deterministic board recognition for tests and CI, no model and no network.
+ * Each fixture pairs an image with the placement it shows. In 'match' mode a frame is answered
+ * with the fixture whose image it is byte for byte; in 'sequence' mode fixtures are played back
+ * in order whatever the frame shows, so a scripted game can drive the whole sync loop.
+ */
+
+export type MockVisionMode = 'match' | 'sequence';
+
+export interface VisionFixture {
+  /** File name relative to the manifest, or a base64 JPEG. */
+  image: string;
+  placement: string;
+  bottomColor: 'white' | 'black';
+}
+
+export interface MockProviderOptions {
+  mode: MockVisionMode;
+  /** Used instead of the manifest when given. */
+  fixtures?: VisionFixture[];
+  /** JSON array of VisionFixture; defaults to the bundled fixtures. */
+  manifestUrl?: string;
+}
+
+export const DEFAULT_FIXTURES_URL = `${import.meta.env.BASE_URL}vision-fixtures/fixtures.json`;
+
+interface LoadedFixture extends VisionFixture {
+  hash: string;
+}
+
+// FNV-1a over the base64 text; enough to tell fixture frames apart
+const hashImage = (base64: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < base64.length; i++) {
+    hash ^= base64.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+const toBase64 = (buffer: ArrayBuffer): string => {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary);
+};
+
+const isFileName = (image: string) => /\.(jpe?g|png|webp)$/i.test(image);
+
+const loadFixtures = async (options: MockProviderOptions): Promise<LoadedFixture[]> => {
+  let fixtures = options.fixtures;
+  const manifestUrl = options.manifestUrl || DEFAULT_FIXTURES_URL;
+  if (!fixtures) {
+    const response = await fetch(manifestUrl);
+    if (!response.ok) throw new Error(`Fixture manifest answered ${response.status}`);
+    fixtures = await response.json() as VisionFixture[];
+  }
+  if (!Array.isArray(fixtures) || fixtures.length === 0) throw new Error("No vision fixtures");
+
+  return Promise.all(fixtures.map(async fixture => {
+    const problem = placementProblem(fixture.placement);
+    if (problem) throw new Error(`Fixture ${fixture.image}: ${problem}`);
+    let image = fixture.image;
+    if (isFileName(image)) {
+      const response = await fetch(new URL(image, new URL(manifestUrl, globalThis.location?.href)).href);
+      if (!response.ok) throw new Error(`Fixture ${fixture.image} answered ${response.status}`);
+      image = toBase64(await response.arrayBuffer());
+    }
+    return { ...fixture, hash: hashImage(image) };
+  }));
+};
+
+const answer = (fixture: VisionFixture): VisionResult => ({
+  placement: fixture.placement,
+  bottomColor: fixture.bottomColor,
+  squares: placementToSquares(fixture.placement, 1),
+  confidence: 1
+});
+
+export const createMockProvider = (options: MockProviderOptions): VisionProvider => {
+  let fixturesPromise: Promise<LoadedFixture[]> | null = null;
+  let next = 0;
+
+  const getFixtures = () => {
+    if (!fixturesPromise) {
+      fixturesPromise = loadFixtures(options);
+      fixturesPromise.catch(() => { fixturesPromise = null; });
+    }
+    return fixturesPromise;
+  };
+
+  return {
+    id: 'mock',
+    label: 'Mock fixtures',
+    recognize: async ({ image, orientation }: VisionRequest): Promise<VisionResult> => {
+      try {
+        const fixtures = await getFixtures();
+        if (options.mode === 'sequence') {
+          // The last position holds once the script has played out
+          const fixture = fixtures[Math.min(next, fixtures.length - 1)];
+          next++;
+          return answer(fixture);
+        }
+        const hash = hashImage(image);
+        const fixture = fixtures.find(f => f.hash === hash);
+        return fixture ? answer(fixture) : visionFailure("Frame matches no fixture", orientation);
+      } catch (error: any) {
+        console.error("Mock vision failure:", error);
+        return visionFailure(error.message || "Fixtures unavailable", orientation);
+      }
+    }
+  };
+};
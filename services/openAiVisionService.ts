@@ -0,0 +1,66 @@
+import { VisionProvider, VisionRequest, VisionResult, buildVisionPrompt, parseVisionAnswer, visionFailure } from "./visionService";
+
+/**
+ * OPENAI-COMPATIBLE VISION PROVIDER
+ * PURPOSE: Board recognition through any endpoint speaking the OpenAI chat completions API:
+ * OpenAI itself, hosted gateways, or a model served on the user's own machine (Ollama, LM Studio,
+ * llama.cpp, vLLM). Local servers usually need no key.
+ */
+
+export const DEFAULT_OPENAI_BASE_URL = 'http://localhost:11434/v1';
+export const DEFAULT_OPENAI_MODEL = 'llava';
+
+export interface OpenAiProviderOptions {
+  /** Up to and including the version segment, e.g. "https://api.openai.com/v1". */
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+}
+
+// Smaller models wrap their JSON in a markdown fence despite being told not to
+const extractJson = (text: string): string => {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const body = fenced ? fenced[1] : text;
+  const start = body.indexOf('{');
+  const end = body.lastIndexOf('}');
+  return start >= 0 && end > start ? body.slice(start, end + 1) : body;
+};
+
+export const createOpenAiProvider = (options: OpenAiProviderOptions): VisionProvider => ({
+  id: 'openai',
+  label: 'OpenAI-compatible',
+  recognize: async ({ image, mode, changedSquares }: VisionRequest): Promise<VisionResult> => {
+    if (!options.baseUrl.trim()) return visionFailure("Endpoint URL Required");
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (options.apiKey) headers.Authorization = `Bearer ${options.apiKey}`;
+
+    try {
+      const response = await fetch(`${options.baseUrl.trim().replace(/\/+$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model: options.model,
+          temperature: 0,
+          response_format: { type: 'json_object' },
+          messages: [{
+            role: 'user',
+            content: [
+              { type: 'text', text: buildVisionPrompt(mode, changedSquares) },
+              { type: 'image_url', image_url: { url: `data:image/jpeg;base64,${image}` } }
+            ]
+          }]
+        })
+      });
+      if (!response.ok) throw new Error(`Endpoint answered ${response.status} ${response.statusText}`.trim());
+
+      const payload = await response.json();
+      const text = payload?.choices?.[0]?.message?.content;
+      if (typeof text !== 'string') throw new Error("Endpoint returned no message");
+      return parseVisionAnswer(JSON.parse(extractJson(text)));
+    } catch (error: any) {
+      console.error("OpenAI-compatible vision failure:", error);
+      return visionFailure(error.message || "Endpoint unreachable");
+    }
+  }
+});
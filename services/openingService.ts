@@ -0,0 +1,147 @@
+import { INITIAL_FEN } from '../types';
+
+/**
+ * OPENING SERVICE
+ * PURPOSE: Names the opening (ECO code + name) and lists book continuations for a game.
+ * Reads public/openings/openings.tsv, laid out like the lichess chess-openings TSVs
+ * (eco, name, pgn and optionally uci, epd), into a move trie. Lines are followed by SAN from the
+ * start position; the epd column catches transpositions into a named position.
+ */
+
+export interface Opening {
+  eco: string;
+  name: string;
+  pgn: string;
+}
+
+export interface BookMove {
+  san: string;
+  /** Share of the book lines from this position that continue with the move, 0-100. */
+  popularity: number;
+  lines: number;
+  /** Set when the move itself completes a named line. */
+  opening: Opening | null;
+}
+
+export interface OpeningLookup {
+  opening: Opening | null;
+  /** Plies into the game that are still covered by the book. */
+  bookPlies: number;
+  bookMoves: BookMove[];
+}
+
+export interface GamePly {
+  san: string;
+  fenAfter: string;
+}
+
+interface BookNode {
+  san: string;
+  /** Named lines ending here or further down. */
+  lines: number;
+  opening: Opening | null;
+  children: Map<string, BookNode>;
+}
+
+const OPENINGS_URL = `${import.meta.env.BASE_URL}openings/openings.tsv`;
+
+// En passant is left out so positions reached by different move orders compare equal
+export const positionKey = (fen: string) => fen.split(' ').slice(0, 3).join(' ');
+
+const START_KEY = positionKey(INITIAL_FEN);
+
+const createNode = (san: string): BookNode => ({ san, lines: 0, opening: null, children: new Map() });
+
+const sanTokens = (pgn: string) =>
+  pgn.split(/\s+/).map(token => token.replace(/^\d+\.+/, '')).filter(token => token.length > 0);
+
+export class OpeningBook {
+  private root: BookNode = createNode('');
+  private byPosition = new Map<string, BookNode>();
+  public readonly size: number;
+
+  constructor(tsv: string) {
+    const [header, ...rows] = tsv.split(/\r?\n/).filter(row => row.trim().length > 0);
+    const columns = header.split('\t');
+    const eco = columns.indexOf('eco');
+    const name = columns.indexOf('name');
+    const pgn = columns.indexOf('pgn');
+    const epd = columns.indexOf('epd');
+    if (eco === -1 || name === -1 || pgn === -1) throw new Error('Opening data needs eco, name and pgn columns');
+
+    let count = 0;
+    for (const row of rows) {
+      const cells = row.split('\t');
+      const opening: Opening = { eco: cells[eco], name: cells[name], pgn: cells[pgn] };
+      let node = this.root;
+      node.lines++;
+      for (const san of sanTokens(opening.pgn)) {
+        let child = node.children.get(san);
+        if (!child) {
+          child = createNode(san);
+          node.children.set(san, child);
+        }
+        child.lines++;
+        node = child;
+      }
+      // Several rows may share a move sequence (generic names); the first, broadest one wins
+      if (!node.opening) node.opening = opening;
+      if (epd !== -1 && cells[epd] && !this.byPosition.has(positionKey(cells[epd]))) this.byPosition.set(positionKey(cells[epd]), node);
+      count++;
+    }
+    this.size = count;
+  }
+
+  /**
+   * Follows a game through the book. The opening is the last named position the game passed
+   * through, so it stays put once the players leave theory.
+   */
+  public lookup(startFen: string, plies: GamePly[]): OpeningLookup {
+    let node: BookNode | null = positionKey(startFen) === START_KEY ? this.root : this.byPosition.get(positionKey(startFen)) ?? null;
+    let opening = node?.opening ?? null;
+    let bookPlies = 0;
+
+    plies.forEach((ply, index) => {
+      node = node?.children.get(ply.san) ?? this.byPosition.get(positionKey(ply.fenAfter)) ?? null;
+      if (!node) return;
+      bookPlies = index + 1;
+      if (node.opening) opening = node.opening;
+    });
+
+    return { opening, bookPlies, bookMoves: node ? this.movesFrom(node) : [] };
+  }
+
+  private movesFrom(node: BookNode): BookMove[] {
+    const children = Array.from(node.children.values());
+    const total = children.reduce((sum, child) => sum + child.lines, 0);
+    return children
+      .map(child => ({
+        san: child.san,
+        popularity: total > 0 ? Math.round((child.lines / total) * 100) : 0,
+        lines: child.lines,
+        opening: child.opening
+      }))
+      .sort((a, b) => b.lines - a.lines);
+  }
+}
+
+let bookPromise: Promise<OpeningBook> | null = null;
+
+/**
+ * Loads the bundled opening data once; later calls share the same book.
+ */
+export const loadOpeningBook = (): Promise<OpeningBook> => {
+  if (!bookPromise) {
+    bookPromise = fetch(OPENINGS_URL)
+      .then(response => {
+        if (!response.ok) throw new Error(`Opening data unavailable (${response.status})`);
+        return response.text();
+      })
+      .then(tsv => new OpeningBook(tsv))
+      .catch(e => {
+        bookPromise = null;
+        throw e;
+      });
+  }
+  return bookPromise;
+};
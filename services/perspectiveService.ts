@@ -0,0 +1,127 @@
+/**
+ * PERSPECTIVE SERVICE
+ * PURPOSE: Turns a camera view of a physical board into a square, top-down image.
+ * The four clicked corners define a homography; every output pixel is mapped back into the
+ * camera frame and sampled bilinearly.
+ */
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/**
+ * Board corners in the camera frame, normalised to 0-1, in the order the user clicks them:
+ * top-left, top-right, bottom-right, bottom-left as seen on screen.
+ */
+export type BoardCorners = [Point, Point, Point, Point];
+
+export const CORNER_LABELS = ['Top left', 'Top right', 'Bottom right', 'Bottom left'];
+
+/**
+ * Solves the 3x3 homography (h33 = 1) mapping each src point onto the matching dst point.
+ * Returns null when the points are degenerate, e.g. three corners on one line.
+ */
+export const computeHomography = (src: Point[], dst: Point[]): number[] | null => {
+  const rows: number[][] = [];
+  for (let i = 0; i < 4; i++) {
+    const { x, y } = src[i];
+    const { x: u, y: v } = dst[i];
+    rows.push([x, y, 1, 0, 0, 0, -u * x, -u * y, u]);
+    rows.push([0, 0, 0, x, y, 1, -v * x, -v * y, v]);
+  }
+
+  // Gaussian elimination with partial pivoting on the 8x9 augmented matrix
+  for (let col = 0; col < 8; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < 8; r++) {
+      if (Math.abs(rows[r][col]) > Math.abs(rows[pivot][col])) pivot = r;
+    }
+    if (Math.abs(rows[pivot][col]) < 1e-10) return null;
+    [rows[col], rows[pivot]] = [rows[pivot], rows[col]];
+    for (let r = 0; r < 8; r++) {
+      if (r === col) continue;
+      const factor = rows[r][col] / rows[col][col];
+      for (let c = col; c < 9; c++) rows[r][c] -= factor * rows[col][c];
+    }
+  }
+
+  return [...rows.map((row, i) => row[8] / row[i]), 1];
+};
+
+export const applyHomography = (h: number[], { x, y }: Point): Point => {
+  const w = h[6] * x + h[7] * y + h[8];
+  return { x: (h[0] * x + h[1] * y + h[2]) / w, y: (h[3] * x + h[4] * y + h[5]) / w };
+};
+
+/**
+ * Warps the quadrilateral given by corners (normalised to the source size) into a size x size
+ * square. Returns null for a degenerate calibration.
+ */
+export const warpToSquare = (source: ImageData, corners: BoardCorners, size: number): ImageData | null => {
+  const quad = corners.map(c => ({ x: c.x * source.width, y: c.y * source.height }));
+  const square = [{ x: 0, y: 0 }, { x: size, y: 0 }, { x: size, y: size }, { x: 0, y: size }];
+  // Output pixel -> camera pixel, so every output pixel gets exactly one sample
+  const h = computeHomography(square, quad);
+  if (!h) return null;
+
+  const output = new ImageData(size, size);
+  const src = source.data;
+  const out = output.data;
+  const maxX = source.width - 1;
+  const maxY = source.height - 1;
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const p = applyHomography(h, { x: x + 0.5, y: y + 0.5 });
+      const sx = Math.min(maxX, Math.max(0, p.x - 0.5));
+      const sy = Math.min(maxY, Math.max(0, p.y - 0.5));
+      const x0 = Math.floor(sx);
+      const y0 = Math.floor(sy);
+      const x1 = Math.min(maxX, x0 + 1);
+      const y1 = Math.min(maxY, y0 + 1);
+      const fx = sx - x0;
+      const fy = sy - y0;
+
+      const i00 = (y0 * source.width + x0) * 4;
+      const i10 = (y0 * source.width + x1) * 4;
+      const i01 = (y1 * source.width + x0) * 4;
+      const i11 = (y1 * source.width + x1) * 4;
+      const o = (y * size + x) * 4;
+      for (let c = 0; c < 3; c++) {
+        const top = src[i00 + c] + (src[i10 + c] - src[i00 + c]) * fx;
+        const bottom = src[i01 + c] + (src[i11 + c] - src[i01 + c]) * fx;
+        out[o + c] = top + (bottom - top) * fy;
+      }
+      out[o + 3] = 255;
+    }
+  }
+  return output;
+};
+
+const CALIBRATION_KEY = 'chessVision.cameraCalibration';
+
+const readCalibrations = (): Record<string, BoardCorners> => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(CALIBRATION_KEY) || '{}');
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch (e) {
+    return {};
+  }
+};
+
+export const loadCalibration = (deviceId: string): BoardCorners | null => {
+  const corners = readCalibrations()[deviceId];
+  return Array.isArray(corners) && corners.length === 4 ? corners : null;
+};
+
+export const saveCalibration = (deviceId: string, corners: BoardCorners | null) => {
+  const all = readCalibrations();
+  if (corners) all[deviceId] = corners;
+  else delete all[deviceId];
+  try {
+    localStorage.setItem(CALIBRATION_KEY, JSON.stringify(all));
+  } catch (e) {
+    console.error("Calibration storage failure:", e);
+  }
+};
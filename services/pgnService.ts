@@ -0,0 +1,227 @@
+import { Chess, validateFen } from 'chess.js';
+import { INITIAL_FEN } from '../types';
+
+/**
+ * PGN SERVICE
+ * PURPOSE: Parses PGN (headers, comments, NAGs, variations) and bare FEN strings into a move tree.
+ * Every node carries the position after its move, so navigation never replays the game.
+ */
+
+export interface MoveNode {
+  san: string;
+  from: string;
+  to: string;
+  promotion?: string;
+  /** Position after this move; for the root node, the start position. */
+  fen: string;
+  parent: MoveNode | null;
+  /** children[0] is the main continuation, the rest are variations. */
+  children: MoveNode[];
+  comment?: string;
+  commentBefore?: string;
+  nags: number[];
+}
+
+export interface ParsedPgn {
+  headers: Record<string, string>;
+  startFen: string;
+  root: MoveNode;
+  result: string;
+}
+
+const RESULTS = ['1-0', '0-1', '1/2-1/2', '*'];
+
+// Traditional move suffix annotations and their NAG equivalents
+const SUFFIX_NAGS: Record<string, number> = { '!': 1, '?': 2, '!!': 3, '??': 4, '!?': 5, '?!': 6 };
+
+export const NAG_SYMBOLS: Record<number, string> = { 1: '!', 2: '?', 3: '!!', 4: '??', 5: '!?', 6: '?!' };
+
+export class PgnParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PgnParseError';
+  }
+}
+
+export const createRootNode = (fen: string): MoveNode => ({
+  san: '',
+  from: '',
+  to: '',
+  fen,
+  parent: null,
+  children: [],
+  nags: []
+});
+
+/**
+ * True when the whole text is a single FEN record (piece placement plus optional fields).
+ */
+export const isFen = (text: string): boolean => {
+  const trimmed = text.trim();
+  if (trimmed.split('\n').length > 1) return false;
+  const parts = trimmed.split(/\s+/);
+  if (!/^([pnbrqkPNBRQK1-8]+\/){7}[pnbrqkPNBRQK1-8]+$/.test(parts[0])) return false;
+  return validateFen(completeFen(trimmed)).ok;
+};
+
+/**
+ * Fills missing FEN fields with neutral defaults so a bare piece placement can be loaded.
+ */
+export const completeFen = (fen: string): string => {
+  const parts = fen.trim().split(/\s+/);
+  const defaults = [parts[0], 'w', '-', '-', '0', '1'];
+  return defaults.map((d, i) => parts[i] || d).join(' ');
+};
+
+type Token =
+  | { type: 'header'; name: string; value: string }
+  | { type: 'comment'; text: string }
+  | { type: 'nag'; value: number }
+  | { type: 'open' }
+  | { type: 'close' }
+  | { type: 'result'; value: string }
+  | { type: 'san'; value: string; nag?: number };
+
+const tokenize = (text: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  let inMovetext = false;
+
+  while (i < text.length) {
+    const ch = text[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === '%' && (i === 0 || text[i - 1] === '\n')) {
+      // Escape mechanism: the whole line is ignored
+      while (i < text.length && text[i] !== '\n') i++;
+    } else if (ch === '[') {
+      // A header after movetext has started belongs to the next game in the file
+      if (inMovetext) break;
+      const end = text.indexOf(']', i);
+      if (end === -1) throw new PgnParseError('Unterminated header');
+      const match = text.slice(i + 1, end).match(/^\s*(\w+)\s+"((?:[^"\\]|\\.)*)"\s*$/);
+      if (match) tokens.push({ type: 'header', name: match[1], value: match[2].replace(/\\(.)/g, '$1') });
+      i = end + 1;
+    } else if (ch === '{') {
+      const end = text.indexOf('}', i);
+      if (end === -1) throw new PgnParseError('Unterminated comment');
+      tokens.push({ type: 'comment', text: text.slice(i + 1, end).trim().replace(/\s+/g, ' ') });
+      i = end + 1;
+    } else if (ch === ';') {
+      const end = text.indexOf('\n', i);
+      const stop = end === -1 ? text.length : end;
+      tokens.push({ type: 'comment', text: text.slice(i + 1, stop).trim() });
+      i = stop;
+    } else if (ch === '(') {
+      inMovetext = true;
+      tokens.push({ type: 'open' });
+      i++;
+    } else if (ch === ')') {
+      tokens.push({ type: 'close' });
+      i++;
+    } else if (ch === '}') {
+      throw new PgnParseError('"}" outside a comment');
+    } else {
+      let end = i;
+      while (end < text.length && !/[\s{}();[\]]/.test(text[end])) end++;
+      const word = text.slice(i, end);
+      i = end;
+      inMovetext = true;
+
+      if (word === 'e.p.') {
+        continue;
+      } else if (RESULTS.includes(word)) {
+        tokens.push({ type: 'result', value: word });
+      } else if (/^\$\d+$/.test(word)) {
+        tokens.push({ type: 'nag', value: parseInt(word.slice(1)) });
+      } else if (SUFFIX_NAGS[word] !== undefined) {
+        tokens.push({ type: 'nag', value: SUFFIX_NAGS[word] });
+      } else {
+        // Strip move numbers ("12." / "12...") that may be glued to the move itself
+        const stripped = word.replace(/^\d+\.+/, '');
+        if (stripped.length === 0) continue;
+        const suffix = stripped.match(/[!?]{1,2}$/);
+        const san = (suffix ? stripped.slice(0, -suffix[0].length) : stripped).replace(/0/g, 'O');
+        tokens.push({ type: 'san', value: san, nag: suffix ? SUFFIX_NAGS[suffix[0]] : undefined });
+      }
+    }
+  }
+  return tokens;
+};
+
+/**
+ * Parses the first game of a PGN text into headers and a move tree.
+ * Throws PgnParseError on illegal moves or unbalanced variations.
+ */
+export const parsePgn = (text: string): ParsedPgn => {
+  const tokens = tokenize(text);
+  const headers: Record<string, string> = {};
+  tokens.forEach(t => { if (t.type === 'header') headers[t.name] = t.value; });
+
+  const startFen = headers.FEN ? completeFen(headers.FEN) : INITIAL_FEN;
+  if (!validateFen(startFen).ok) throw new PgnParseError(`Invalid FEN header: ${headers.FEN}`);
+
+  const root = createRootNode(startFen);
+  const stack: MoveNode[] = [];
+  let cursor: MoveNode = root;
+  // Comments and NAGs attach to the last move; right after "(" there is none yet
+  let lastMove: MoveNode | null = null;
+  let pendingComment: string | undefined;
+  let result = headers.Result || '*';
+
+  for (const token of tokens) {
+    if (token.type === 'san') {
+      const game = new Chess(cursor.fen);
+      let move;
+      try {
+        move = game.move(token.value, { strict: false });
+      } catch (e) {
+        throw new PgnParseError(`Illegal move "${token.value}" after ${cursor.san || 'start'}`);
+      }
+      const node: MoveNode = {
+        san: move.san,
+        from: move.from,
+        to: move.to,
+        promotion: move.promotion,
+        fen: game.fen(),
+        parent: cursor,
+        children: [],
+        nags: token.nag !== undefined ? [token.nag] : []
+      };
+      if (pendingComment) node.commentBefore = pendingComment;
+      pendingComment = undefined;
+      cursor.children.push(node);
+      cursor = node;
+      lastMove = node;
+    } else if (token.type === 'comment') {
+      if (lastMove) {
+        lastMove.comment = lastMove.comment ? `${lastMove.comment} ${token.text}` : token.text;
+      } else if (cursor === root && stack.length === 0) {
+        root.comment = root.comment ? `${root.comment} ${token.text}` : token.text;
+      } else {
+        pendingComment = pendingComment ? `${pendingComment} ${token.text}` : token.text;
+      }
+    } else if (token.type === 'nag') {
+      lastMove?.nags.push(token.value);
+    } else if (token.type === 'open') {
+      if (!cursor.parent) throw new PgnParseError('Variation without a preceding move');
+      stack.push(cursor);
+      cursor = cursor.parent;
+      lastMove = null;
+    } else if (token.type === 'close') {
+      const resume = stack.pop();
+      if (!resume) throw new PgnParseError('Unbalanced variation');
+      cursor = resume;
+      lastMove = resume;
+    } else if (token.type === 'result') {
+      if (stack.length === 0) {
+        result = token.value;
+        break;
+      }
+    }
+  }
+
+  if (stack.length > 0) throw new PgnParseError('Unterminated variation');
+  return { headers, startFen, root, result };
+};
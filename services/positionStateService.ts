@@ -0,0 +1,138 @@
+import { Chess, validateFen } from 'chess.js';
+
+/**
+ * POSITION STATE SERVICE
+ * PURPOSE: Everything in a FEN besides the piece placement.
+ * A picture only shows where the pieces stand; side to move, castling rights, the en passant
+ * square and the clocks come from the move history, or are inferred conservatively and
+ * confirmed by the user when syncing into a game already in progress.
+ */
+
+export interface PositionState {
+  turn: 'w' | 'b';
+  /** Subset of "KQkq", or "" for none. */
+  castling: string;
+  /** Target square such as "e3", or null. */
+  enPassant: string | null;
+  halfmove: number;
+  fullmove: number;
+}
+
+const CASTLING_HOMES: Record<string, [string, string][]> = {
+  K: [['e1', 'K'], ['h1', 'R']],
+  Q: [['e1', 'K'], ['a1', 'R']],
+  k: [['e8', 'k'], ['h8', 'r']],
+  q: [['e8', 'k'], ['a8', 'r']]
+};
+
+const pieceAt = (placement: string, square: string): string | null => {
+  const rank = placement.split('/')[8 - parseInt(square[1])] || '';
+  let file = 0;
+  const target = square.charCodeAt(0) - 97;
+  for (const ch of rank) {
+    if (/\d/.test(ch)) {
+      file += parseInt(ch);
+      if (file > target) return null;
+      continue;
+    }
+    if (file === target) return ch;
+    file++;
+  }
+  return null;
+};
+
+/**
+ * Castling rights the placement still allows: king and rook on their home squares.
+ */
+export const plausibleCastling = (placement: string): string =>
+  Object.keys(CASTLING_HOMES)
+    .filter(right => CASTLING_HOMES[right].every(([square, piece]) => pieceAt(placement, square) === piece))
+    .join('');
+
+/**
+ * Squares a pawn could just have skipped with a double step, given who is to move.
+ */
+export const enPassantCandidates = (placement: string, turn: 'w' | 'b'): string[] => {
+  // The pawn that moved belongs to the side not to move
+  const [pawn, pawnRank, targetRank, originRank] = turn === 'w' ? ['p', '5', '6', '7'] : ['P', '4', '3', '2'];
+  return 'abcdefgh'.split('')
+    .filter(file =>
+      pieceAt(placement, `${file}${pawnRank}`) === pawn &&
+      !pieceAt(placement, `${file}${targetRank}`) &&
+      !pieceAt(placement, `${file}${originRank}`)
+    )
+    .map(file => `${file}${targetRank}`);
+};
+
+export const parsePositionState = (fen: string): PositionState => {
+  const [, turn, castling = '-', ep = '-', half = '0', full = '1'] = fen.trim().split(/\s+/);
+  return {
+    turn: turn === 'b' ? 'b' : 'w',
+    castling: castling === '-' ? '' : castling,
+    enPassant: ep === '-' ? null : ep,
+    halfmove: parseInt(half) || 0,
+    fullmove: Math.max(1, parseInt(full) || 1)
+  };
+};
+
+export const composeFen = (placement: string, state: PositionState): string =>
+  [
+    placement,
+    state.turn,
+    'KQkq'.split('').filter(r => state.castling.includes(r)).join('') || '-',
+    state.enPassant || '-',
+    state.halfmove,
+    state.fullmove
+  ].join(' ');
+
+/**
+ * Best guess at the full position for a placement no move sequence explains. Castling rights
+ * never exceed what the previous position held or what the placement allows; the en passant
+ * square and halfmove clock are cleared because nothing shows them.
+ */
+export const inferPositionState = (placement: string, turn: 'w' | 'b', previousFen: string | null): PositionState => {
+  const allowed = plausibleCastling(placement);
+  const previous = previousFen ? parsePositionState(previousFen) : null;
+  const castling = previous ? allowed.split('').filter(r => previous.castling.includes(r)).join('') : allowed;
+  // The move number only advances when black's turn is over
+  const fullmove = previous ? previous.fullmove + (previous.turn === 'b' && turn === 'w' ? 1 : 0) : 1;
+  return { turn, castling, enPassant: null, halfmove: 0, fullmove };
+};
+
+/**
+ * Null when chess.js accepts the FEN, otherwise its complaint.
+ */
+export const positionProblem = (fen: string): string | null => {
+  const { ok, error } = validateFen(fen);
+  return ok ? null : error || 'Invalid position';
+};
+
+/**
+ * Everything that makes a set-up position unplayable, in plain words; empty when it is legal.
+ */
+export const setupProblems = (fen: string): string[] => {
+  const placement = fen.split(' ')[0];
+  const ranks = placement.split('/');
+  const count = (pattern: RegExp) => (placement.match(pattern) || []).length;
+  const problems: string[] = [];
+
+  if (count(/K/g) !== 1) problems.push(`White needs exactly one king (has ${count(/K/g)})`);
+  if (count(/k/g) !== 1) problems.push(`Black needs exactly one king (has ${count(/k/g)})`);
+  if (/[pP]/.test(`${ranks[0]}${ranks[7]}`)) problems.push('Pawns cannot stand on the first or eighth rank');
+  if (count(/P/g) > 8 || count(/p/g) > 8) problems.push('A side has more than eight pawns');
+  if (count(/[PNBRQK]/g) > 16 || count(/[pnbrqk]/g) > 16) problems.push('A side has more than sixteen pieces');
+  if (problems.length) return problems;
+
+  // The side that just moved may not have left its own king in check
+  const state = parsePositionState(fen);
+  const mover = state.turn === 'w' ? 'White' : 'Black';
+  const waiting = state.turn === 'w' ? 'Black' : 'White';
+  try {
+    const flipped = composeFen(placement, { ...state, turn: state.turn === 'w' ? 'b' : 'w', enPassant: null });
+    if (new Chess(flipped, { skipValidation: true }).inCheck()) problems.push(`${waiting} is in check, but it is ${mover}'s move`);
+  } catch (e) {}
+
+  const problem = positionProblem(fen);
+  if (problem && !problems.length) problems.push(problem);
+  return problems;
+};
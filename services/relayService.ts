@@ -0,0 +1,118 @@
+import { GameRecord, PgnHeaders, RecordedMove } from './gameRecordService';
+
+/**
+ * RELAY SERVICE
+ * PURPOSE: Publishes the recorded game to a broadcast relay while it is being played.
+ * Each board's game goes out as plain PGN, the format lichess and ChessBase broadcast tools poll,
+ * to a relay such as scripts/relay-server.mjs. Moves are held back until they are older than the
+ * configured delay, so the relay never holds anything spectators should not see yet.
+ */
+
+export interface RelaySettings {
+  enabled: boolean;
+  url: string;
+  /** Sent as a bearer token; the stand-in relay requires it for writes from other machines. */
+  token: string;
+  board: number;
+  event: string;
+  round: string;
+  /** Moves younger than this stay on the device. */
+  delaySeconds: number;
+}
+
+export interface RelayStatus {
+  /** Main line moves on the relay, against moves recorded. */
+  published: number;
+  recorded: number;
+  lastPublished: number | null;
+  error: string | null;
+}
+
+// The stand-in relay listens here by default
+export const DEFAULT_RELAY_URL = 'http://127.0.0.1:8080';
+// FIDE's usual broadcast delay for top boards
+export const DEFAULT_RELAY_DELAY = 900;
+
+const SETTINGS_KEY = 'chessVision.relay';
+// An unchanged game is sent again after this long, in case the relay lost it
+const RESEND_MS = 30000;
+
+export const DEFAULT_RELAY_SETTINGS: RelaySettings = {
+  enabled: false,
+  url: DEFAULT_RELAY_URL,
+  token: '',
+  board: 1,
+  event: '',
+  round: '',
+  delaySeconds: DEFAULT_RELAY_DELAY
+};
+
+export const loadRelaySettings = (): RelaySettings => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(SETTINGS_KEY) || 'null');
+    if (parsed && typeof parsed.url === 'string') return { ...DEFAULT_RELAY_SETTINGS, ...parsed };
+  } catch (e) {}
+  return { ...DEFAULT_RELAY_SETTINGS };
+};
+
+export const saveRelaySettings = (settings: RelaySettings) => {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.error("Relay storage failure:", e);
+  }
+};
+
+/**
+ * The main line up to the last move old enough to show. Moves without a recording time
+ * (imported games) count as old.
+ */
+export const releasedMoves = (moves: RecordedMove[], delaySeconds: number, now: number = Date.now()): RecordedMove[] => {
+  const cutoff = now - delaySeconds * 1000;
+  const firstHeld = moves.findIndex(m => m.timestamp > cutoff);
+  return firstHeld === -1 ? moves : moves.slice(0, firstHeld);
+};
+
+/**
+ * Broadcast PGN of the released moves: main line only, with clock times but without the
+ * recorder's comments, engine scores or side lines. The result stays "*" until the final move is released.
+ */
+export const relayPgn = (startFen: string, moves: RecordedMove[], headers: PgnHeaders): string => {
+  const relayed = new GameRecord(startFen);
+  moves.forEach(m => relayed.addMove({ from: m.from, to: m.to, promotion: m.promotion }, null, m.timestamp, m.clock));
+  return relayed.toPgn(headers);
+};
+
+/**
+ * Sends a board's PGN to the relay, skipping copies it already has. Resolves to whether
+ * anything was sent.
+ */
+export class RelayPublisher {
+  private lastPgn = '';
+  private lastSent = 0;
+  private lastTarget = '';
+
+  public async publish(settings: RelaySettings, pgn: string, now: number = Date.now()): Promise<boolean> {
+    const target = `${settings.url.replace(/\/+$/, '')}/boards/${settings.board}`;
+    if (pgn === this.lastPgn && target === this.lastTarget && now - this.lastSent < RESEND_MS) return false;
+    const response = await fetch(target, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/x-chess-pgn',
+        ...(settings.token ? { Authorization: `Bearer ${settings.token}` } : {})
+      },
+      body: pgn
+    });
+    if (!response.ok) throw new Error(`Relay refused the game (${response.status})`);
+    this.lastPgn = pgn;
+    this.lastSent = now;
+    this.lastTarget = target;
+    return true;
+  }
+
+  public reset() {
+    this.lastPgn = '';
+    this.lastSent = 0;
+    this.lastTarget = '';
+  }
+}
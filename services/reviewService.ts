@@ -0,0 +1,163 @@
+import { Chess } from 'chess.js';
+import { batchAnalyzer, BatchJob, BatchProgress, PositionEvaluation } from './engineService';
+
+/**
+ * REVIEW SERVICE
+ * PURPOSE: Post-game review. Evaluates every position of a game through the batch analyzer,
+ * then classifies each move by centipawn loss and derives per-side accuracy.
+ */
+
+export type MoveClassification = 'best' | 'good' | 'inaccuracy' | 'mistake' | 'blunder';
+
+export interface ReviewedMove {
+  ply: number;
+  moveNumber: number;
+  san: string;
+  color: 'w' | 'b';
+  /** White-perspective centipawns before and after the move (mates clamped). */
+  evalBefore: number;
+  evalAfter: number;
+  centipawnLoss: number;
+  accuracy: number;
+  classification: MoveClassification;
+  engineBestMove: string | null;
+}
+
+export interface SideSummary {
+  accuracy: number;
+  averageCentipawnLoss: number;
+  counts: Record<MoveClassification, number>;
+}
+
+export interface GameReview {
+  moves: ReviewedMove[];
+  /** White-perspective evaluation of every position, starting with the initial one. */
+  evalGraph: number[];
+  white: SideSummary;
+  black: SideSummary;
+}
+
+const EVAL_CLAMP = 1000;
+const MATE_SCORE = 10000;
+
+// Centipawn-loss upper bounds for each label; anything above the last is a blunder
+const THRESHOLDS: [MoveClassification, number][] = [
+  ['best', 10],
+  ['good', 50],
+  ['inaccuracy', 100],
+  ['mistake', 300]
+];
+
+/**
+ * Converts a side-to-move engine score into a clamped White-perspective centipawn value.
+ */
+export const toWhiteCp = (evaluation: PositionEvaluation): number => {
+  const whiteToMove = evaluation.fen.split(' ')[1] !== 'b';
+  let cp = 0;
+  if (evaluation.mate !== null) {
+    // mate 0 means the side to move is already mated
+    cp = evaluation.mate > 0 ? MATE_SCORE : -MATE_SCORE;
+  } else if (evaluation.cp !== null) {
+    cp = evaluation.cp;
+  } else if (evaluation.bestMove === null) {
+    // No search result and no legal move: checkmate or stalemate
+    const game = new Chess(evaluation.fen);
+    cp = game.isCheckmate() ? -MATE_SCORE : 0;
+  }
+  const clamped = Math.max(-EVAL_CLAMP, Math.min(EVAL_CLAMP, cp));
+  return whiteToMove ? clamped : -clamped;
+};
+
+/**
+ * Win probability (0-100) for a centipawn score, using the logistic curve popularised by lichess.
+ */
+export const winPercent = (cp: number): number => 50 + 50 * (2 / (1 + Math.exp(-0.00368208 * cp)) - 1);
+
+export const moveAccuracy = (winBefore: number, winAfter: number): number => {
+  const raw = 103.1668 * Math.exp(-0.04354 * Math.max(0, winBefore - winAfter)) - 3.1669;
+  return Math.max(0, Math.min(100, raw));
+};
+
+export const classifyLoss = (centipawnLoss: number): MoveClassification => {
+  for (const [label, limit] of THRESHOLDS) {
+    if (centipawnLoss <= limit) return label;
+  }
+  return 'blunder';
+};
+
+const summarize = (moves: ReviewedMove[]): SideSummary => {
+  const counts: Record<MoveClassification, number> = { best: 0, good: 0, inaccuracy: 0, mistake: 0, blunder: 0 };
+  moves.forEach(m => counts[m.classification]++);
+  const avg = (values: number[]) => values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+  return {
+    accuracy: Math.round(avg(moves.map(m => m.accuracy)) * 10) / 10,
+    averageCentipawnLoss: Math.round(avg(moves.map(m => m.centipawnLoss))),
+    counts
+  };
+};
+
+/**
+ * Replays the game and returns every position (start included) plus the played moves.
+ */
+export const expandGame = (startFen: string, sanMoves: string[]) => {
+  const game = new Chess(startFen);
+  const fens = [game.fen()];
+  const played: { san: string; uci: string; color: 'w' | 'b'; moveNumber: number }[] = [];
+  for (const san of sanMoves) {
+    const moveNumber = game.moveNumber();
+    const move = game.move(san);
+    played.push({ san: move.san, uci: move.from + move.to + (move.promotion || ''), color: move.color, moveNumber });
+    fens.push(game.fen());
+  }
+  return { fens, played };
+};
+
+export const buildReview = (startFen: string, sanMoves: string[], evaluations: PositionEvaluation[]): GameReview => {
+  const { played } = expandGame(startFen, sanMoves);
+  const evalGraph = evaluations.map(toWhiteCp);
+
+  const moves: ReviewedMove[] = played.map((p, i) => {
+    const sign = p.color === 'w' ? 1 : -1;
+    const before = evalGraph[i];
+    const after = evalGraph[i + 1];
+    const engineBestMove = evaluations[i].bestMove;
+    const centipawnLoss = Math.max(0, sign * (before - after));
+    const accuracy = moveAccuracy(winPercent(sign * before), winPercent(sign * after));
+    return {
+      ply: i + 1,
+      moveNumber: p.moveNumber,
+      san: p.san,
+      color: p.color,
+      evalBefore: before,
+      evalAfter: after,
+      centipawnLoss,
+      accuracy,
+      classification: engineBestMove === p.uci ? 'best' : classifyLoss(centipawnLoss),
+      engineBestMove
+    };
+  });
+
+  return {
+    moves,
+    evalGraph,
+    white: summarize(moves.filter(m => m.color === 'w')),
+    black: summarize(moves.filter(m => m.color === 'b'))
+  };
+};
+
+/**
+ * Queues a full-game review on the batch analyzer. Progress counts analysed positions.
+ */
+export const reviewGame = (
+  startFen: string,
+  sanMoves: string[],
+  depth: number = 14,
+  onProgress?: (p: BatchProgress) => void
+): { promise: Promise<GameReview>; cancel: BatchJob['cancel'] } => {
+  const { fens } = expandGame(startFen, sanMoves);
+  const job = batchAnalyzer.analyze(fens, depth, onProgress);
+  return {
+    promise: job.promise.then(evaluations => buildReview(startFen, sanMoves, evaluations)),
+    cancel: job.cancel
+  };
+};
@@ -0,0 +1,108 @@
+import { CaptureMode } from '../types';
+import { RecordSnapshot } from './gameRecordService';
+import { BoardBox, CropSource } from './boardLocatorService';
+import { BoardCorners } from './perspectiveService';
+import { SearchSettings, UciOptionValue } from './engineService';
+import { RejectedFrame } from './transitionService';
+import { GameClock } from './clockService';
+
+/**
+ * SESSION SERVICE
+ * PURPOSE: Keeps the working session in IndexedDB so a crash or a closed tab loses nothing.
+ * The app writes a snapshot of the game record, board view, engine settings and vision history
+ * every few seconds while they change. A session that was not ended by the user (a reset, an
+ * import, or choosing to start afresh) is offered for resuming on the next start.
+ */
+
+export interface SessionSnapshot {
+  id: string;
+  startedAt: number;
+  updatedAt: number;
+  /** Set once the user moved on to another game; only open sessions are offered for resuming. */
+  ended: boolean;
+  record: RecordSnapshot;
+  currentFen: string;
+  players: { white: string; black: string; whiteRating: string; blackRating: string };
+  capture: {
+    mode: CaptureMode;
+    orientation: 'white' | 'black';
+    crop: BoardBox | null;
+    cropSource: CropSource;
+    calibration: { deviceId: string; corners: BoardCorners } | null;
+  };
+  engine: { profile: string; options: Record<string, UciOptionValue>; search: SearchSettings };
+  vision: { reads: number; skippedFrames: number; rejected: RejectedFrame[] };
+  clock: GameClock;
+  /** The fair-play guard had seen the game live or it was declared live. */
+  liveGame?: boolean;
+}
+
+const DB_NAME = 'chessVision';
+const DB_VERSION = 1;
+const STORE = 'sessions';
+
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!database) {
+    database = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB not available'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => request.result.createObjectStore(STORE, { keyPath: 'id' });
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // A failed open is tried again on the next call instead of failing for good
+    database.catch(() => { database = null; });
+  }
+  return database;
+};
+
+const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(STORE, mode);
+    const request = action(transaction.objectStore(STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const newSessionId = (): string => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const saveSession = async (session: SessionSnapshot): Promise<void> => {
+  await run('readwrite', store => store.put(session));
+};
+
+/** Newest first. */
+export const listSessions = async (): Promise<SessionSnapshot[]> => {
+  const sessions = await run<SessionSnapshot[]>('readonly', store => store.getAll());
+  return sessions.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+  await run('readwrite', store => store.delete(id));
+};
+
+export const endSession = async (id: string): Promise<void> => {
+  const session = await run<SessionSnapshot | undefined>('readonly', store => store.get(id));
+  if (session && !session.ended) await saveSession({ ...session, ended: true });
+};
+
+/** Plies of the session's main line. */
+export const sessionPlies = (session: SessionSnapshot): number => {
+  let plies = 0;
+  let node = session.record.tree.children[0];
+  while (node) {
+    plies++;
+    node = node.children[0];
+  }
+  return plies;
+};
+
+export const sessionTitle = (session: SessionSnapshot): string =>
+  `${session.players.white.trim() || 'White'} vs ${session.players.black.trim() || 'Black'}`;
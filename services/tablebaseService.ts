@@ -0,0 +1,228 @@
+/**
+ * TABLEBASE SERVICE
+ * PURPOSE: Exact results for endgames with few pieces, behind a provider interface.
+ * The HTTP provider speaks the lichess tablebase API, as served by a local lila-tablebase over
+ * Syzygy files or by the offline stand-in in scripts/tablebase-server.mjs.
+ */
+
+export const TABLEBASE_MAX_PIECES = 7;
+
+/**
+ * Outcome for the side to move. Cursed wins and blessed losses are decided by the fifty-move rule,
+ * so they end in a draw with correct play.
+ */
+export type TablebaseCategory = 'win' | 'cursed-win' | 'draw' | 'blessed-loss' | 'loss' | 'unknown';
+
+export interface TablebaseMove {
+  uci: string;
+  san: string;
+  /** Outcome for the side playing the move. */
+  category: TablebaseCategory;
+  /** Distance to zeroing (capture or pawn move) after the move; null when unknown. */
+  dtz: number | null;
+  /** Distance to mate after the move, when the tables provide it. */
+  dtm: number | null;
+  zeroing: boolean;
+}
+
+export interface TablebaseResult {
+  fen: string;
+  category: TablebaseCategory;
+  dtz: number | null;
+  dtm: number | null;
+  /** Best first: wins (fastest first), then draws, then losses (slowest first). */
+  moves: TablebaseMove[];
+}
+
+export interface TablebaseProvider {
+  readonly name: string;
+  /** Resolves to null when the position is outside the tables or the source is unavailable. */
+  probe(fen: string): Promise<TablebaseResult | null>;
+}
+
+export interface TablebaseSettings {
+  enabled: boolean;
+  url: string;
+}
+
+// lila-tablebase listens here by default; the stand-in script uses the same port
+export const DEFAULT_TABLEBASE_URL = 'http://127.0.0.1:9000';
+
+const SETTINGS_KEY = 'chessVision.tablebase';
+
+export const loadTablebaseSettings = (): TablebaseSettings => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(SETTINGS_KEY) || 'null');
+    if (parsed && typeof parsed.url === 'string') return { enabled: parsed.enabled !== false, url: parsed.url };
+  } catch (e) {}
+  // Off until the user turns it on: most installs have no tablebase listening
+  return { enabled: false, url: DEFAULT_TABLEBASE_URL };
+};
+
+export const saveTablebaseSettings = (settings: TablebaseSettings) => {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.error("Tablebase storage failure:", e);
+  }
+};
+
+export const pieceCount = (fen: string): number => (fen.split(' ')[0].match(/[a-zA-Z]/g) || []).length;
+
+const normalizeCategory = (category: unknown): TablebaseCategory => {
+  switch (category) {
+    case 'win':
+    case 'syzygy-win':
+    case 'maybe-win':
+      return 'win';
+    case 'loss':
+    case 'syzygy-loss':
+    case 'maybe-loss':
+      return 'loss';
+    case 'cursed-win':
+    case 'draw':
+    case 'blessed-loss':
+      return category;
+    default:
+      return 'unknown';
+  }
+};
+
+// API move categories describe the opponent's position after the move
+const INVERTED: Record<TablebaseCategory, TablebaseCategory> = {
+  'win': 'loss',
+  'cursed-win': 'blessed-loss',
+  'draw': 'draw',
+  'blessed-loss': 'cursed-win',
+  'loss': 'win',
+  'unknown': 'unknown'
+};
+
+const CATEGORY_RANK: Record<TablebaseCategory, number> = {
+  'win': 0,
+  'cursed-win': 1,
+  'draw': 2,
+  'unknown': 3,
+  'blessed-loss': 4,
+  'loss': 5
+};
+
+const compareMoves = (a: TablebaseMove, b: TablebaseMove): number => {
+  const rank = CATEGORY_RANK[a.category] - CATEGORY_RANK[b.category];
+  if (rank !== 0) return rank;
+  const distance = (m: TablebaseMove) => Math.abs(m.dtm ?? m.dtz ?? 0);
+  if (a.category === 'win' || a.category === 'cursed-win') {
+    if (a.zeroing !== b.zeroing) return a.zeroing ? -1 : 1;
+    return distance(a) - distance(b);
+  }
+  // Losing side drags it out as long as possible
+  return distance(b) - distance(a);
+};
+
+const toNumber = (value: unknown): number | null => (typeof value === 'number' ? value : null);
+
+/** A lichess tablebase answer as it arrives; every field is checked before use. */
+interface TablebaseResponse {
+  category?: unknown;
+  dtz?: unknown;
+  dtm?: unknown;
+  moves?: unknown;
+}
+
+interface TablebaseResponseMove {
+  uci?: unknown;
+  san?: unknown;
+  category?: unknown;
+  dtz?: unknown;
+  dtm?: unknown;
+  zeroing?: unknown;
+}
+
+/**
+ * Parses a lichess tablebase API response.
+ */
+export const parseTablebaseResponse = (fen: string, data: unknown): TablebaseResult => {
+  const response: TablebaseResponse = typeof data === 'object' && data !== null ? data : {};
+  const moves = Array.isArray(response.moves) ? (response.moves as TablebaseResponseMove[]) : [];
+  return {
+    fen,
+    category: normalizeCategory(response.category),
+    dtz: toNumber(response.dtz),
+    dtm: toNumber(response.dtm),
+    moves: moves
+      .filter((m): m is TablebaseResponseMove & { uci: string } => typeof m?.uci === 'string')
+      .map((m): TablebaseMove => ({
+        uci: m.uci,
+        san: typeof m.san === 'string' ? m.san : m.uci,
+        category: INVERTED[normalizeCategory(m.category)],
+        dtz: toNumber(m.dtz),
+        dtm: toNumber(m.dtm),
+        zeroing: m.zeroing === true
+      }))
+      .sort(compareMoves)
+  };
+};
+
+/**
+ * Human readable verdict for the side to move, e.g. "Win • DTZ 23 • Mate in 31".
+ */
+export const describeTablebase = (entry: Pick<TablebaseResult, 'category' | 'dtz' | 'dtm'>): string => {
+  const labels: Record<TablebaseCategory, string> = {
+    'win': 'Win',
+    'cursed-win': 'Cursed win',
+    'draw': 'Draw',
+    'blessed-loss': 'Blessed loss',
+    'loss': 'Loss',
+    'unknown': 'Unknown'
+  };
+  const parts = [labels[entry.category]];
+  if (entry.dtz !== null && entry.category !== 'draw') parts.push(`DTZ ${Math.abs(entry.dtz)}`);
+  if (entry.dtm !== null && entry.dtm !== 0) parts.push(`Mate in ${Math.ceil(Math.abs(entry.dtm) / 2)}`);
+  return parts.join(' • ');
+};
+
+/**
+ * Verdict for playing the move; its distances count from the opponent's reply, so add the move.
+ */
+export const describeTablebaseMove = (move: TablebaseMove): string =>
+  describeTablebase({ ...move, dtm: move.dtm === null ? null : Math.abs(move.dtm) + 1 });
+
+const CACHE_LIMIT = 500;
+const RETRY_AFTER_MS = 30000;
+
+export class HttpTablebaseProvider implements TablebaseProvider {
+  public readonly name: string;
+  private baseUrl: string;
+  private cache = new Map<string, TablebaseResult | null>();
+  // After a failed request the source is left alone for a while instead of failing every move
+  private unavailableUntil = 0;
+
+  constructor(baseUrl: string) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.name = this.baseUrl;
+  }
+
+  public async probe(fen: string): Promise<TablebaseResult | null> {
+    if (pieceCount(fen) > TABLEBASE_MAX_PIECES) return null;
+    if (this.cache.has(fen)) return this.cache.get(fen)!;
+    if (Date.now() < this.unavailableUntil) return null;
+
+    let result: TablebaseResult | null = null;
+    try {
+      const response = await fetch(`${this.baseUrl}/standard?fen=${encodeURIComponent(fen)}`);
+      if (response.ok) result = parseTablebaseResponse(fen, await response.json());
+      else if (response.status >= 500) throw new Error(`Tablebase answered ${response.status}`);
+    } catch (e) {
+      console.error("Tablebase failure:", e);
+      this.unavailableUntil = Date.now() + RETRY_AFTER_MS;
+      return null;
+    }
+
+    if (this.cache.size >= CACHE_LIMIT) this.cache.delete(this.cache.keys().next().value!);
+    this.cache.set(fen, result);
+    return result;
+  }
+}
+
+export const createTablebaseProvider = (settings: TablebaseSettings): TablebaseProvider | null =>
+  settings.enabled && settings.url.trim() ? new HttpTablebaseProvider(settings.url.trim()) : null;
@@ -0,0 +1,165 @@
+import { Chess } from 'chess.js';
+
+/**
+ * TRANSITION SERVICE
+ * PURPOSE: Decides whether a recognised position may replace the current one.
+ * A read is accepted when a short sequence of legal moves leads to it, or when the same
+ * unexplained position keeps coming back frame after frame. Everything else (a hand over the
+ * board, a piece in mid-air, a misread) is rejected and logged.
+ */
+
+export interface LinkMove {
+  from: string;
+  to: string;
+  promotion?: string;
+}
+
+export type RejectReason = 'no-legal-path' | 'piece-lifted' | 'awaiting-stability';
+
+export type TransitionVerdict =
+  | { kind: 'unchanged' }
+  | { kind: 'moves'; moves: LinkMove[]; fen: string }
+  | { kind: 'stable'; frames: number }
+  | { kind: 'rejected'; reason: RejectReason; frames: number };
+
+export interface RejectedFrame {
+  time: number;
+  placement: string;
+  reason: RejectReason;
+}
+
+export interface TransitionSettings {
+  /** Longest move sequence searched between two frames, e.g. 2 when the reply came before the next frame. */
+  maxPlies: number;
+  /** Consecutive identical frames that make an unexplained position trustworthy. */
+  stableFrames: number;
+}
+
+export const DEFAULT_TRANSITION_SETTINGS: TransitionSettings = { maxPlies: 2, stableFrames: 3 };
+
+const LOG_LIMIT = 50;
+// A lifted piece is missing from the board without appearing anywhere else
+const MAX_LIFTED_PIECES = 2;
+
+const placementOf = (fen: string) => fen.split(' ')[0];
+
+/**
+ * Breadth-first search for the shortest legal move sequence from fen to the placement.
+ */
+export const findMovePath = (fen: string, placement: string, maxPlies: number): { moves: LinkMove[]; fen: string } | null => {
+  let frontier: { fen: string; moves: LinkMove[] }[] = [{ fen, moves: [] }];
+  const seen = new Set([placementOf(fen) + fen.split(' ')[1]]);
+
+  for (let ply = 0; ply < maxPlies; ply++) {
+    const next: typeof frontier = [];
+    for (const node of frontier) {
+      let moves;
+      try {
+        moves = new Chess(node.fen).moves({ verbose: true });
+      } catch (e) {
+        return null;
+      }
+      for (const m of moves) {
+        const path = [...node.moves, { from: m.from, to: m.to, promotion: m.promotion }];
+        if (placementOf(m.after) === placement) return { moves: path, fen: m.after };
+        const key = placementOf(m.after) + m.after.split(' ')[1];
+        if (seen.has(key)) continue;
+        seen.add(key);
+        next.push({ fen: m.after, moves: path });
+      }
+    }
+    frontier = next;
+  }
+  return null;
+};
+
+const expand = (placement: string): string[] =>
+  placement.split('/').flatMap(rank => rank.split('').flatMap(ch => (/\d/.test(ch) ? Array(parseInt(ch)).fill('') : [ch])));
+
+/**
+ * True when the new placement is the old one with one or two pieces picked up: a move in
+ * progress, not a position.
+ */
+const isPieceLifted = (before: string, after: string): boolean => {
+  const a = expand(before);
+  const b = expand(after);
+  let removed = 0;
+  for (let i = 0; i < 64; i++) {
+    if (a[i] === b[i]) continue;
+    if (b[i] !== '') return false;
+    removed++;
+  }
+  return removed > 0 && removed <= MAX_LIFTED_PIECES;
+};
+
+export class TransitionFilter {
+  private settings: TransitionSettings;
+  private candidate: string | null = null;
+  private candidateFrames = 0;
+  private log: RejectedFrame[] = [];
+
+  constructor(settings: TransitionSettings = DEFAULT_TRANSITION_SETTINGS) {
+    this.settings = settings;
+  }
+
+  /**
+   * Judges a recognised placement against the position the app currently holds.
+   */
+  public evaluate(currentFen: string, placement: string): TransitionVerdict {
+    if (placement === placementOf(currentFen)) {
+      this.candidate = null;
+      this.candidateFrames = 0;
+      return { kind: 'unchanged' };
+    }
+
+    const path = findMovePath(currentFen, placement, this.settings.maxPlies);
+    if (path) {
+      this.candidate = null;
+      this.candidateFrames = 0;
+      return { kind: 'moves', ...path };
+    }
+
+    // A half-made move never becomes the position, however long the hand hovers
+    if (isPieceLifted(placementOf(currentFen), placement)) {
+      this.candidate = null;
+      this.candidateFrames = 0;
+      return this.reject(placement, 'piece-lifted', 0);
+    }
+
+    if (placement === this.candidate) this.candidateFrames++;
+    else {
+      this.candidate = placement;
+      this.candidateFrames = 1;
+    }
+
+    if (this.candidateFrames >= this.settings.stableFrames) {
+      const frames = this.candidateFrames;
+      this.candidate = null;
+      this.candidateFrames = 0;
+      return { kind: 'stable', frames };
+    }
+    return this.reject(placement, this.candidateFrames > 1 ? 'awaiting-stability' : 'no-legal-path', this.candidateFrames);
+  }
+
+  /** Forgets the position being watched for stability, e.g. after the game was changed by hand. */
+  public reset() {
+    this.candidate = null;
+    this.candidateFrames = 0;
+  }
+
+  /** Most recent last. */
+  public getRejections(): RejectedFrame[] {
+    return [...this.log];
+  }
+
+  /** Puts back the rejections of a resumed session. */
+  public restoreRejections(log: RejectedFrame[]) {
+    this.log = log.slice(-LOG_LIMIT);
+  }
+
+  private reject(placement: string, reason: RejectReason, frames: number): TransitionVerdict {
+    this.log.push({ time: Date.now(), placement, reason });
+    if (this.log.length > LOG_LIMIT) this.log.shift();
+    return { kind: 'rejected', reason, frames };
+  }
+}
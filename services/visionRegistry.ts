@@ -0,0 +1,109 @@
+import { VisionProvider } from "./visionService";
+import { createGeminiProvider, DEFAULT_GEMINI_MODEL } from "./geminiService";
+import { createOpenAiProvider, DEFAULT_OPENAI_BASE_URL, DEFAULT_OPENAI_MODEL } from "./openAiVisionService";
+import { createMockProvider, MockVisionMode } from "./mockVisionService";
+import { createLocalProvider } from "./localVisionService";
+
+/**
+ * VISION REGISTRY
+ * PURPOSE: The board recognizers the app can sync through, and which one is selected.
+ * A provider registers a factory that builds it from the saved settings; the sync loop only ever
+ * sees the VisionProvider interface.
+ */
+
+export interface VisionSettings {
+  provider: string;
+  gemini: { model: string; apiKey: string };
+  openai: { baseUrl: string; model: string; apiKey: string };
+  mock: { mode: MockVisionMode };
+}
+
+export type VisionProviderFactory = (settings: VisionSettings) => VisionProvider;
+
+export interface VisionProviderEntry {
+  id: string;
+  label: string;
+  /** Shown in the provider picker. */
+  description: string;
+  create: VisionProviderFactory;
+}
+
+const registry = new Map<string, VisionProviderEntry>();
+
+export const registerVisionProvider = (entry: VisionProviderEntry) => {
+  registry.set(entry.id, entry);
+};
+
+export const listVisionProviders = (): VisionProviderEntry[] => [...registry.values()];
+
+registerVisionProvider({
+  id: 'gemini',
+  label: 'Gemini',
+  description: 'Google Gemini in the cloud',
+  create: settings => createGeminiProvider({ model: settings.gemini.model, apiKey: settings.gemini.apiKey || undefined })
+});
+registerVisionProvider({
+  id: 'openai',
+  label: 'OpenAI-compatible',
+  description: 'Any chat completions endpoint with vision, hosted or on this machine',
+  create: settings => createOpenAiProvider({ ...settings.openai, apiKey: settings.openai.apiKey || undefined })
+});
+registerVisionProvider({
+  id: 'local',
+  label: 'On-device',
+  description: 'Template matching in the browser, works offline',
+  create: () => createLocalProvider()
+});
+registerVisionProvider({
+  id: 'mock',
+  label: 'Mock fixtures',
+  description: 'Deterministic answers from fixture images, for tests',
+  create: settings => createMockProvider({ mode: settings.mock.mode })
+});
+
+export const DEFAULT_VISION_SETTINGS: VisionSettings = {
+  provider: 'gemini',
+  gemini: { model: DEFAULT_GEMINI_MODEL, apiKey: '' },
+  openai: { baseUrl: DEFAULT_OPENAI_BASE_URL, model: DEFAULT_OPENAI_MODEL, apiKey: '' },
+  mock: { mode: 'sequence' }
+};
+
+/**
+ * Builds the selected provider, falling back to Gemini when the saved id is no longer registered.
+ */
+export const createVisionProvider = (settings: VisionSettings): VisionProvider =>
+  (registry.get(settings.provider) || registry.get(DEFAULT_VISION_SETTINGS.provider)!).create(settings);
+
+const SETTINGS_KEY = 'chessVision.vision';
+// Written by earlier versions, which only knew 'cloud' and 'local'
+const LEGACY_RECOGNIZER_KEY = 'chessVision.recognizer';
+
+const str = (value: unknown, fallback: string) => (typeof value === 'string' ? value : fallback);
+
+export const loadVisionSettings = (): VisionSettings => {
+  const defaults = DEFAULT_VISION_SETTINGS;
+  try {
+    const parsed = JSON.parse(localStorage.getItem(SETTINGS_KEY) || 'null');
+    if (parsed && typeof parsed.provider === 'string') {
+      return {
+        provider: parsed.provider,
+        gemini: { model: str(parsed.gemini?.model, defaults.gemini.model), apiKey: str(parsed.gemini?.apiKey, '') },
+        openai: {
+          baseUrl: str(parsed.openai?.baseUrl, defaults.openai.baseUrl),
+          model: str(parsed.openai?.model, defaults.openai.model),
+          apiKey: str(parsed.openai?.apiKey, '')
+        },
+        mock: { mode: parsed.mock?.mode === 'match' ? 'match' : 'sequence' }
+      };
+    }
+  } catch (e) {}
+  return { ...defaults, provider: localStorage.getItem(LEGACY_RECOGNIZER_KEY) === 'local' ? 'local' : defaults.provider };
+};
+
+export const saveVisionSettings = (settings: VisionSettings) => {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.error("Vision settings storage failure:", e);
+  }
+};
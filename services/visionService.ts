@@ -1,13 +1,29 @@
 
-import { GoogleGenAI, Type } from "@google/genai";
+import { CaptureMode } from "../types";
 
 /**
  * VISION SERVICE (MAGNUS VISION CORE 4.0 - ASSAULT)
  * Optimized for High-Precision Pixel Mapping and Grid Verification
+ * The recognition contract shared by every provider; the providers themselves are listed in
+ * visionRegistry.ts.
  */
 
+export interface SquareReading {
+  /** Algebraic square, e.g. "e4". */
+  square: string;
+  /** FEN letter, or null for an empty square. */
+  piece: string | null;
+  /** 0-1; how sure the recognizer is about this square. */
+  confidence: number;
+}
+
+/**
+ * What a recognizer saw. Only the piece placement: side to move, castling and the rest of the
+ * FEN come from the move history (see positionStateService).
+ */
 export interface VisionResult {
-  fen: string;
+  /** FEN piece placement field, rank 8 first. */
+  placement: string;
   bottomColor: 'white' | 'black';
   boundingBox?: {
     ymin: number;
@@ -15,103 +31,181 @@ export interface VisionResult {
     ymax: number;
     xmax: number;
   };
+  /** All 64 squares, a8 to h1, when the read succeeded. */
+  squares?: SquareReading[];
+  /** 0-1 for the board as a whole. */
+  confidence?: number;
+  /** Whether the page around the board shows a game still in progress; unset when only the board was seen. */
+  liveGame?: boolean;
   error?: string;
 }
 
-const forceValidFen = (raw: string): string => {
-  if (!raw || raw.trim().length === 0) return "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1";
-  
-  // Basic validation to prevent game-breaking board states
-  const parts = raw.trim().split(/\s+/);
-  const board = parts[0] || "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR";
-  
-  // Count kings - if AI hallucinations occur, we force a reset to prevent errors
-  const whiteKings = (board.match(/K/g) || []).length;
-  const blackKings = (board.match(/k/g) || []).length;
-  
-  if (whiteKings !== 1 || blackKings !== 1) {
-    return "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1";
-  }
+// Squares read with less confidence are flagged for the user to confirm
+export const LOW_CONFIDENCE = 0.6;
+
+export const uncertainSquares = (result: VisionResult): SquareReading[] =>
+  (result.squares || []).filter(s => s.confidence < LOW_CONFIDENCE);
+
+const FILES = 'abcdefgh';
+
+/**
+ * Expands a FEN placement into 64 square readings, a8 to h1, all at the given confidence.
+ */
+export const placementToSquares = (placement: string, confidence: number): SquareReading[] => {
+  const squares: SquareReading[] = [];
+  placement.split('/').forEach((rank, i) => {
+    let file = 0;
+    for (const ch of rank) {
+      if (/\d/.test(ch)) {
+        for (let n = 0; n < parseInt(ch); n++) squares.push({ square: `${FILES[file++]}${8 - i}`, piece: null, confidence });
+      } else {
+        squares.push({ square: `${FILES[file++]}${8 - i}`, piece: ch, confidence });
+      }
+    }
+  });
+  return squares;
+};
 
-  const turn = parts[1] || "w";
-  const castling = parts[2] || "KQkq";
-  const ep = parts[3] || "-";
-  const half = parts[4] || "0";
-  const full = parts[5] || "1";
-  
-  return `${board} ${turn} ${castling} ${ep} ${half} ${full}`;
+/**
+ * Inverse of placementToSquares; squares may come in any order.
+ */
+export const squaresToPlacement = (squares: SquareReading[]): string => {
+  const board = new Map(squares.map(s => [s.square, s.piece]));
+  return [8, 7, 6, 5, 4, 3, 2, 1].map(rank => {
+    let row = '';
+    let empty = 0;
+    for (const file of FILES) {
+      const piece = board.get(`${file}${rank}`);
+      if (!piece) { empty++; continue; }
+      if (empty) row += empty;
+      row += piece;
+      empty = 0;
+    }
+    return empty ? row + empty : row;
+  }).join('/');
 };
 
-export const analyzeBoardVision = async (base64Image: string, needsCrop: boolean = false): Promise<VisionResult> => {
-  const apiKey = process.env.API_KEY;
-  if (!apiKey || apiKey === "undefined" || apiKey === "") {
-    return { fen: "", bottomColor: 'white', error: "API Key Required" };
+/**
+ * Reasons a placement cannot be a chess position, or null when it can. A bad read is reported
+ * rather than replaced, so one misread square never wipes the game state.
+ */
+export const placementProblem = (placement: string): string | null => {
+  const ranks = placement.split('/');
+  if (ranks.length !== 8) return `Unreadable board: ${ranks.length} ranks`;
+  for (const rank of ranks) {
+    if (!/^[pnbrqkPNBRQK1-8]+$/.test(rank)) return `Unreadable board: rank "${rank}"`;
+    const width = rank.split('').reduce((sum, ch) => sum + (/\d/.test(ch) ? parseInt(ch) : 1), 0);
+    if (width !== 8) return `Unreadable board: rank "${rank}" is ${width} squares wide`;
   }
+  const count = (letter: string) => (placement.match(new RegExp(letter, 'g')) || []).length;
+  if (count('K') !== 1 || count('k') !== 1) return `Unreadable board: ${count('K')} white / ${count('k')} black kings`;
+  if (/[pP]/.test(ranks[0] + ranks[7])) return "Unreadable board: pawn on a back rank";
+  return null;
+};
+
+/**
+ * One frame to recognise. The image is a base64 JPEG: the board crop, the camera-straightened
+ * board, or the whole shared window before a crop is known.
+ */
+export interface VisionRequest {
+  image: string;
+  mode: CaptureMode;
+  /** Current board orientation, for recognizers that cannot always tell it from the picture. */
+  orientation: 'white' | 'black';
+  /** Squares that changed since the last frame sent, when the frame is a board view; a hint only. */
+  changedSquares?: string[];
+}
 
-  const ai = new GoogleGenAI({ apiKey });
-  
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: {
-        parts: [
-          {
-            text: `PRECISION CHESS EXTRACTION (ASSAULT 4.0)
-            1. Find the 8x8 chess board (Chess.com/Lichess style).
+/**
+ * A board recognizer. Failures are reported through VisionResult.error rather than thrown, so
+ * the sync loop treats every provider alike.
+ */
+export interface VisionProvider {
+  readonly id: string;
+  readonly label: string;
+  recognize(request: VisionRequest): Promise<VisionResult>;
+}
+
+export const visionFailure = (error: string, bottomColor: 'white' | 'black' = 'white'): VisionResult =>
+  ({ placement: '', bottomColor, error });
+
+const SOURCE_HINTS: Record<CaptureMode, string> = {
+  [CaptureMode.SCREEN]: 'Find the 8x8 chess board (Chess.com/Lichess style).',
+  [CaptureMode.CAMERA]: 'The image is a perspective-corrected, top-down photo of a physical tournament board; the 8x8 playing area fills the frame edge to edge. Pieces are 3D Staunton figures seen from above, so judge each piece by its footprint square.'
+};
+
+/**
+ * Instructions shared by the language-model providers.
+ */
+export const buildVisionPrompt = (mode: CaptureMode, changedSquares?: string[]): string => `PRECISION CHESS EXTRACTION (ASSAULT 4.0)
+            1. ${SOURCE_HINTS[mode]}
             2. Identify every piece with 100% accuracy. Empty squares are digit numbers.
             3. Detect perspective: Which color is at the bottom?
-            4. Detect turn: Based on last move highlights if visible.
+            4. Rate your confidence (0-1) for the whole board, and list every square you are not sure about (occluded, blurred, ambiguous piece) with its own confidence.
+            5. If the page around the board is visible, set liveGame: true when it shows a game still being played (clocks, resign/draw/abort buttons, no result), false when it shows a finished game or an analysis board. Leave it out when only the board is visible.${
+              changedSquares?.length ? `
+            6. Since the previous image these squares changed: ${changedSquares.join(', ')}. Look at them closely, but still read every square.` : ''}
             
             OUTPUT: Strict JSON only.
             {
-              "fen": "full_fen_string",
+              "placement": "fen_piece_placement_field_only",
               "bottomColor": "white"|"black",
-              "boundingBox": {"ymin": 0, "xmin": 0, "ymax": 1000, "xmax": 1000}
-            }`
-          },
-          {
-            inlineData: {
-              mimeType: 'image/jpeg',
-              data: base64Image,
-            },
-          },
-        ],
-      },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            fen: { type: Type.STRING },
-            bottomColor: { type: Type.STRING, enum: ['white', 'black'] },
-            boundingBox: {
-              type: Type.OBJECT,
-              properties: {
-                ymin: { type: Type.NUMBER },
-                xmin: { type: Type.NUMBER },
-                ymax: { type: Type.NUMBER },
-                xmax: { type: Type.NUMBER },
-              },
-              required: ["ymin", "xmin", "ymax", "xmax"],
-            }
-          },
-          required: ["fen", "bottomColor"],
-        },
-      },
-    });
-
-    const text = response.text || '{}';
-    const result = JSON.parse(text);
-    
-    // Safety check for empty or malformed FEN
-    if (!result.fen || result.fen.length < 15) {
-       throw new Error("Neural Blur: Incomplete Board Detected");
-    }
+              "boundingBox": {"ymin": 0, "xmin": 0, "ymax": 1000, "xmax": 1000},
+              "confidence": 0.95,
+              "uncertainSquares": [{"square": "e4", "confidence": 0.4}],
+              "liveGame": true
+            }`;
+
+const clamp01 = (value: unknown, fallback: number): number =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(1, Math.max(0, value)) : fallback;
 
-    result.fen = forceValidFen(result.fen);
-    return result as VisionResult;
-  } catch (error: any) {
-    console.error("Vision Bridge Failure:", error);
-    return { fen: "", bottomColor: 'white', error: error.message || "Sync Latency Fault" };
+/** A model's JSON answer as it arrives; every field is checked before use. */
+interface VisionAnswer {
+  placement?: unknown;
+  bottomColor?: unknown;
+  boundingBox?: unknown;
+  confidence?: unknown;
+  uncertainSquares?: unknown;
+  liveGame?: unknown;
+}
+
+type BoxEdge = 'ymin' | 'xmin' | 'ymax' | 'xmax';
+
+const isBox = (box: unknown): box is Record<BoxEdge, number> =>
+  typeof box === 'object' && box !== null &&
+  (['ymin', 'xmin', 'ymax', 'xmax'] as BoxEdge[]).every(k => typeof (box as Record<string, unknown>)[k] === 'number');
+
+/**
+ * Turns a model's JSON answer (see buildVisionPrompt) into a VisionResult. Throws on an answer
+ * that does not describe a chess position.
+ */
+export const parseVisionAnswer = (answer: unknown): VisionResult => {
+  const result: VisionAnswer = typeof answer === 'object' && answer !== null ? answer : {};
+  // Safety check for empty or malformed placement; a full FEN is cut down to its first field
+  const placement = typeof result.placement === 'string' ? result.placement.trim().split(/\s+/)[0] : '';
+  if (placement.length < 15) {
+     throw new Error("Neural Blur: Incomplete Board Detected");
   }
+
+  const problem = placementProblem(placement);
+  if (problem) throw new Error(problem);
+
+  // Squares the model did not single out inherit its overall confidence
+  const confidence = clamp01(result.confidence, 0.5);
+  const doubts = new Map<string, number>(
+    (Array.isArray(result.uncertainSquares) ? (result.uncertainSquares as { square?: unknown; confidence?: unknown }[]) : [])
+      .filter((u): u is { square: string; confidence?: unknown } => typeof u?.square === 'string')
+      .map(u => [u.square.toLowerCase(), clamp01(u.confidence, 0)])
+  );
+  const squares = placementToSquares(placement, confidence).map(s => ({ ...s, confidence: doubts.get(s.square) ?? s.confidence }));
+
+  const box = result.boundingBox;
+  return {
+    placement,
+    bottomColor: result.bottomColor === 'black' ? 'black' : 'white',
+    boundingBox: isBox(box) ? { ymin: box.ymin, xmin: box.xmin, ymax: box.ymax, xmax: box.xmax } : undefined,
+    squares,
+    confidence,
+    liveGame: typeof result.liveGame === 'boolean' ? result.liveGame : undefined
+  };
 };
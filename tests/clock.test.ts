@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import {
+  TimeControl, checkFlag, createClock, formatClk, formatClock, incrementFromTag, parseClockComment, pauseClock,
+  pressClock, remainingAt, resumeClock, stripClockCommand, switchClock, timeControlTag
+} from '../services/clockService';
+
+const control = (baseSeconds: number, incrementSeconds: number, delaySeconds: number = 0): TimeControl =>
+  ({ baseSeconds, incrementSeconds, delaySeconds });
+
+describe('clock', () => {
+  it('starts the opponent on the first move and adds the increment after each move', () => {
+    let clock = switchClock(createClock(control(300, 3)), 'w', 1000);
+    expect(clock.running).toBe('b');
+    expect(remainingAt(clock, 'w', 1000)).toBe(300000);
+
+    clock = switchClock(clock, 'b', 11000);
+    expect(remainingAt(clock, 'b', 11000)).toBe(300000 - 10000 + 3000);
+    expect(clock.running).toBe('w');
+  });
+
+  it('ignores a press for the side that is not running', () => {
+    const clock = switchClock(createClock(control(300, 3)), 'w', 1000);
+    expect(pressClock(clock, 'w', 5000)).toBe(clock);
+  });
+
+  it('charges nothing during the delay', () => {
+    const clock = switchClock(createClock(control(600, 0, 5)), 'w', 0);
+    expect(remainingAt(clock, 'b', 4000)).toBe(600000);
+    expect(remainingAt(clock, 'b', 7000)).toBe(598000);
+  });
+
+  it('keeps the unused delay across a pause', () => {
+    let clock = switchClock(createClock(control(600, 0, 5)), 'w', 0);
+    clock = pauseClock(clock, 2000);
+    expect(clock.running).toBeNull();
+    expect(clock.remaining.b).toBe(600000);
+
+    clock = resumeClock(clock, 'b', 60000);
+    expect(remainingAt(clock, 'b', 63000)).toBe(600000);
+    expect(remainingAt(clock, 'b', 64000)).toBe(599000);
+  });
+
+  it('keeps the time used before a pause', () => {
+    let clock = switchClock(createClock(control(60, 0)), 'w', 0);
+    clock = pauseClock(clock, 20000);
+    clock = resumeClock(clock, 'b', 100000);
+    expect(remainingAt(clock, 'b', 110000)).toBe(30000);
+  });
+
+  it('flags a side whose time has run out', () => {
+    const clock = switchClock(createClock(control(10, 5)), 'w', 0);
+    expect(checkFlag(clock, 9000).flagged).toBeNull();
+    const flagged = checkFlag(clock, 10500);
+    expect(flagged).toMatchObject({ flagged: 'b', running: null, remaining: { b: 0 } });
+    expect(pressClock(flagged, 'b', 11000)).toBe(flagged);
+  });
+});
+
+describe('clock formatting', () => {
+  it('shows tenths only in the last ten seconds', () => {
+    expect(formatClock(3723000)).toBe('1:02:03');
+    expect(formatClock(65000)).toBe('1:05');
+    expect(formatClock(9440)).toBe('9.4');
+  });
+
+  it('reads and writes [%clk] commands', () => {
+    expect(formatClk(5420)).toBe('1:30:20');
+    expect(parseClockComment('Good move [%clk 1:30:20]')).toBe(5420);
+    expect(parseClockComment('no clock')).toBeNull();
+    expect(stripClockCommand('Good move [%clk 1:30:20]')).toBe('Good move');
+    expect(stripClockCommand('[%clk 0:00:09]')).toBeUndefined();
+  });
+
+  it('writes the TimeControl tag with increment or delay', () => {
+    expect(timeControlTag(control(5400, 30))).toBe('5400+30');
+    expect(timeControlTag(control(3600, 0, 5))).toBe('3600d5');
+    expect(incrementFromTag('5400+30')).toBe(30);
+    expect(incrementFromTag('3600d5')).toBe(0);
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { CaptureMode } from '../types';
+import { FairPlayInput, fairPlayStatus } from '../services/fairPlayService';
+
+const input = (patch: Partial<FairPlayInput>): FairPlayInput => ({
+  settings: { enabled: true },
+  mode: CaptureMode.SCREEN,
+  isStreaming: true,
+  declaredLive: false,
+  seenLive: false,
+  clock: 'quiet',
+  layoutLive: null,
+  gameOver: false,
+  ...patch
+});
+
+describe('fair-play guard', () => {
+  it('locks on a ticking clock or a live layout while watching the screen', () => {
+    expect(fairPlayStatus(input({ clock: 'ticking' }))).toEqual({ locked: true, signal: 'clock' });
+    expect(fairPlayStatus(input({ layoutLive: true }))).toEqual({ locked: true, signal: 'layout' });
+    expect(fairPlayStatus(input({}))).toEqual({ locked: false, signal: null });
+  });
+
+  // Importing a game or studying a set-up position stops the capture and auto-sync, so nothing
+  // new is watched; the game seen live must stay locked regardless
+  it('keeps a game seen live locked once the capture stops watching', () => {
+    expect(fairPlayStatus(input({ seenLive: true, isStreaming: false }))).toEqual({ locked: true, signal: 'seen' });
+    expect(fairPlayStatus(input({ seenLive: true, mode: CaptureMode.CAMERA, clock: 'unknown' }))).toEqual({ locked: true, signal: 'seen' });
+    expect(fairPlayStatus(input({ seenLive: true, clock: 'unknown', layoutLive: null })).locked).toBe(true);
+  });
+
+  it('unlocks once the game is over or the guard is off', () => {
+    expect(fairPlayStatus(input({ seenLive: true, declaredLive: true, gameOver: true })).locked).toBe(false);
+    expect(fairPlayStatus(input({ seenLive: true, settings: { enabled: false } })).locked).toBe(false);
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { INITIAL_FEN } from '../types';
+import { GameRecord } from '../services/gameRecordService';
+import { parsePgn } from '../services/pgnService';
+
+const movetext = (record: GameRecord) => record.toPgn({ date: new Date(2024, 0, 1) }).split('\n\n')[1].trim();
+
+describe('game record evaluations', () => {
+  it('writes the score of the position after the move', () => {
+    const record = new GameRecord(INITIAL_FEN);
+    const e4 = record.addMove({ from: 'e2', to: 'e4' })!;
+    const e5 = record.addMove({ from: 'e7', to: 'e5' })!;
+
+    // Engine scores are for the side to move: Black after 1. e4, White after 1... e5
+    expect(record.setEvaluation(e4.fenAfter, -0.3)).toBe(true);
+    expect(record.setEvaluation(e5.fenAfter, 0.25)).toBe(true);
+    expect(movetext(record)).toBe('1. e4 {[%eval 0.30]} e5 {[%eval 0.25]} *');
+  });
+
+  it('leaves moves alone for a position nobody reached', () => {
+    const record = new GameRecord(INITIAL_FEN);
+    record.addMove({ from: 'e2', to: 'e4' });
+    expect(record.setEvaluation(INITIAL_FEN, 0.2)).toBe(false);
+    expect(record.getMoves()[0].evaluation).toBeNull();
+  });
+});
+
+describe('game record comments', () => {
+  it('keeps a typed "}" from ending the comment early', () => {
+    const record = new GameRecord(INITIAL_FEN);
+    const e4 = record.addMove({ from: 'e2', to: 'e4' })!;
+    record.addMove({ from: 'e7', to: 'e5' });
+    record.annotate(e4.id, 'best by test} 2. Qh5');
+    record.setStartComment('Club night {round 3}');
+
+    const parsed = parsePgn(record.toPgn());
+    expect(parsed.root.comment).toBe('Club night {round 3');
+    expect(parsed.root.children[0].comment).toBe('best by test 2. Qh5');
+    expect(parsed.root.children[0].children[0].san).toBe('e5');
+  });
+});
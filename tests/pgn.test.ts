@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { PgnParseError, parsePgn } from '../services/pgnService';
+import { GameRecord } from '../services/gameRecordService';
+
+const roundTrip = (pgn: string): string => {
+  const parsed = parsePgn(pgn);
+  const record = new GameRecord();
+  record.load(parsed.startFen, parsed.root, parsed.headers);
+  return record.toPgn();
+};
+
+const GAME = `[Event "Club Championship"]
+[Site "Leeds"]
+[Date "2024.03.14"]
+[Round "4"]
+[White "Ada"]
+[Black "Grace"]
+[Result "*"]
+[TimeControl "5400+30"]
+
+{Played in the library} 1. e4 $1 {[%clk 1:30:20]} e5 {[%clk 1:30:25]} 2. Nf3
+{Aiming for the Ruy Lopez [%clk 1:29:58]} (2. f4 {The gambit} exf4 3. Nf3 $5)
+(2. Bc4 Nf6) 2... Nc6 (2... d6 $6 {Philidor}) 3. Bb5 {Slow} a6 *
+`;
+
+describe('parsePgn', () => {
+  it('reads variations, NAGs, comments and clock times', () => {
+    const parsed = parsePgn(GAME);
+    expect(parsed.headers.White).toBe('Ada');
+    expect(parsed.root.comment).toBe('Played in the library');
+
+    const e4 = parsed.root.children[0];
+    expect(e4.nags).toEqual([1]);
+    expect(e4.comment).toBe('[%clk 1:30:20]');
+
+    const nf3 = e4.children[0].children[0];
+    expect(nf3.children.map(c => c.san)).toEqual(['Nc6', 'd6']);
+    expect(e4.children[0].children.map(c => c.san)).toEqual(['Nf3', 'f4', 'Bc4']);
+    expect(e4.children[0].children[1].children[0].children[0].nags).toEqual([5]);
+  });
+
+  it('keeps a comment that opens a variation before its first move', () => {
+    const parsed = parsePgn('1. e4 e5 ({Or} 1... c5 2. Nf3) 2. Nf3 *');
+    const c5 = parsed.root.children[0].children[1];
+    expect(c5.san).toBe('c5');
+    expect(c5.commentBefore).toBe('Or');
+  });
+
+  it('accepts suffix annotations and castling written with zeros', () => {
+    const parsed = parsePgn('1. e4 e5 2. Nf3 Nc6 3. Bc4 Bc5 4. 0-0!? Nf6 *');
+    const castle = parsed.root.children[0].children[0].children[0].children[0].children[0].children[0].children[0];
+    expect(castle.san).toBe('O-O');
+    expect(castle.nags).toEqual([5]);
+  });
+
+  it('rejects illegal moves and unbalanced variations', () => {
+    expect(() => parsePgn('1. e4 e4 *')).toThrow(PgnParseError);
+    expect(() => parsePgn('1. e4 (1. d4 d5 *')).toThrow(PgnParseError);
+    expect(() => parsePgn('1. e4 ) e5 *')).toThrow(PgnParseError);
+  });
+
+  it('rejects a "}" outside a comment', () => {
+    expect(() => parsePgn('1. e4 {good} e5} 2. Nf3 *')).toThrow(PgnParseError);
+  });
+});
+
+describe('PGN round trip', () => {
+  it('exports an imported game unchanged', () => {
+    const once = roundTrip(GAME);
+    expect(roundTrip(once)).toBe(once);
+    expect(once).toContain('[TimeControl "5400+30"]');
+    expect(once.split('\n\n')[1].replace(/\s+/g, ' ').trim()).toBe(
+      '{Played in the library} 1. e4 $1 {[%clk 1:30:20]} e5 {[%clk 1:30:25]} 2. Nf3 ' +
+      '{Aiming for the Ruy Lopez} {[%clk 1:29:58]} (2. f4 {The gambit} exf4 3. Nf3 $5) ' +
+      '(2. Bc4 Nf6) 2... Nc6 (2... d6 $6 {Philidor}) 3. Bb5 {Slow} a6 *'
+    );
+  });
+
+  it('keeps clock times on the moves rather than in their comments', () => {
+    const parsed = parsePgn(GAME);
+    const record = new GameRecord();
+    record.load(parsed.startFen, parsed.root, parsed.headers);
+    const [e4, e5, nf3] = record.getMoves();
+    expect(e4.clock).toBe(5420);
+    expect(e4.comment).toBeUndefined();
+    expect(e5.clock).toBe(5425);
+    expect(nf3.comment).toBe('Aiming for the Ruy Lopez');
+  });
+
+  it('keeps the start position of a game set up from a FEN', () => {
+    const pgn = '[SetUp "1"]\n[FEN "4k3/8/8/8/8/8/4P3/4K3 w - - 0 40"]\n\n40. e4 Kd7 *';
+    const exported = roundTrip(pgn);
+    expect(exported).toContain('[FEN "4k3/8/8/8/8/8/4P3/4K3 w - - 0 40"]');
+    expect(exported.split('\n\n')[1].trim()).toBe('40. e4 Kd7 *');
+  });
+});
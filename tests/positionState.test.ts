@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { INITIAL_FEN } from '../types';
+import { composeFen, enPassantCandidates, inferPositionState, plausibleCastling } from '../services/positionStateService';
+
+describe('plausibleCastling', () => {
+  it('allows only the rights whose king and rook are at home', () => {
+    expect(plausibleCastling(INITIAL_FEN.split(' ')[0])).toBe('KQkq');
+    expect(plausibleCastling('r3k3/8/8/8/8/8/8/4K2R')).toBe('Kq');
+    expect(plausibleCastling('r3k2r/8/8/8/8/8/8/R4K1R')).toBe('kq');
+  });
+});
+
+describe('enPassantCandidates', () => {
+  it('finds squares a pawn of the side not to move may just have skipped', () => {
+    expect(enPassantCandidates('rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR', 'b')).toEqual(['e3']);
+    expect(enPassantCandidates('rnbqkbnr/pppp1ppp/8/4p3/4P3/8/PPPP1PPP/RNBQKBNR', 'w')).toEqual(['e6']);
+  });
+
+  it('rules out a pawn whose start or skipped square is occupied', () => {
+    expect(enPassantCandidates('rnbqkbnr/pppppppp/8/8/4P3/4N3/PPPP1PPP/R1BQKBNR', 'b')).toEqual([]);
+    expect(enPassantCandidates('rnbqkbnr/pppppppp/8/8/4P3/8/PPPPPPPP/RNBQKBNR', 'b')).toEqual([]);
+  });
+});
+
+describe('inferPositionState', () => {
+  it('takes castling from the placement when joining a game', () => {
+    expect(inferPositionState('r3k2r/8/8/8/8/8/8/R3K1R1', 'w', null)).toEqual({
+      turn: 'w', castling: 'Qkq', enPassant: null, halfmove: 0, fullmove: 1
+    });
+  });
+
+  it('never gives back rights the previous position had lost', () => {
+    const previous = 'r3k2r/8/8/8/8/8/8/R3K2R b Kq - 4 20';
+    const state = inferPositionState('r3k2r/8/8/8/8/8/8/R3K2R', 'w', previous);
+    expect(state.castling).toBe('Kq');
+    expect(state.fullmove).toBe(21);
+  });
+
+  it('leaves the en passant square and halfmove clock empty', () => {
+    const state = inferPositionState('rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR', 'b', INITIAL_FEN);
+    expect(state).toMatchObject({ enPassant: null, halfmove: 0, fullmove: 1 });
+    expect(composeFen('rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR', state)).toBe(
+      'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq - 0 1'
+    );
+  });
+});
@@ -0,0 +1,71 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { CaptureMode, INITIAL_FEN } from '../types';
+import { VisionProvider } from '../services/visionService';
+import { VisionFixture, createMockProvider } from '../services/mockVisionService';
+import { TransitionFilter, TransitionVerdict } from '../services/transitionService';
+import { GameRecord } from '../services/gameRecordService';
+
+/**
+ * SYNC LOOP
+ * Plays the mock provider's fixtures through the same steps as the app: recognition, the
+ * transition filter, then the game record. Frames are the fixture images themselves.
+ */
+
+const FIXTURES_DIR = new URL('../public/vision-fixtures/', import.meta.url);
+
+const bundledFixtures = (): VisionFixture[] =>
+  (JSON.parse(readFileSync(new URL('fixtures.json', FIXTURES_DIR), 'utf8')) as VisionFixture[])
+    .map(fixture => ({ ...fixture, image: readFileSync(new URL(fixture.image, FIXTURES_DIR)).toString('base64') }));
+
+const runSync = async (provider: VisionProvider, frames: string[]) => {
+  const filter = new TransitionFilter();
+  const record = new GameRecord(INITIAL_FEN);
+  const verdicts: TransitionVerdict['kind'][] = [];
+  let fen = INITIAL_FEN;
+  for (const image of frames) {
+    const result = await provider.recognize({ image, mode: CaptureMode.SCREEN, orientation: 'white' });
+    if (result.error) throw new Error(result.error);
+    const verdict = filter.evaluate(fen, result.placement);
+    verdicts.push(verdict.kind);
+    if (verdict.kind === 'moves') {
+      verdict.moves.forEach(move => expect(record.addMove(move, null, 0)).not.toBeNull());
+      fen = verdict.fen;
+    }
+  }
+  return { verdicts, fen, movetext: record.toPgn({ date: new Date(2024, 0, 1) }).split('\n\n')[1].trim() };
+};
+
+describe('sync loop with the mock provider', () => {
+  it('records the bundled fixture game', async () => {
+    const fixtures = bundledFixtures();
+    const provider = createMockProvider({ mode: 'sequence', fixtures });
+    const { verdicts, movetext } = await runSync(provider, fixtures.map(f => f.image));
+    expect(verdicts).toEqual(['unchanged', 'moves', 'moves']);
+    expect(movetext).toBe('1. e4 e5 *');
+  });
+
+  it('answers frames by image in match mode', async () => {
+    const fixtures = bundledFixtures();
+    const provider = createMockProvider({ mode: 'match', fixtures });
+    const { movetext } = await runSync(provider, [fixtures[0].image, fixtures[1].image, fixtures[1].image, fixtures[2].image]);
+    expect(movetext).toBe('1. e4 e5 *');
+
+    const unknown = await provider.recognize({ image: 'bm90IGEgZml4dHVyZQ==', mode: CaptureMode.SCREEN, orientation: 'white' });
+    expect(unknown.error).toBeTruthy();
+  });
+
+  it('keeps a lifted piece and a one-off misread out of the record', async () => {
+    const scripted: VisionFixture[] = [
+      { image: 'lifted', placement: 'rnbqkbnr/pppppppp/8/8/8/8/PPPP1PPP/RNBQKBNR', bottomColor: 'white' },
+      { image: 'e4', placement: 'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR', bottomColor: 'white' },
+      { image: 'misread', placement: 'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKB1R', bottomColor: 'white' },
+      { image: 'e5', placement: 'rnbqkbnr/pppp1ppp/8/4p3/4P3/8/PPPP1PPP/RNBQKBNR', bottomColor: 'white' },
+      { image: 'nf3', placement: 'rnbqkbnr/pppp1ppp/8/4p3/4P3/5N2/PPPP1PPP/RNBQKB1R', bottomColor: 'white' }
+    ];
+    const provider = createMockProvider({ mode: 'sequence', fixtures: scripted });
+    const { verdicts, movetext } = await runSync(provider, scripted.map(f => f.image));
+    expect(verdicts).toEqual(['rejected', 'moves', 'rejected', 'moves', 'moves']);
+    expect(movetext).toBe('1. e4 e5 2. Nf3 *');
+  });
+});
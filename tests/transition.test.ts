@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { INITIAL_FEN } from '../types';
+import { TransitionFilter, findMovePath } from '../services/transitionService';
+
+const placement = (fen: string) => fen.split(' ')[0];
+
+describe('findMovePath', () => {
+  it('finds a move and a move with its reply', () => {
+    expect(findMovePath(INITIAL_FEN, 'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR', 2)?.moves).toEqual([
+      { from: 'e2', to: 'e4', promotion: undefined }
+    ]);
+    const both = findMovePath(INITIAL_FEN, 'rnbqkbnr/pppp1ppp/8/4p3/4P3/8/PPPP1PPP/RNBQKBNR', 2);
+    expect(both?.moves.map(m => m.from + m.to)).toEqual(['e2e4', 'e7e5']);
+    expect(both?.fen).toBe('rnbqkbnr/pppp1ppp/8/4p3/4P3/8/PPPP1PPP/RNBQKBNR w KQkq - 0 2');
+  });
+
+  it('stops at the ply limit', () => {
+    expect(findMovePath(INITIAL_FEN, 'rnbqkbnr/pppp1ppp/8/4p3/4P3/8/PPPP1PPP/RNBQKBNR', 1)).toBeNull();
+  });
+
+  it('explains castling by both king and rook moving', () => {
+    const fen = 'r3k2r/pppq1ppp/2npbn2/2b1p3/2B1P3/2NPBN2/PPPQ1PPP/R3K2R w KQkq - 0 8';
+    const short = findMovePath(fen, 'r3k2r/pppq1ppp/2npbn2/2b1p3/2B1P3/2NPBN2/PPPQ1PPP/R4RK1', 1);
+    expect(short?.moves).toEqual([{ from: 'e1', to: 'g1', promotion: undefined }]);
+    expect(short?.fen.split(' ')[2]).toBe('kq');
+    const long = findMovePath(fen, 'r3k2r/pppq1ppp/2npbn2/2b1p3/2B1P3/2NPBN2/PPPQ1PPP/2KR3R', 1);
+    expect(long?.moves).toEqual([{ from: 'e1', to: 'c1', promotion: undefined }]);
+  });
+
+  it('tells promotion pieces apart', () => {
+    const fen = '8/4P1k1/8/8/8/8/6K1/8 w - - 0 60';
+    expect(findMovePath(fen, '4Q3/6k1/8/8/8/8/6K1/8', 1)?.moves[0].promotion).toBe('q');
+    expect(findMovePath(fen, '4N3/6k1/8/8/8/8/6K1/8', 1)?.moves[0].promotion).toBe('n');
+  });
+
+  it('finds an en passant capture', () => {
+    const fen = 'rnbqkbnr/ppp1p1pp/8/3pPp2/8/8/PPPP1PPP/RNBQKBNR w KQkq f6 0 3';
+    expect(findMovePath(fen, 'rnbqkbnr/ppp1p1pp/5P2/3p4/8/8/PPPP1PPP/RNBQKBNR', 1)?.moves).toEqual([
+      { from: 'e5', to: 'f6', promotion: undefined }
+    ]);
+  });
+});
+
+describe('TransitionFilter', () => {
+  const e4 = 'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq e3 0 1';
+
+  it('accepts legal moves and ignores an unchanged board', () => {
+    const filter = new TransitionFilter();
+    expect(filter.evaluate(INITIAL_FEN, placement(INITIAL_FEN))).toEqual({ kind: 'unchanged' });
+    expect(filter.evaluate(INITIAL_FEN, placement(e4)).kind).toBe('moves');
+  });
+
+  it('never takes a lifted piece, however often it is seen', () => {
+    const filter = new TransitionFilter();
+    const lifted = 'rnbqkbnr/pppppppp/8/8/8/8/PPPP1PPP/RNBQKBNR';
+    for (let i = 0; i < 5; i++) {
+      expect(filter.evaluate(INITIAL_FEN, lifted)).toMatchObject({ kind: 'rejected', reason: 'piece-lifted' });
+    }
+    expect(filter.getRejections()).toHaveLength(5);
+  });
+
+  it('takes an unexplained position once it has been stable', () => {
+    const filter = new TransitionFilter({ maxPlies: 2, stableFrames: 3 });
+    const jump = 'r1bqkbnr/pppp1ppp/2n5/4p3/4P3/5N2/PPPP1PPP/RNBQKB1R';
+    expect(filter.evaluate(e4, jump)).toMatchObject({ kind: 'rejected', reason: 'no-legal-path', frames: 1 });
+    expect(filter.evaluate(e4, jump)).toMatchObject({ kind: 'rejected', reason: 'awaiting-stability', frames: 2 });
+    expect(filter.evaluate(e4, jump)).toEqual({ kind: 'stable', frames: 3 });
+  });
+
+  it('starts counting again when a different position comes in between', () => {
+    const filter = new TransitionFilter({ maxPlies: 2, stableFrames: 2 });
+    const jump = 'r1bqkbnr/pppp1ppp/2n5/4p3/4P3/5N2/PPPP1PPP/RNBQKB1R';
+    const other = 'rnbqkbnr/pppp1ppp/8/4p3/3PP3/5N2/PPP2PPP/RNBQKB1R';
+    filter.evaluate(e4, jump);
+    filter.evaluate(e4, other);
+    expect(filter.evaluate(e4, jump)).toMatchObject({ kind: 'rejected', frames: 1 });
+    filter.reset();
+    filter.evaluate(e4, jump);
+    expect(filter.evaluate(e4, jump)).toEqual({ kind: 'stable', frames: 2 });
+  });
+});
@@ -10,6 +10,7 @@ interface ImportMeta {
 }
 
 interface ImportMetaEnv {
+  readonly BASE_URL: string;
   readonly VITE_API_KEY: string;
 }
 